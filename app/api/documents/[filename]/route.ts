@@ -0,0 +1,96 @@
+/**
+ * Documents Admin API - Replace or delete one knowledge base document
+ *
+ * PUT    /api/documents/:filename  replace the file (multipart/form-data "file" field)
+ * DELETE /api/documents/:filename  delete the file and its metadata sidecar
+ *
+ * Requires "Authorization: Bearer <RAG_ADMIN_TOKEN>"
+ */
+
+import { NextResponse, NextRequest } from 'next/server';
+import { getRagManager } from '@/lib/rag';
+import { authorizeAdmin, readUploads, toDocumentChangeItem } from '@/lib/rag/document-admin';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: { filename: string };
+}
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const auth = authorizeAdmin(request);
+  if (!auth.valid) {
+    return NextResponse.json({ success: false, error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const rag = getRagManager();
+    const { maxFileSize } = rag.getConfig().config.loader;
+    const { uploads, error, status: errorStatus } = await readUploads(request, maxFileSize);
+    if (error) {
+      return NextResponse.json({ success: false, error }, { status: errorStatus });
+    }
+    if (uploads.length !== 1) {
+      return NextResponse.json(
+        { success: false, error: 'Send exactly one "file" field as multipart/form-data' },
+        { status: 400 }
+      );
+    }
+
+    // The stored name comes from the URL, not from the uploaded file
+    const { results, refresh } = await rag.writeDocuments(
+      [{ filename: params.filename, content: uploads[0].content }],
+      true
+    );
+    const result = results[0];
+    const status = result.status === 'missing' ? 404 : result.status === 'rejected' ? 400 : 200;
+
+    return NextResponse.json(
+      {
+        success: result.status === 'indexed',
+        file: toDocumentChangeItem(result),
+        refresh,
+      },
+      { status }
+    );
+  } catch (error) {
+    console.error(`❌ [Documents] Replacing ${params.filename} failed:`, error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const auth = authorizeAdmin(request);
+  if (!auth.valid) {
+    return NextResponse.json({ success: false, error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const { result, refresh } = await getRagManager().deleteDocument(params.filename);
+
+    return NextResponse.json(
+      {
+        success: result.status === 'deleted',
+        file: toDocumentChangeItem(result),
+        refresh,
+      },
+      { status: result.status === 'deleted' ? 200 : result.status === 'rejected' ? 400 : 404 }
+    );
+  } catch (error) {
+    console.error(`❌ [Documents] Deleting ${params.filename} failed:`, error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * Documents Admin API - Re-index the knowledge base
+ *
+ * POST /api/documents/reindex             re-index added, changed and removed files
+ * POST /api/documents/reindex?full=true   rebuild the whole index and snapshot
+ *
+ * Requires "Authorization: Bearer <RAG_ADMIN_TOKEN>"
+ */
+
+import { NextResponse, NextRequest } from 'next/server';
+import { getRagManager } from '@/lib/rag';
+import { authorizeAdmin } from '@/lib/rag/document-admin';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  const auth = authorizeAdmin(request);
+  if (!auth.valid) {
+    return NextResponse.json({ success: false, error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const rag = getRagManager();
+    const full = request.nextUrl.searchParams.get('full') === 'true';
+
+    if (full) {
+      const snapshotSaved = await rag.rebuildSnapshot();
+      const stats = await rag.getStats();
+      return NextResponse.json({
+        success: true,
+        mode: 'full',
+        snapshot_saved: snapshotSaved,
+        total_chunks: stats.totalChunks,
+      });
+    }
+
+    const refresh = await rag.refresh();
+    return NextResponse.json({ success: true, mode: 'incremental', refresh });
+  } catch (error) {
+    console.error('❌ [Documents] Re-index failed:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * Documents Admin API - List and upload knowledge base documents
+ *
+ * GET  /api/documents  indexed documents with chunk counts
+ * POST /api/documents  upload new files (multipart/form-data, one or more "file" fields)
+ *
+ * Requires "Authorization: Bearer <RAG_ADMIN_TOKEN>"
+ */
+
+import { NextResponse, NextRequest } from 'next/server';
+import { getRagManager } from '@/lib/rag';
+import {
+  authorizeAdmin,
+  readUploads,
+  toDocumentChangeItem,
+  toDocumentListItem,
+} from '@/lib/rag/document-admin';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const auth = authorizeAdmin(request);
+  if (!auth.valid) {
+    return NextResponse.json({ success: false, error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const documents = await getRagManager().listDocuments();
+
+    return NextResponse.json({
+      success: true,
+      total_documents: documents.length,
+      total_chunks: documents.reduce((sum, doc) => sum + doc.chunkCount, 0),
+      documents: documents.map(toDocumentListItem),
+    });
+  } catch (error) {
+    console.error('❌ [Documents] Failed to list documents:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const auth = authorizeAdmin(request);
+  if (!auth.valid) {
+    return NextResponse.json({ success: false, error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const rag = getRagManager();
+    const { maxFileSize } = rag.getConfig().config.loader;
+    const { uploads, error, status: errorStatus } = await readUploads(request, maxFileSize);
+    if (error) {
+      return NextResponse.json({ success: false, error }, { status: errorStatus });
+    }
+    if (uploads.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'No files uploaded. Send multipart/form-data with one or more "file" fields.' },
+        { status: 400 }
+      );
+    }
+
+    const { results, refresh } = await rag.writeDocuments(uploads, false);
+    const accepted = results.some(result => result.status === 'indexed' || result.status === 'failed');
+
+    return NextResponse.json(
+      {
+        success: accepted,
+        files: results.map(toDocumentChangeItem),
+        refresh,
+      },
+      { status: accepted ? 200 : 400 }
+    );
+  } catch (error) {
+    console.error('❌ [Documents] Upload failed:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
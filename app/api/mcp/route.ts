@@ -0,0 +1,60 @@
+/**
+ * MCP API - Streamable HTTP transport of the knowledge base MCP server
+ *
+ * POST /api/mcp   one JSON-RPC message or a batch; answered with a JSON response
+ *                 (202 without a body when it held only notifications)
+ *
+ * Server-initiated streams are not offered, so GET and DELETE answer 405.
+ * Requires "Authorization: Bearer <RAG_MCP_TOKEN>" when RAG_MCP_TOKEN is set.
+ */
+
+import { NextResponse } from 'next/server';
+import { PARSE_ERROR, authorizeMCP, createMCPServer, errorResponse } from '@/lib/rag/mcp-server';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const server = createMCPServer();
+
+export async function POST(request: Request) {
+  const auth = authorizeMCP(request);
+  if (!auth.valid) {
+    return NextResponse.json({ success: false, error: auth.error }, { status: auth.status });
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(errorResponse(null, PARSE_ERROR, 'Parse error'), { status: 400 });
+  }
+
+  try {
+    if (Array.isArray(body)) {
+      const responses = (await Promise.all(body.map(message => server.handleMessage(message)))).filter(Boolean);
+      return responses.length > 0 ? NextResponse.json(responses) : new NextResponse(null, { status: 202 });
+    }
+
+    const response = await server.handleMessage(body);
+    return response ? NextResponse.json(response) : new NextResponse(null, { status: 202 });
+  } catch (error) {
+    console.error('❌ [MCP] Request failed:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+function methodNotAllowed() {
+  return NextResponse.json(
+    { success: false, error: 'Server-initiated streams are not supported; send requests with POST' },
+    { status: 405, headers: { Allow: 'POST' } }
+  );
+}
+
+export const GET = methodNotAllowed;
+export const DELETE = methodNotAllowed;
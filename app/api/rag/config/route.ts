@@ -0,0 +1,44 @@
+/**
+ * RAG Config API - Read-only view of the resolved RAG configuration
+ *
+ * Shows the defaults merged with rag.config.json and environment overrides,
+ * as the running RAGManager uses them. API keys are masked and server paths
+ * left out.
+ *
+ * Requires "Authorization: Bearer <RAG_ADMIN_TOKEN>"
+ */
+
+import * as path from 'path';
+import { NextResponse, NextRequest } from 'next/server';
+import { getRagManager } from '@/lib/rag';
+import { redactRAGConfig } from '@/lib/rag/config';
+import { authorizeAdmin } from '@/lib/rag/document-admin';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const auth = authorizeAdmin(request);
+  if (!auth.valid) {
+    return NextResponse.json({ success: false, error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const { config, configFile, envOverrides } = getRagManager().getConfig();
+
+    return NextResponse.json({
+      config: redactRAGConfig(config),
+      config_file: configFile ? path.basename(configFile) : null,
+      env_overrides: envOverrides,
+    });
+  } catch (error) {
+    console.error('❌ [RAG Config] Failed to load configuration:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * Document Viewer API - Full text of one indexed document
+ *
+ * GET /api/rag/documents/:id  text, base direction and chunk offsets, so the
+ * chat UI can show a cited passage in context
+ *
+ * Confidential and restricted documents require "Authorization: Bearer <RAG_ADMIN_TOKEN>"
+ */
+
+import { NextResponse, NextRequest } from 'next/server';
+import { getRagManager } from '@/lib/rag';
+import { authorizeAdmin } from '@/lib/rag/document-admin';
+import { toDocumentView } from '@/lib/rag/document-viewer';
+import { isConfidential } from '@/lib/rag/metadata';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const content = await getRagManager().getDocumentContent(params.id);
+    if (!content) {
+      return NextResponse.json({ success: false, error: `Document not found: ${params.id}` }, { status: 404 });
+    }
+
+    if (isConfidential(content.document.metadata)) {
+      const auth = authorizeAdmin(request);
+      if (!auth.valid) {
+        return NextResponse.json(
+          { success: false, error: `${content.document.filename} is confidential: ${auth.error}` },
+          { status: auth.status }
+        );
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      document: toDocumentView(content.document, content.chunks),
+    });
+  } catch (error) {
+    console.error('❌ [Document Viewer] Failed to load document:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * RAG Ingestion API - Extraction report of the knowledge base
+ *
+ * Per file: status, rejection reason, character/word counts, Hebrew and hex
+ * ratios, pages detected and chunks produced. `mode` shows whether real
+ * documents, mock documents (loader.mockFallback) or nothing is indexed.
+ *
+ * Requires "Authorization: Bearer <RAG_ADMIN_TOKEN>"
+ */
+
+import { NextResponse, NextRequest } from 'next/server';
+import { getRagManager } from '@/lib/rag';
+import { authorizeAdmin } from '@/lib/rag/document-admin';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const auth = authorizeAdmin(request);
+  if (!auth.valid) {
+    return NextResponse.json({ success: false, error: auth.error }, { status: auth.status });
+  }
+
+  try {
+    const report = await getRagManager().getIngestionReport();
+
+    return NextResponse.json({
+      success: report.mode === 'documents',
+      report,
+    });
+  } catch (error) {
+    console.error('❌ [RAG Ingestion] Failed to build report:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
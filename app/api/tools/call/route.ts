@@ -2,14 +2,13 @@
  * Tool Handler API - Processes MCP tool calls from OpenAI Realtime API
  * 
  * This endpoint handles tool invocations made by the Realtime agent
- * and returns results that are fed back into the conversation
+ * and returns results that are fed back into the conversation.
+ * Any tool in the registry can be called; invalid arguments are answered
+ * with 400 and an error message meant for the model.
  */
 
 import { NextResponse, NextRequest } from 'next/server';
-import {
-  handleSearchPdfs,
-  validateToolCall,
-} from '@/lib/rag/mcp-tools';
+import { getToolRegistry } from '@/lib/rag/tool-registry';
 
 /**
  * Tool call request from client (after agent invokes tool)
@@ -38,8 +37,9 @@ export async function POST(request: NextRequest) {
     console.log(`📞 Tool: ${tool_name}`);
     console.log(`📋 Arguments:`, tool_arguments);
 
-    // Validate tool call
-    const validation = validateToolCall(tool_name, tool_arguments);
+    // Validate tool call against the tool's schema
+    const registry = getToolRegistry();
+    const validation = registry.validate(tool_name, tool_arguments);
     if (!validation.valid) {
       console.log(`❌ Validation failed:`, validation.error);
       return NextResponse.json(
@@ -52,50 +52,26 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Handle search_pdfs tool
-    if (tool_name === 'search_pdfs') {
-      const query = tool_arguments.query as string;
-      console.log(`🔍 Calling handleSearchPdfs with query: "${query}"`);
-      try {
-        const result = await handleSearchPdfs(query);
-        console.log(`✅✅✅ Got result from handleSearchPdfs:`, {
-          results_count: result.results?.length || 0,
-          note: result.note,
-        });
-        console.log(`🔴🔴🔴 TOOL ENDPOINT RETURNING 🔴🔴🔴\n`);
+    try {
+      const result = await registry.call(tool_name, tool_arguments ?? {});
+      console.log(`✅✅✅ Got result from ${tool_name}`);
+      console.log(`🔴🔴🔴 TOOL ENDPOINT RETURNING 🔴🔴🔴\n`);
 
-        return NextResponse.json({
+      return NextResponse.json({
+        tool_name,
+        tool_result: result,
+      } as ToolCallResponse);
+    } catch (toolError) {
+      console.error(`❌ Error in ${tool_name}:`, toolError);
+      return NextResponse.json(
+        {
           tool_name,
-          tool_result: result,
-        } as ToolCallResponse);
-      } catch (searchError) {
-        console.error('❌ Error in handleSearchPdfs:', searchError);
-        return NextResponse.json(
-          {
-            tool_name,
-            error: `Search failed: ${searchError instanceof Error ? searchError.message : 'Unknown error'}`,
-            tool_result: {
-              results: [],
-              total_matches: 0,
-              note: 'Search failed',
-              formatted_response: 'ERROR: Search operation failed',
-            },
-          } as ToolCallResponse,
-          { status: 500 }
-        );
-      }
+          error: `Tool ${tool_name} failed: ${toolError instanceof Error ? toolError.message : 'Unknown error'}`,
+          tool_result: null,
+        } as ToolCallResponse,
+        { status: 500 }
+      );
     }
-
-    // Unknown tool
-    console.log(`❌ Unknown tool: ${tool_name}`);
-    return NextResponse.json(
-      {
-        tool_name,
-        error: `Unknown tool: ${tool_name}`,
-        tool_result: null,
-      } as ToolCallResponse,
-      { status: 400 }
-    );
   } catch (error) {
     console.error('❌ Error handling tool call:', error);
     return NextResponse.json(
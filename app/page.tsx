@@ -9,11 +9,17 @@ import { AUDIO_CONFIG, TEXT_ANALYSIS } from './constants/config';
 import { isGreeting, hasQuestionIndicator } from './constants/patterns';
 import { logger } from '@/utils/logger';
 import { sanitizeInput } from '@/utils/sanitize';
+import { SearchFilter, describeFilter } from '@/lib/rag/metadata';
+import { formatCitedSnippets, splitCitations } from '@/lib/rag/citations';
+import { formatToolOutput } from '@/lib/rag/tool-output';
 import type { 
   ServerResponseEvent, 
   ToolArguments, 
   ToolCallResponse,
   SearchCache,
+  SearchResult,
+  ToolResult,
+  RelayToolResultEvent,
   TranscriptionEvent,
   ConversationUpdateEvent 
 } from './types/chat.types';
@@ -22,6 +28,8 @@ import { Mic, Phone, PhoneOff, Send, Loader2 } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent } from "@/components/ui/card"
 import { ScrollArea } from "@/components/ui/scroll-area"
+import { CitationChip } from "@/components/citation-chip"
+import { DocumentViewer, ViewerTarget } from "@/components/document-viewer"
 
 export default function Home() {
   const [items, setItems] = useState<ItemType[]>([]);
@@ -30,12 +38,15 @@ export default function Home() {
   const [isConnecting, setIsConnecting] = useState(false);
   const [isSearching, setIsSearching] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [citations, setCitations] = useState<Record<string, SearchResult[]>>({}); // assistant item id -> search results
+  const [viewerTarget, setViewerTarget] = useState<ViewerTarget | null>(null);
 
   const wavRecorderRef = useRef<WavRecorder | null>(null);
   const wavStreamPlayerRef = useRef<WavStreamPlayer | null>(null);
   const clientRef = useRef<RealtimeClient | null>(null);
   const recordedChunkCountRef = useRef<number>(0);
   const searchCacheRef = useRef<Map<string, SearchCache>>(new Map());
+  const pendingCitationsRef = useRef<SearchResult[] | null>(null); // results for the next assistant message
   const chatEndRef = useRef<HTMLDivElement>(null);
 
   // Initialize audio objects only once
@@ -53,14 +64,46 @@ export default function Home() {
     };
   }, []);
 
+  /**
+   * Call a tool through the server tool registry
+   * Validation and tool errors come back in `error`, so they can be passed to the model
+   */
+  const callTool = useCallback(async (
+    toolName: string,
+    toolArguments: Record<string, unknown>
+  ): Promise<ToolCallResponse<unknown>> => {
+    const response = await fetch('/api/tools/call', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ tool_name: toolName, tool_arguments: toolArguments }),
+    });
+
+    const result: ToolCallResponse<unknown> = await response.json().catch(() => ({
+      tool_name: toolName,
+      tool_result: null,
+      error: `Tool call failed with status: ${response.status}`,
+    }));
+    if (!response.ok && !result.error) {
+      result.error = `Tool call failed with status: ${response.status}`;
+    }
+    return result;
+  }, []);
+
   /**
    * Perform document search with caching
    */
-  const performSearch = useCallback(async (query: string): Promise<ToolCallResponse | null> => {
+  const performSearch = useCallback(async (
+    query: string,
+    filter?: SearchFilter,
+    asOf?: string
+  ): Promise<ToolCallResponse | null> => {
     const sanitizedQuery = sanitizeInput(query);
+    const cacheKey = filter || asOf
+      ? `${sanitizedQuery}|${describeFilter({ ...filter, asOf })}`
+      : sanitizedQuery;
     
     // Check cache first
-    const cached = searchCacheRef.current.get(sanitizedQuery);
+    const cached = searchCacheRef.current.get(cacheKey);
     if (cached && Date.now() - cached.timestamp < TEXT_ANALYSIS.SEARCH_CACHE_TTL_MS) {
       logger.log('📦 Using cached search results for:', sanitizedQuery);
       return cached.data;
@@ -68,23 +111,14 @@ export default function Home() {
 
     // Perform fresh search
     try {
-      const response = await fetch('/api/tools/call', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          tool_name: 'search_pdfs',
-          tool_arguments: { query: sanitizedQuery }
-        }),
-      });
+      const result = (await callTool('search_pdfs', { query: sanitizedQuery, filter, as_of: asOf })) as ToolCallResponse;
 
-      if (!response.ok) {
-        throw new Error(`Search failed with status: ${response.status}`);
+      if (result.error) {
+        throw new Error(result.error);
       }
-
-      const result: ToolCallResponse = await response.json();
       
       // Cache the result
-      searchCacheRef.current.set(sanitizedQuery, {
+      searchCacheRef.current.set(cacheKey, {
         data: result,
         timestamp: Date.now()
       });
@@ -94,6 +128,18 @@ export default function Home() {
       logger.error('❌ Search failed:', error);
       throw error;
     }
+  }, [callTool]);
+
+  /**
+   * Show a cited passage in the document viewer
+   */
+  const openCitation = useCallback((citation: SearchResult) => {
+    setViewerTarget({
+      documentId: citation.document_id,
+      startChar: citation.start_char,
+      endChar: citation.end_char,
+      page: citation.page,
+    });
   }, []);
 
   const connectConversation = useCallback(async () => {
@@ -128,15 +174,25 @@ export default function Home() {
         throw new Error(error.error || 'Failed to get session token');
       }
 
-      const { client_secret } = await tokenResponse.json();
+      // Tool definitions come from the server tool registry
+      const { client_secret, realtime_url, relay_url, relay_token, tools } = await tokenResponse.json();
+      const isRelay = Boolean(relay_url);
 
-      // Initialize client with temporary session token (not permanent API key)
+      // Relay mode: connect to the relay server, which holds the API key and runs tool calls
+      // Otherwise, initialize client with temporary session token (not permanent API key)
       // dangerouslyAllowAPIKeyInBrowser is safe here because client_secret is a short-lived session token
       // The actual API key remains secure on the server
-      const client = new RealtimeClient({
-        apiKey: client_secret.value,
-        dangerouslyAllowAPIKeyInBrowser: true,
-      });
+      const client = isRelay
+        ? new RealtimeClient({
+            url: `${window.location.protocol === 'https:' ? 'wss:' : 'ws:'}//${window.location.host}${relay_url}`,
+            apiKey: relay_token.value, // single-use relay token, sent like an API key
+            dangerouslyAllowAPIKeyInBrowser: true,
+          })
+        : new RealtimeClient({
+            url: realtime_url,
+            apiKey: client_secret.value,
+            dangerouslyAllowAPIKeyInBrowser: true,
+          });
 
       clientRef.current = client;
       const wavRecorder = wavRecorderRef.current;
@@ -144,24 +200,7 @@ export default function Home() {
 
       setItems(client.conversation.getItems());
 
-      // Set up tools configuration
-      const toolsConfig: ToolDefinitionType[] = [
-        {
-          type: 'function',
-          name: 'search_pdfs',
-          description: 'Search the company knowledge base for information about policies and procedures.',
-          parameters: {
-            type: 'object',
-            properties: {
-              query: {
-                type: 'string',
-                description: 'The search query to find information from documents.',
-              },
-            },
-            required: ['query'],
-          },
-        },
-      ];
+      const toolsConfig: ToolDefinitionType[] = tools ?? [];
 
       // Set up error handler FIRST
       client.on('error', (event: unknown) => {
@@ -179,6 +218,12 @@ export default function Home() {
       // CRITICAL: Use client.realtime.on to catch server events
       client.realtime.on('server.response.output_item.done', async (event: ServerResponseEvent) => {
         const item = event.item;
+
+        // Relay mode: the relay server executes function calls and answers the model itself
+        if (item?.type === 'function_call' && isRelay) {
+          logger.log('🔧 Function call (run by relay):', item.name, item.call_id);
+          return;
+        }
         
         if (item?.type === 'function_call') {
           logger.log('🔧 Function call:', item.name, item.call_id);
@@ -187,28 +232,42 @@ export default function Home() {
             const args: ToolArguments = typeof item.arguments === 'string' 
               ? JSON.parse(item.arguments) 
               : (item.arguments as unknown as ToolArguments);
+
+            // Other tools: pass their formatted result (or error) to the model, as the relay does
+            if (item.name !== 'search_pdfs') {
+              const toolResponse = await callTool(item.name || '', args as unknown as Record<string, unknown>);
+              await client.realtime.send('conversation.item.create', {
+                item: {
+                  type: 'function_call_output',
+                  call_id: item.call_id,
+                  output: toolResponse.error
+                    ? `ERROR: ${toolResponse.error}`
+                    : formatToolOutput(toolResponse.tool_result),
+                },
+              });
+              await client.createResponse();
+              return;
+            }
             
             // Call tool handler using cached search
-            const searchResult = await performSearch(args.query);
+            const searchResult = await performSearch(args.query, args.filter, args.as_of);
 
             // Submit tool result back to the client
             if (searchResult?.tool_result) {
               logger.log('📦 Tool result has data:', searchResult.tool_result);
               
-              // Extract just the text snippets and combine them
-              const results = searchResult.tool_result.results || [];
-              const snippets = results.map((r) => r.text_snippet).filter(Boolean);
-              logger.log(`📄 Got ${snippets.length} snippets`);
+              // Extract the snippets with their citations and combine them
+              const results = (searchResult.tool_result.results || []).filter((r) => r.text_snippet);
+              logger.log(`📄 Got ${results.length} snippets`);
               
-              if (snippets.length > 0) {
-                // Put ALL snippets directly in function_call_output
-                const allSnippets = snippets.map((s: string, i: number) => 
-                  `קטע ${i + 1}:\n${s}`
-                ).join('\n\n---\n\n');
+              if (results.length > 0) {
+                // Put ALL snippets directly in function_call_output, labelled with their citation ids
+                const allSnippets = formatCitedSnippets(results);
                 
-                const outputWithContext = `נמצאו ${snippets.length} קטעים רלוונטיים מהמסמכים:\n\n${allSnippets}\n\nעכשיו ענה על השאלה בעברית על סמך המידע שמצאתי.`;
+                const outputWithContext = `נמצאו ${results.length} קטעים רלוונטיים מהמסמכים:\n\n${allSnippets}\n\nעכשיו ענה על השאלה בעברית על סמך המידע שמצאתי, וציין את מזהי המקורות בסוגריים מרובעים.`;
                 
-                logger.log('💉 Injecting', snippets.length, 'snippets directly in function_call_output...');
+                logger.log('💉 Injecting', results.length, 'snippets directly in function_call_output...');
+                pendingCitationsRef.current = results;
                 
                 // Send function_call_output WITH all the context inside
                 await client.realtime.send('conversation.item.create', {
@@ -261,6 +320,16 @@ export default function Home() {
         }
       });
 
+      // Relay mode: keep the search results the relay used, for the answer's citations
+      client.realtime.on('server.relay.tool_result', (event: RelayToolResultEvent) => {
+        if (event.name !== 'search_pdfs' || event.error || !event.result) return;
+        const results = ((event.result as ToolResult).results || []).filter((r) => r.text_snippet);
+        logger.log(`📦 Relay ran search_pdfs: ${results.length} snippets`);
+        if (results.length > 0) {
+          pendingCitationsRef.current = results;
+        }
+      });
+
       // Transcription completion - PRE-SEARCH then trigger response
       client.realtime.on('server.conversation.item.input_audio_transcription.completed', async (event: TranscriptionEvent) => {
         const transcript = event?.transcript || '';
@@ -284,16 +353,14 @@ export default function Home() {
               const searchResult = await performSearch(sanitizedTranscript);
               
               if (searchResult?.tool_result) {
-                const results = searchResult.tool_result.results || [];
-                const snippets = results.map((r) => r.text_snippet).filter(Boolean);
+                const results = (searchResult.tool_result.results || []).filter((r) => r.text_snippet);
                 
-                logger.log(`✅ Pre-search found ${snippets.length} results`);
+                logger.log(`✅ Pre-search found ${results.length} results`);
                 
-                if (snippets.length > 0) {
+                if (results.length > 0) {
                   // Update instructions with the search results BEFORE creating response
-                  const contextSnippets = snippets.map((s: string, i: number) => 
-                    `קטע ${i + 1}:\n${s}`
-                  ).join('\n\n---\n\n');
+                  const contextSnippets = formatCitedSnippets(results);
+                  pendingCitationsRef.current = results;
                   
                   const enhancedInstructions = `${instructions}
 
@@ -304,7 +371,7 @@ I have pre-searched the documents and found these relevant sections:
 
 ${contextSnippets}
 
-Now answer the user's question based ONLY on the information above. Answer in Hebrew.`;
+Now answer the user's question based ONLY on the information above, citing the ids of the sections you use. Answer in Hebrew.`;
 
                   logger.log('📝 Updating instructions with search results before response');
                   
@@ -355,6 +422,12 @@ Now answer the user's question based ONLY on the information above. Answer in He
       
       client.on('conversation.updated', async ({ item, delta }: ConversationUpdateEvent) => {
         const items = client.conversation.getItems();
+        // The first assistant message after a search answers from its results
+        if (item.type === 'message' && item.role === 'assistant' && pendingCitationsRef.current) {
+          const results = pendingCitationsRef.current;
+          pendingCitationsRef.current = null;
+          setCitations(prev => (prev[item.id] ? prev : { ...prev, [item.id]: results }));
+        }
         if (delta?.audio) {
           wavStreamPlayer.add16BitPCM(delta.audio, item.id);
         }
@@ -411,7 +484,7 @@ Now answer the user's question based ONLY on the information above. Answer in He
       setIsConnected(false);
       setIsConnecting(false);
     }
-  }, [isConnecting, isConnected, performSearch]);
+  }, [isConnecting, isConnected, performSearch, callTool]);
 
   const disconnectConversation = useCallback(async () => {
     if (!clientRef.current || !wavRecorderRef.current || !wavStreamPlayerRef.current) return;
@@ -519,8 +592,8 @@ Now answer the user's question based ONLY on the information above. Answer in He
   );
 
   return (
-    <div className="flex items-center justify-center min-h-screen bg-background">
-      <Card className="w-full max-w-2xl mx-auto">
+    <div className="flex items-center justify-center gap-4 min-h-screen bg-background">
+      <Card className="w-full max-w-2xl">
         <CardContent className="p-6 flex flex-col h-[calc(100vh-4rem)]">
           {/* Error Banner */}
           {error && (
@@ -540,6 +613,14 @@ Now answer the user's question based ONLY on the information above. Answer in He
           <ScrollArea className="flex-grow mb-4 pr-4">
             {displayItems.map((item, index) => {
               const text = item.formatted?.text || item.formatted?.transcript || '';
+              const itemCitations = citations[item.id] ?? [];
+              const byId = new Map(itemCitations.map((c) => [c.citation_id, c]));
+              const parts = splitCitations(text, new Set(byId.keys()));
+              const citedIds = Array.from(new Set(
+                parts.filter((part): part is { citationId: string } => 'citationId' in part).map((part) => part.citationId)
+              ));
+              // Spoken answers name their sources instead of citing ids: list every result
+              const sources = citedIds.length > 0 ? citedIds.map((id) => byId.get(id)!) : itemCitations;
               
               return (
               <div
@@ -549,7 +630,26 @@ Now answer the user's question based ONLY on the information above. Answer in He
                 } max-w-[80%] ${item.role === "user" ? "ml-auto" : "mr-auto"}`}
               >
                 <p className="text-sm font-medium mb-1">{item.role === "user" ? "You" : "AI"}</p>
-                <p>{text}</p>
+                <p>
+                  {parts.map((part, i) => 'citationId' in part ? (
+                    <CitationChip
+                      key={i}
+                      citation={byId.get(part.citationId)!}
+                      index={citedIds.indexOf(part.citationId) + 1}
+                      compact
+                      onOpen={openCitation}
+                    />
+                  ) : (
+                    <span key={i}>{part.text}</span>
+                  ))}
+                </p>
+                {sources.length > 0 && (
+                  <div className="mt-2 flex flex-wrap gap-1">
+                    {sources.map((source, i) => (
+                      <CitationChip key={source.citation_id} citation={source} index={i + 1} onOpen={openCitation} />
+                    ))}
+                  </div>
+                )}
               </div>
               );
             })}
@@ -604,6 +704,9 @@ Now answer the user's question based ONLY on the information above. Answer in He
           </div>
         </CardContent>
       </Card>
+      {viewerTarget && (
+        <DocumentViewer target={viewerTarget} onClose={() => setViewerTarget(null)} />
+      )}
     </div>
   );
 }
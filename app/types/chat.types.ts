@@ -2,6 +2,9 @@
  * Type definitions for chat functionality
  */
 
+import type { SearchFilter } from '@/lib/rag/metadata';
+import type { TextRange } from '@/lib/rag/snippets';
+
 export interface ServerResponseEvent {
   item: {
     type: string;
@@ -14,13 +17,24 @@ export interface ServerResponseEvent {
 
 export interface ToolArguments {
   query: string;
+  filter?: SearchFilter;
+  as_of?: string; // YYYY-MM-DD
 }
 
 export interface SearchResult {
+  citation_id: string;
   text_snippet: string;
+  highlights?: TextRange[]; // offsets into text_snippet
+  full_text?: string;
   source_document: string;
+  source_url?: string;
+  document_id: string;
+  chunk_index: number;
+  start_char: number;
+  end_char: number;
   relevance_score: number;
   page?: number;
+  section?: string;
 }
 
 export interface ToolResult {
@@ -30,9 +44,10 @@ export interface ToolResult {
   formatted_response: string;
 }
 
-export interface ToolCallResponse {
+export interface ToolCallResponse<T = ToolResult> {
   tool_name: string;
-  tool_result: ToolResult;
+  tool_result: T | null;
+  error?: string; // invalid arguments or tool failure, passed on to the model
 }
 
 export interface SearchCache {
@@ -40,6 +55,14 @@ export interface SearchCache {
   timestamp: number;
 }
 
+// Relay mode: a function call the relay server executed
+export interface RelayToolResultEvent {
+  call_id: string;
+  name: string;
+  result: unknown;
+  error?: string;
+}
+
 export interface TranscriptionEvent {
   transcript?: string;
 }
@@ -47,6 +70,8 @@ export interface TranscriptionEvent {
 export interface ConversationUpdateEvent {
   item: {
     id: string;
+    type?: string;
+    role?: string;
     status?: string;
     formatted?: {
       audio?: Uint8Array;
@@ -0,0 +1,43 @@
+import * as React from "react"
+import { FileText } from "lucide-react"
+
+import { cn } from "@/lib/utils"
+import { describeCitation } from "@/lib/rag/citations"
+import type { SearchResult } from "@/app/types/chat.types"
+
+interface CitationChipProps {
+  citation: SearchResult
+  index: number
+  compact?: boolean // number only, for markers inside the answer text
+  onOpen: (citation: SearchResult) => void
+}
+
+/**
+ * Clickable source reference of an answer
+ */
+export function CitationChip({ citation, index, compact, onOpen }: CitationChipProps) {
+  const label = describeCitation(citation)
+
+  return (
+    <button
+      type="button"
+      title={label}
+      onClick={() => onOpen(citation)}
+      className={cn(
+        "inline-flex items-center gap-1 rounded-full border border-blue-200 bg-blue-50 text-blue-700 transition-colors hover:bg-blue-100",
+        compact ? "mx-0.5 px-1.5 align-super text-[10px] leading-4" : "max-w-full px-2 py-0.5 text-xs"
+      )}
+    >
+      {compact ? (
+        index
+      ) : (
+        <>
+          <FileText className="h-3 w-3 shrink-0" />
+          <span className="truncate" dir="auto">
+            {index}. {label}
+          </span>
+        </>
+      )}
+    </button>
+  )
+}
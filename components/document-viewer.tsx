@@ -0,0 +1,129 @@
+import * as React from "react"
+import { ExternalLink, Loader2, X } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { citationUrl } from "@/lib/rag/citations"
+import type { DocumentView } from "@/lib/rag/document-viewer"
+
+/**
+ * Passage to show: a chunk's character range in the document text
+ */
+export interface ViewerTarget {
+  documentId: string
+  startChar: number
+  endChar: number
+  page?: number
+}
+
+interface DocumentViewerProps {
+  target: ViewerTarget
+  onClose: () => void
+}
+
+/**
+ * Full text of a document with the target passage highlighted and scrolled into view
+ * Each line takes its direction from its own text, so Hebrew and English lines
+ * in one document both read correctly
+ */
+export function DocumentViewer({ target, onClose }: DocumentViewerProps) {
+  const [view, setView] = React.useState<DocumentView | null>(null)
+  const [error, setError] = React.useState<string | null>(null)
+  const viewsRef = React.useRef<Map<string, DocumentView>>(new Map())
+  const passageRef = React.useRef<HTMLElement>(null)
+
+  // Load each document once
+  React.useEffect(() => {
+    const cached = viewsRef.current.get(target.documentId)
+    setError(null)
+    if (cached) {
+      setView(cached)
+      return
+    }
+
+    let cancelled = false
+    setView(null)
+    fetch(`/api/rag/documents/${encodeURIComponent(target.documentId)}`)
+      .then(async (response) => {
+        const body = await response.json()
+        if (!response.ok || !body.success) {
+          throw new Error(body.error || `Loading document failed with status: ${response.status}`)
+        }
+        return body.document as DocumentView
+      })
+      .then((document) => {
+        viewsRef.current.set(document.id, document)
+        if (!cancelled) setView(document)
+      })
+      .catch((e) => {
+        if (!cancelled) setError(e instanceof Error ? e.message : "Failed to load document")
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [target.documentId])
+
+  React.useEffect(() => {
+    passageRef.current?.scrollIntoView({ behavior: "smooth", block: "center" })
+  }, [view, target])
+
+  const shown = view?.id === target.documentId ? view : null
+  const start = shown ? Math.max(0, Math.min(target.startChar, shown.text.length)) : 0
+  const end = shown ? Math.max(start, Math.min(target.endChar, shown.text.length)) : 0
+  const pdfUrl = shown?.format === "pdf" ? citationUrl(shown.source_url, target.page) : undefined
+
+  return (
+    <Card className="w-full max-w-xl">
+      <CardContent className="p-6 flex flex-col h-[calc(100vh-4rem)]">
+        <div className="mb-4 flex items-center gap-2">
+          <p className="flex-grow truncate text-sm font-medium" dir="auto">
+            {shown?.filename ?? target.documentId}
+            {target.page ? ` · p. ${target.page}` : ""}
+          </p>
+          {pdfUrl && (
+            <Button variant="outline" size="sm" asChild>
+              <a href={pdfUrl} target="_blank" rel="noopener noreferrer">
+                <ExternalLink />
+                PDF
+              </a>
+            </Button>
+          )}
+          <Button variant="ghost" size="icon" onClick={onClose} aria-label="Close document">
+            <X />
+          </Button>
+        </div>
+
+        {error && (
+          <div className="p-3 bg-destructive/10 border border-destructive rounded-lg text-destructive text-sm">
+            {error}
+          </div>
+        )}
+
+        {!shown && !error && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            <span>טוען מסמך...</span>
+          </div>
+        )}
+
+        {shown && (
+          <ScrollArea className="flex-grow pr-4">
+            <div
+              dir={shown.direction}
+              className="whitespace-pre-wrap text-start text-sm leading-relaxed"
+              style={{ unicodeBidi: "plaintext" }}
+            >
+              {shown.text.slice(0, start)}
+              <mark ref={passageRef} className="rounded bg-yellow-200 px-0.5">
+                {shown.text.slice(start, end)}
+              </mark>
+              {shown.text.slice(end)}
+            </div>
+          </ScrollArea>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,5 +1,10 @@
+import { splitSentences, trimSpan, TextSpan } from './sentence-splitter';
+import { estimateTokens, TokenCounter } from './tokenizer';
+import { DocumentMetadata } from './metadata';
+
 /**
  * Text chunk with metadata for semantic retrieval
+ * content is exactly the document text from startChar to endChar
  */
 export interface Chunk {
   id: string;
@@ -10,8 +15,50 @@ export interface Chunk {
   startPage?: number;
   startChar: number;
   endChar: number;
+  sectionPath?: string; // section numbers or heading titles, e.g. "6 > 6.2" (structure strategy)
+  breadcrumb?: string; // heading titles, e.g. "סעיף 6: חופשות > 6.2 ימי מחלה"
+  metadata?: DocumentMetadata; // copied from the document
+}
+
+/**
+ * Text used for indexing: the heading breadcrumb followed by the chunk content
+ * Keeps continuation chunks of a section findable by its heading
+ */
+export function getIndexedText(chunk: Chunk): string {
+  return chunk.breadcrumb ? `${chunk.breadcrumb}\n${chunk.content}` : chunk.content;
 }
 
+/**
+ * Heading marker emitted by the DOCX/HTML/Markdown loaders ("## Title")
+ */
+const HEADING_MARKER = /^#{1,6} \S/;
+
+// "סעיף 6.2: ימי מחלה", "Section 3 - Benefits", "פרק 2", "Article 4.1"
+const KEYWORD_HEADING = /^(?:סעיף|פרק|חלק|נספח|section|chapter|article|part|clause|appendix)\s+(\d+(?:\.\d+)*)(?=[\s:.)\-–—]|$)/i;
+
+// "6.2 ימי מחלה", "6.2. Employees are entitled to ..."
+const NUMBERED_CLAUSE = /^(\d+(?:\.\d+)+)\.?\s+\S/;
+
+// Breadcrumb titles of long numbered clauses are cut to this length
+const MAX_TITLE_LENGTH = 60;
+
+// Sections smaller than this share of chunkSize are merged with following sibling or child sections
+const MIN_SECTION_SHARE = 0.2;
+
+/**
+ * Chunking strategy
+ * - paragraph: pack blank-line separated paragraphs up to chunkSize
+ * - structure: one chunk per heading / numbered clause, split only when too long
+ */
+export type ChunkingStrategy = 'paragraph' | 'structure';
+
+/**
+ * Unit of chunkSize and overlapSize
+ * - characters: string length
+ * - tokens: model tokens, counted with countTokens (default: estimateTokens)
+ */
+export type ChunkSizeUnit = 'characters' | 'tokens';
+
 /**
  * Configuration for chunking
  */
@@ -19,6 +66,32 @@ export interface ChunkingConfig {
   chunkSize?: number;
   overlapSize?: number;
   splitOnSentences?: boolean;
+  strategy?: ChunkingStrategy;
+  sizeUnit?: ChunkSizeUnit;
+  countTokens?: TokenCounter; // tokens unit only
+}
+
+/**
+ * Heading detected by the structure strategy
+ */
+interface Heading {
+  level: number;
+  key: string; // section number, or the title of unnumbered headings
+  title: string;
+}
+
+/**
+ * Heading with the text up to the next heading
+ */
+interface Section extends TextSpan {
+  path: Heading[]; // enclosing headings, outermost first, ending with this section's own
+}
+
+/**
+ * Chunk boundaries before chunk metadata is attached
+ */
+interface ChunkSpan extends TextSpan {
+  path?: Heading[];
 }
 
 /**
@@ -26,18 +99,34 @@ export interface ChunkingConfig {
  * 
  * Strategy:
  * 1. Split on paragraphs first (preserve semantic boundaries)
- * 2. If paragraph too large, split on sentences
- * 3. Apply overlap to preserve context
+ * 2. If paragraph too large, split on sentences (then on words)
+ * 3. Overlap with the previous chunk's last whole sentences, up to overlapSize
+ * 4. Start a new chunk at each heading marker
+ *
+ * The structure strategy instead follows headings and numbered clauses
+ * ("סעיף 6", "Section 6", "6.2"), keeps each clause in one chunk where it
+ * fits, and records its section path and heading breadcrumb on the chunk.
+ *
+ * Sizes are measured in characters or in model tokens (sizeUnit). Chunks are
+ * spans of the original text, so startChar/endChar locate them exactly.
  */
 export class SemanticChunker {
   private chunkSize: number;
   private overlapSize: number;
   private splitOnSentences: boolean;
+  private strategy: ChunkingStrategy;
+  private sizeUnit: ChunkSizeUnit;
+  private measure: TokenCounter;
 
   constructor(config?: ChunkingConfig) {
-    this.chunkSize = config?.chunkSize || 1000; // characters per chunk
-    this.overlapSize = config?.overlapSize || 200; // overlap between chunks
+    this.chunkSize = config?.chunkSize || 1000; // characters (or tokens) per chunk
+    this.overlapSize = config?.overlapSize ?? 200; // overlap between chunks
     this.splitOnSentences = config?.splitOnSentences !== false; // default true
+    this.strategy = config?.strategy || 'paragraph';
+    this.sizeUnit = config?.sizeUnit || 'characters';
+    this.measure = this.sizeUnit === 'tokens'
+      ? config?.countTokens || estimateTokens
+      : (text: string) => text.length;
   }
 
   /**
@@ -46,144 +135,328 @@ export class SemanticChunker {
   chunkDocument(
     documentId: string,
     documentName: string,
-    text: string
+    text: string,
+    metadata?: DocumentMetadata
   ): Chunk[] {
     console.log(`\n✂️  [Chunker] Chunking document: ${documentName} (${text.length} chars)`);
-    
-    const chunks: Chunk[] = [];
-    let currentChar = 0;
 
-    // First pass: split by paragraphs
-    const paragraphs = this.splitIntoParagraphs(text);
-    console.log(`✂️  [Chunker] Split "${documentName}" into ${paragraphs.length} paragraphs`);
+    const spans = this.strategy === 'structure' ? this.chunkByStructure(text) : this.chunkByParagraphs(text);
+    const pageAt = this.createPageLocator(text);
 
-    let currentChunkContent = '';
-    let currentChunkStart = 0;
-    let chunkIndex = 0;
-    let pageNumber = 1;
+    const chunks = spans.map((span, chunkIndex): Chunk => {
+      const chunk: Chunk = {
+        id: `${documentId}_chunk_${chunkIndex}`,
+        content: text.slice(span.start, span.end),
+        documentId,
+        documentName,
+        chunkIndex,
+        startPage: pageAt(span.start),
+        startChar: span.start,
+        endChar: span.end,
+        metadata,
+      };
+      if (span.path && span.path.length > 0) {
+        chunk.sectionPath = span.path.map(heading => heading.key).join(' > ');
+        chunk.breadcrumb = span.path.map(heading => heading.title).join(' > ');
+      }
+      console.log(
+        `  [Chunk ${chunkIndex}] ${this.measure(chunk.content)} ${this.sizeUnit === 'tokens' ? 'tokens' : 'chars'}` +
+        `${chunk.sectionPath ? ` [${chunk.sectionPath}]` : ''} - "${chunk.content.substring(0, 60).replace(/\n/g, ' ')}..."`
+      );
+      return chunk;
+    });
+
+    console.log(`✅ [Chunker] Created ${chunks.length} chunks from "${documentName}"\n`);
+    return chunks;
+  }
+
+  /**
+   * Paragraph strategy: pack paragraphs up to chunkSize, with overlap
+   * Headings start a new chunk (without overlap), unless the chunk so far holds only headings
+   */
+  private chunkByParagraphs(text: string): ChunkSpan[] {
+    const paragraphs = this.splitIntoParagraphs(text, { start: 0, end: text.length });
+    console.log(`[Chunker] Split into ${paragraphs.length} paragraphs`);
+
+    const spans: ChunkSpan[] = [];
+    let run: TextSpan[] = [];
 
     for (const paragraph of paragraphs) {
-      // Track page numbers from markers like [Page N]
-      const pageMatch = paragraph.match(/\[Page (\d+)\]/);
-      if (pageMatch) {
-        pageNumber = parseInt(pageMatch[1], 10);
+      const startsSection = HEADING_MARKER.test(text.slice(paragraph.start, paragraph.end)) &&
+        run.some(unit => this.hasBodyText(text.slice(unit.start, unit.end)));
+
+      if (startsSection) {
+        spans.push(...this.packParagraphs(text, run));
+        run = [];
       }
+      run.push(paragraph);
+    }
+    spans.push(...this.packParagraphs(text, run));
+
+    return spans;
+  }
+
+  /**
+   * Structure strategy: one chunk per section, short sections merged with the
+   * next sibling or child, long sections packed like paragraphs
+   */
+  private chunkByStructure(text: string): ChunkSpan[] {
+    const sections = this.splitIntoSections(text).filter(section => this.hasSectionBody(text, section));
+    console.log(`[Chunker] Found ${sections.length} sections`);
 
-      // If adding this paragraph exceeds chunk size, flush current chunk
-      if (
-        currentChunkContent.length > 0 &&
-        currentChunkContent.length + paragraph.length > this.chunkSize
-      ) {
-        // Save current chunk
-        const chunk = {
-          id: `${documentId}_chunk_${chunkIndex}`,
-          content: currentChunkContent.trim(),
-          documentId,
-          documentName,
-          chunkIndex,
-          startPage: pageNumber,
-          startChar: currentChunkStart,
-          endChar: currentChar,
-        };
-        chunks.push(chunk);
-        console.log(`  [Chunk ${chunkIndex}] ${chunk.content.length} chars - "${chunk.content.substring(0, 60).replace(/\n/g, ' ')}..."`);
-
-        // Start new chunk with overlap
-        const overlapContent = currentChunkContent.slice(-this.overlapSize);
-        currentChunkContent = overlapContent + '\n\n' + paragraph;
-        currentChunkStart = Math.max(0, currentChar - this.overlapSize);
-        chunkIndex++;
+    // Merge small sections forward into siblings and children under the same heading
+    const minSectionSize = this.chunkSize * MIN_SECTION_SHARE;
+    const groups: Section[][] = [];
+    for (const section of sections) {
+      const group = groups[groups.length - 1];
+      const related = group &&
+        this.commonPath(group[0].path, section.path).length >= Math.max(1, group[0].path.length - 1);
+      const groupSize = group ? this.measure(text.slice(group[0].start, group[group.length - 1].end)) : 0;
+      const mergedSize = group ? this.measure(text.slice(group[0].start, section.end)) : 0;
+
+      if (group && related && groupSize < minSectionSize && mergedSize <= this.chunkSize) {
+        group.push(section);
       } else {
-        currentChunkContent += (currentChunkContent.length > 0 ? '\n\n' : '') + paragraph;
+        groups.push([section]);
+      }
+    }
+
+    return groups.flatMap(group => {
+      const last = group[group.length - 1];
+      const span = trimSpan(text, { start: group[0].start, end: last.end });
+      const path = group.length === 1 ? group[0].path : this.commonPath(group[0].path, last.path);
+
+      const spans = this.measure(text.slice(span.start, span.end)) <= this.chunkSize
+        ? [span]
+        : this.packParagraphs(text, this.splitIntoParagraphs(text, span));
+      return spans.map(chunkSpan => ({ ...chunkSpan, path }));
+    });
+  }
+
+  /**
+   * Split text at headings into sections; text before the first heading has an empty path
+   */
+  private splitIntoSections(text: string): Section[] {
+    const sections: Section[] = [];
+    const stack: Heading[] = [];
+    let current: Section = { path: [], start: 0, end: 0 };
+    let offset = 0;
+
+    for (const line of text.split('\n')) {
+      const heading = this.detectHeading(line, stack);
+      if (heading) {
+        sections.push({ ...current, end: offset });
+        while (stack.length > 0 && stack[stack.length - 1].level >= heading.level) {
+          stack.pop();
+        }
+        stack.push(heading);
+        current = { path: stack.slice(), start: offset, end: offset };
       }
+      offset += line.length + 1;
+    }
+    sections.push({ ...current, end: text.length });
+
+    return sections.filter(section => text.slice(section.start, section.end).trim().length > 0);
+  }
+
+  /**
+   * Recognize markdown headings, keyword headings ("סעיף 6", "Section 6") and numbered clauses ("6.2")
+   * A numbered clause must belong to an open numbered section, or the one after it,
+   * so body lines such as "2.5 days per month" are not taken for clauses
+   */
+  private detectHeading(line: string, stack: Heading[]): Heading | null {
+    const trimmed = line.trim();
+    const marker = trimmed.match(/^(#{1,6}) (\S.*)$/);
+    const title = marker ? marker[2].trim() : trimmed;
+
+    const keyword = title.match(KEYWORD_HEADING);
+    const clause = keyword ? null : title.match(NUMBERED_CLAUSE);
+    const number = keyword?.[1] ?? clause?.[1];
 
-      currentChar += paragraph.length + 2; // +2 for newlines
+    if (clause && !marker) {
+      const top = parseInt(clause[1], 10);
+      const openSections = stack.filter(heading => /^\d/.test(heading.key)).map(heading => parseInt(heading.key, 10));
+      if (openSections.length > 0 && !openSections.some(open => top === open || top === open + 1)) {
+        return null;
+      }
     }
 
-    // Add final chunk
-    if (currentChunkContent.trim().length > 0) {
-      const chunk = {
-        id: `${documentId}_chunk_${chunkIndex}`,
-        content: currentChunkContent.trim(),
-        documentId,
-        documentName,
-        chunkIndex,
-        startPage: pageNumber,
-        startChar: currentChunkStart,
-        endChar: currentChar,
-      };
-      chunks.push(chunk);
-      console.log(`  [Chunk ${chunkIndex}] ${chunk.content.length} chars - "${chunk.content.substring(0, 60).replace(/\n/g, ' ')}..."`);
+    if (!number && !marker) {
+      return null;
     }
 
-    console.log(`✅ [Chunker] Created ${chunks.length} chunks from "${documentName}"\n`);
-    return chunks;
+    return {
+      level: marker ? marker[1].length : number!.split('.').length,
+      key: number ?? title,
+      title: title.length > MAX_TITLE_LENGTH ? `${title.slice(0, MAX_TITLE_LENGTH).trimEnd()}…` : title,
+    };
+  }
+
+  /**
+   * Check whether a section has text besides its heading line
+   */
+  private hasSectionBody(text: string, section: Section): boolean {
+    const lines = text.slice(section.start, section.end).split('\n').filter(line => line.trim().length > 0);
+    if (section.path.length === 0) {
+      return lines.length > 0;
+    }
+    // A numbered clause carries its text on the heading line
+    const own = section.path[section.path.length - 1];
+    return lines.length > 1 || NUMBERED_CLAUSE.test(own.title);
+  }
+
+  /**
+   * Longest shared prefix of two heading paths
+   */
+  private commonPath(a: Heading[], b: Heading[]): Heading[] {
+    let length = 0;
+    while (length < a.length && length < b.length && a[length] === b[length]) {
+      length++;
+    }
+    return a.slice(0, length);
+  }
+
+  /**
+   * Check whether chunk content has text besides heading markers
+   */
+  private hasBodyText(content: string): boolean {
+    return content.split('\n').some(line => line.trim().length > 0 && !HEADING_MARKER.test(line));
   }
 
   /**
-   * Split text into paragraphs (preserve semantic units)
-   * Handles multiple newlines and page markers
+   * Split a span into paragraphs at blank lines (Hebrew friendly, no punctuation needed)
    */
-  private splitIntoParagraphs(text: string): string[] {
-    // Remove multiple consecutive newlines, but preserve section breaks
-    const normalized = text
-      .split(/\n\n+/g) // Split on 2+ newlines (Hebrew friendly)
-      .map(para => para.trim())
-      .filter(para => para.length > 0);
-
-    console.log(`[Chunker] Split into ${normalized.length} paragraphs`);
-
-    // Further split very long paragraphs on sentences if needed
-    if (this.splitOnSentences) {
-      return normalized.flatMap(para => this.splitLongParagraphsOnSentences(para));
+  private splitIntoParagraphs(text: string, span: TextSpan): TextSpan[] {
+    const paragraphs: TextSpan[] = [];
+    const separator = /\n[ \t]*\n\s*/g;
+    separator.lastIndex = span.start;
+
+    let start = span.start;
+    let match: RegExpExecArray | null;
+    while ((match = separator.exec(text)) !== null && match.index < span.end) {
+      paragraphs.push(trimSpan(text, { start, end: match.index }));
+      start = match.index + match[0].length;
     }
+    paragraphs.push(trimSpan(text, { start, end: span.end }));
 
-    return normalized;
+    return paragraphs.filter(paragraph => paragraph.end > paragraph.start);
   }
 
   /**
-   * Split long paragraphs into sentences if they exceed chunk size
+   * Pack paragraphs into chunks of at most chunkSize
+   * Oversized paragraphs are split on sentences (then on words); each chunk after
+   * the first starts with the last whole sentences of the previous one that fit overlapSize
    */
-  private splitLongParagraphsOnSentences(text: string): string[] {
-    // If paragraph is small enough, return as-is
-    if (text.length <= this.chunkSize) {
-      return [text];
+  private packParagraphs(text: string, paragraphs: TextSpan[]): TextSpan[] {
+    const units = paragraphs.flatMap(paragraph => this.splitOversized(text, paragraph));
+    const spans: TextSpan[] = [];
+    let current: TextSpan | null = null;
+
+    for (const unit of units) {
+      if (!current) {
+        current = { ...unit };
+      } else if (this.measure(text.slice(current.start, unit.end)) > this.chunkSize) {
+        spans.push(current);
+        const budget = Math.min(this.overlapSize, this.chunkSize - this.measure(text.slice(unit.start, unit.end)));
+        current = { start: this.overlapStart(text, current, budget) ?? unit.start, end: unit.end };
+      } else {
+        current = { start: current.start, end: unit.end };
+      }
     }
+    if (current) {
+      spans.push(current);
+    }
+
+    return spans;
+  }
+
+  /**
+   * Split a unit larger than chunkSize into sentences, and sentences into word runs
+   */
+  private splitOversized(text: string, span: TextSpan): TextSpan[] {
+    if (!this.splitOnSentences || this.measure(text.slice(span.start, span.end)) <= this.chunkSize) {
+      return [span];
+    }
+
+    return splitSentences(text, span).flatMap(sentence =>
+      this.measure(text.slice(sentence.start, sentence.end)) <= this.chunkSize ? [sentence] : this.splitOnWords(text, sentence)
+    );
+  }
+
+  /**
+   * Split a span at whitespace into runs of at most chunkSize
+   */
+  private splitOnWords(text: string, span: TextSpan): TextSpan[] {
+    const runs: TextSpan[] = [];
+    const word = /\S+/g;
+    word.lastIndex = span.start;
 
-    // Split on sentence boundaries: period, question mark, exclamation
-    // but be careful with abbreviations
-    const sentences = text.match(/[^.!?]*[.!?]+/g) || [text];
-
-    // Combine sentences into chunks of appropriate size
-    const chunks: string[] = [];
-    let currentChunk = '';
-
-    for (const sentence of sentences) {
-      if (
-        currentChunk.length > 0 &&
-        currentChunk.length + sentence.length > this.chunkSize
-      ) {
-        chunks.push(currentChunk.trim());
-        currentChunk = sentence;
+    let current: TextSpan | null = null;
+    let match: RegExpExecArray | null;
+    while ((match = word.exec(text)) !== null && match.index < span.end) {
+      const end = Math.min(match.index + match[0].length, span.end);
+      if (!current) {
+        current = { start: match.index, end };
+      } else if (this.measure(text.slice(current.start, end)) > this.chunkSize) {
+        runs.push(current);
+        current = { start: match.index, end };
       } else {
-        currentChunk += sentence;
+        current = { start: current.start, end };
       }
     }
+    if (current) {
+      runs.push(current);
+    }
+
+    return runs;
+  }
 
-    if (currentChunk.trim().length > 0) {
-      chunks.push(currentChunk.trim());
+  /**
+   * Start offset of the trailing sentences of a chunk that fit the overlap budget
+   * Returns null when not even the last sentence fits, or it is the whole chunk
+   */
+  private overlapStart(text: string, chunk: TextSpan, budget: number): number | null {
+    if (budget <= 0) {
+      return null;
     }
 
-    return chunks;
+    const sentences = splitSentences(text, chunk);
+    let start: number | null = null;
+    for (let i = sentences.length - 1; i > 0; i--) {
+      if (this.measure(text.slice(sentences[i].start, chunk.end)) > budget) {
+        break;
+      }
+      start = sentences[i].start;
+    }
+    return start;
+  }
+
+  /**
+   * Map a character offset to the page of the last [Page N] marker before it
+   */
+  private createPageLocator(text: string): (offset: number) => number {
+    const markers = Array.from(text.matchAll(/\[Page (\d+)\]/g)).map(match => ({
+      offset: match.index ?? 0,
+      page: parseInt(match[1], 10),
+    }));
+
+    return (offset: number) => {
+      let page = 1;
+      for (const marker of markers) {
+        if (marker.offset > offset) break;
+        page = marker.page;
+      }
+      return page;
+    };
   }
 
   /**
    * Chunk multiple documents at once
    */
   chunkDocuments(
-    documents: Array<{ id: string; filename: string; text: string }>
+    documents: Array<{ id: string; filename: string; text: string; metadata?: DocumentMetadata }>
   ): Chunk[] {
-    return documents.flatMap(doc => this.chunkDocument(doc.id, doc.filename, doc.text));
+    return documents.flatMap(doc => this.chunkDocument(doc.id, doc.filename, doc.text, doc.metadata));
   }
 }
 
@@ -191,7 +464,7 @@ export class SemanticChunker {
  * Helper function for convenient chunking
  */
 export function chunkDocuments(
-  documents: Array<{ id: string; filename: string; text: string }>,
+  documents: Array<{ id: string; filename: string; text: string; metadata?: DocumentMetadata }>,
   config?: ChunkingConfig
 ): Chunk[] {
   const chunker = new SemanticChunker(config);
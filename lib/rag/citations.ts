@@ -0,0 +1,118 @@
+/**
+ * Citations for search results
+ *
+ * Every search result carries a short citation id derived from its chunk, so
+ * the same passage keeps the same id across searches. Tool output labels each
+ * snippet with its id, the model cites ids in brackets ("[S4k2x]"), and the chat
+ * UI turns the brackets into chips that open the source.
+ *
+ * No server-only imports, so the helpers can be used by the client too.
+ */
+
+/**
+ * Search result fields needed to cite it
+ */
+export interface CitableResult {
+  citation_id: string;
+  source_document: string;
+  text_snippet: string;
+  page?: number;
+  section?: string;
+  source_url?: string;
+  document_id?: string; // with chunk_index, where read_section continues
+  chunk_index?: number;
+}
+
+/**
+ * Part of an answer: plain text or a citation marker
+ */
+export type CitedTextPart = { text: string } | { citationId: string };
+
+/**
+ * Citation rules for the model, shared by the browser and server session prompts
+ */
+export const CITATION_INSTRUCTIONS = `CITATIONS:
+- Every search result and read_section passage is labelled with its citation id in square brackets,
+  with its document, page and section (e.g., "[S4k2x] handbook.pdf, עמוד 3, סעיף 6: חופשות")
+- In written answers, put the citation id right after the fact it supports (e.g., "20 ימי חופשה בשנה [S4k2x]")
+- In spoken answers, NEVER read citation ids aloud - name the document and section instead
+  (e.g., "לפי סעיף 6 במדריך העובד, בעמוד 3...")
+- Only cite ids that appear in the tool output`;
+
+// "[S4k2x]", also "[S4k2x, S9a0b]"
+const CITATION_MARKER = /\[(S[0-9a-z]{5}(?:\s*,\s*S[0-9a-z]{5})*)\]/g;
+
+/**
+ * Stable citation id of a chunk, e.g. "doc_handbook.pdf_chunk_3" → "S4k2x"
+ */
+export function createCitationId(chunkId: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < chunkId.length; i++) {
+    hash = Math.imul(hash ^ chunkId.charCodeAt(i), 0x01000193);
+  }
+  return `S${((hash >>> 0) % 60466176).toString(36).padStart(5, '0')}`; // 36^5
+}
+
+/**
+ * Link to the cited source: the document, at the cited page for PDFs
+ */
+export function citationUrl(sourceUrl: string | undefined, page?: number): string | undefined {
+  if (!sourceUrl) {
+    return undefined;
+  }
+  return page && /\.pdf$/i.test(sourceUrl) ? `${sourceUrl}#page=${page}` : sourceUrl;
+}
+
+/**
+ * Short label for a citation chip, e.g. "handbook.pdf · p. 3 · Section 6"
+ */
+export function describeCitation(result: Pick<CitableResult, 'source_document' | 'page' | 'section'>): string {
+  const section = result.section?.split(' > ').pop();
+  return [result.source_document, result.page ? `p. ${result.page}` : '', section ?? '']
+    .filter(Boolean)
+    .join(' · ');
+}
+
+/**
+ * Snippets labelled with their citation, as sent to the model in tool output
+ */
+export function formatCitedSnippets(results: CitableResult[]): string {
+  return results
+    .map(result => {
+      const source = [result.source_document, result.page ? `עמוד ${result.page}` : '', result.section ?? '']
+        .filter(Boolean)
+        .join(', ');
+      const location =
+        result.document_id && result.chunk_index !== undefined
+          ? `\nDocument: ${result.document_id}, chunk ${result.chunk_index}`
+          : '';
+      return `[${result.citation_id}] ${source}${location}\n${result.text_snippet}`;
+    })
+    .join('\n\n---\n\n');
+}
+
+/**
+ * Split an answer into text and the citation markers it contains
+ * Only ids in knownIds become citations; other brackets stay text
+ */
+export function splitCitations(text: string, knownIds: Set<string>): CitedTextPart[] {
+  const parts: CitedTextPart[] = [];
+  const pattern = new RegExp(CITATION_MARKER.source, 'g');
+  let last = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    const ids = match[1].split(',').map(id => id.trim());
+    if (!ids.every(id => knownIds.has(id))) continue;
+
+    const before = text.slice(last, match.index).replace(/\s+$/, ' ');
+    if (before) parts.push({ text: before });
+    ids.forEach(citationId => parts.push({ citationId }));
+    last = match.index + match[0].length;
+  }
+
+  if (last < text.length) {
+    parts.push({ text: text.slice(last) });
+  }
+  return parts;
+}
@@ -0,0 +1,437 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ChunkingStrategy, ChunkSizeUnit } from './chunker';
+import { EmbedderConfig } from './embeddings';
+import { RerankerConfig } from './rerankers';
+
+/**
+ * RAG configuration
+ *
+ * Resolved once when the RAGManager is created:
+ * 1. Built-in defaults (below)
+ * 2. rag.config.json in the project root (or RAG_CONFIG_PATH), partial values allowed
+ * 3. Environment variable overrides (see ENV_OVERRIDES)
+ *
+ * The result is validated as a whole; all problems are reported in one error.
+ */
+
+/**
+ * Retrieval strategy used by search()
+ * - bm25: keyword search over the inverted index
+ * - vector: cosine similarity of embeddings (BM25 index is still built)
+ * - hybrid: BM25, fuzzy n-gram and vector rankers fused by reciprocal rank
+ */
+export type RetrievalMode = 'bm25' | 'vector' | 'hybrid';
+
+export interface RAGConfig {
+  loader: {
+    documentsDir: string;
+    maxFileSize: number; // bytes
+    mockFallback: boolean; // serve sample HR documents when no document loads (demos only)
+  };
+  chunker: {
+    chunkSize: number; // in sizeUnit
+    overlapSize: number; // in sizeUnit, whole sentences only
+    splitOnSentences: boolean;
+    strategy: ChunkingStrategy;
+    sizeUnit: ChunkSizeUnit; // tokens are estimated (see tokenizer.ts)
+  };
+  retriever: {
+    mode: RetrievalMode;
+    topK: number;
+    minChunkLength: number;
+    relevanceThreshold: {
+      bm25: number; // raw BM25 score (exact phrase match scores 10)
+      vector: number; // cosine similarity
+      fuzzy: number; // share of weighted query trigrams
+    };
+    fusion: {
+      candidatesPerRanker: number;
+      rrfK: number;
+      rerankTopN: number;
+    };
+    diversity: {
+      enabled: boolean; // fold near-duplicates and pick results by maximal marginal relevance
+      duplicateThreshold: number; // estimated shingle Jaccard similarity of near-duplicates
+      mmrLambda: number; // 1 = relevance only, lower = more distinct passages
+    };
+  };
+  embedder: EmbedderConfig;
+  reranker: RerankerConfig | null;
+  snapshot: {
+    path: string;
+  };
+  tools: {
+    maxResults: number; // results returned by search_pdfs
+    maxSnippetLength: number; // characters per result, 0 = whole chunk
+    snippetBudget: number; // characters across all results, 0 = no limit
+    includeFullText: boolean; // whole chunk next to the snippet in search_pdfs results
+    includeRanking: boolean; // fused/component scores in search_pdfs results
+    maxReadChunks: number; // chunks returned by one read_section call
+  };
+}
+
+/**
+ * Resolved configuration plus where it came from
+ */
+export interface LoadedRAGConfig {
+  config: RAGConfig;
+  configFile: string | null;
+  envOverrides: string[];
+}
+
+const RETRIEVAL_MODES: RetrievalMode[] = ['bm25', 'vector', 'hybrid'];
+const CHUNKING_STRATEGIES: ChunkingStrategy[] = ['paragraph', 'structure'];
+const CHUNK_SIZE_UNITS: ChunkSizeUnit[] = ['characters', 'tokens'];
+const EMBEDDER_BACKENDS = ['http', 'lexical', 'local'];
+const RERANKER_BACKENDS = ['http', 'heuristic'];
+const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+export function getDefaultRAGConfig(): RAGConfig {
+  return {
+    loader: {
+      documentsDir: path.join(process.cwd(), 'public', 'documents'),
+      maxFileSize: 50 * 1024 * 1024,
+      mockFallback: false,
+    },
+    chunker: {
+      chunkSize: 1000,
+      overlapSize: 200,
+      splitOnSentences: true,
+      strategy: 'structure',
+      sizeUnit: 'characters',
+    },
+    retriever: {
+      mode: 'bm25',
+      topK: 5,
+      minChunkLength: 50,
+      relevanceThreshold: {
+        bm25: 0.1,
+        vector: 0.1,
+        fuzzy: 0.35,
+      },
+      fusion: {
+        candidatesPerRanker: 20,
+        rrfK: 60,
+        rerankTopN: 10,
+      },
+      diversity: {
+        enabled: true,
+        duplicateThreshold: 0.8,
+        mmrLambda: 0.7,
+      },
+    },
+    embedder: {
+      backend: 'lexical',
+    },
+    reranker: null,
+    snapshot: {
+      path: path.join(process.cwd(), '.rag-cache', 'index-snapshot.json'),
+    },
+    tools: {
+      maxResults: 5,
+      maxSnippetLength: 400,
+      snippetBudget: 1600,
+      includeFullText: false,
+      includeRanking: true,
+      maxReadChunks: 6,
+    },
+  };
+}
+
+type EnvValueType = 'string' | 'number' | 'boolean';
+
+/**
+ * Environment variables and the config path they override
+ */
+const ENV_OVERRIDES: Array<{ env: string; path: string; type: EnvValueType }> = [
+  { env: 'RAG_DOCUMENTS_DIR', path: 'loader.documentsDir', type: 'string' },
+  { env: 'RAG_MAX_FILE_SIZE', path: 'loader.maxFileSize', type: 'number' },
+  { env: 'RAG_MOCK_DOCUMENTS', path: 'loader.mockFallback', type: 'boolean' },
+  { env: 'RAG_CHUNK_SIZE', path: 'chunker.chunkSize', type: 'number' },
+  { env: 'RAG_CHUNK_OVERLAP', path: 'chunker.overlapSize', type: 'number' },
+  { env: 'RAG_CHUNK_STRATEGY', path: 'chunker.strategy', type: 'string' },
+  { env: 'RAG_CHUNK_UNIT', path: 'chunker.sizeUnit', type: 'string' },
+  { env: 'RAG_RETRIEVAL', path: 'retriever.mode', type: 'string' },
+  { env: 'RAG_TOP_K', path: 'retriever.topK', type: 'number' },
+  { env: 'RAG_RELEVANCE_THRESHOLD', path: 'retriever.relevanceThreshold.bm25', type: 'number' },
+  { env: 'RAG_DIVERSITY', path: 'retriever.diversity.enabled', type: 'boolean' },
+  { env: 'RAG_DUPLICATE_THRESHOLD', path: 'retriever.diversity.duplicateThreshold', type: 'number' },
+  { env: 'RAG_MMR_LAMBDA', path: 'retriever.diversity.mmrLambda', type: 'number' },
+  { env: 'RAG_EMBEDDER', path: 'embedder.backend', type: 'string' },
+  { env: 'RAG_EMBEDDING_BASE_URL', path: 'embedder.baseUrl', type: 'string' },
+  { env: 'RAG_EMBEDDING_MODEL', path: 'embedder.model', type: 'string' },
+  { env: 'RAG_EMBEDDING_API_KEY', path: 'embedder.apiKey', type: 'string' },
+  { env: 'RAG_EMBEDDING_DIMENSIONS', path: 'embedder.dimensions', type: 'number' },
+  { env: 'RAG_RERANKER', path: 'reranker.backend', type: 'string' },
+  { env: 'RAG_RERANKER_BASE_URL', path: 'reranker.baseUrl', type: 'string' },
+  { env: 'RAG_RERANKER_MODEL', path: 'reranker.model', type: 'string' },
+  { env: 'RAG_RERANKER_API_KEY', path: 'reranker.apiKey', type: 'string' },
+  { env: 'RAG_SNAPSHOT_PATH', path: 'snapshot.path', type: 'string' },
+];
+
+type ConfigObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is ConfigObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Deep-merge a partial config over a base; arrays and scalars replace
+ */
+function mergeConfig(base: ConfigObject, override: ConfigObject): ConfigObject {
+  const merged: ConfigObject = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    merged[key] = isObject(value) && isObject(base[key]) ? mergeConfig(base[key] as ConfigObject, value) : value;
+  }
+  return merged;
+}
+
+function setPath(target: ConfigObject, dottedPath: string, value: unknown): void {
+  const keys = dottedPath.split('.');
+  let node = target;
+  for (const key of keys.slice(0, -1)) {
+    if (!isObject(node[key])) {
+      node[key] = {};
+    }
+    node = node[key] as ConfigObject;
+  }
+  node[keys[keys.length - 1]] = value;
+}
+
+function parseEnvValue(raw: string, type: EnvValueType): unknown {
+  switch (type) {
+    case 'number':
+      return raw.trim() === '' ? NaN : Number(raw);
+    case 'boolean':
+      return raw === 'true' || raw === '1';
+    default:
+      return raw;
+  }
+}
+
+/**
+ * Validate a (possibly partial or malformed) config
+ * Returns human-readable problems, empty when valid
+ */
+export function validateRAGConfig(value: unknown): string[] {
+  const errors: string[] = [];
+  const defaults = getDefaultRAGConfig() as unknown as ConfigObject;
+
+  if (!isObject(value)) {
+    return ['RAG config must be an object'];
+  }
+
+  const get = (dottedPath: string): unknown =>
+    dottedPath.split('.').reduce<unknown>((node, key) => (isObject(node) ? node[key] : undefined), value);
+
+  const checkNumber = (dottedPath: string, options: { min?: number; max?: number; integer?: boolean }) => {
+    const n = get(dottedPath);
+    if (typeof n !== 'number' || Number.isNaN(n)) {
+      errors.push(`${dottedPath} must be a number (got ${JSON.stringify(n)})`);
+    } else if (options.integer && !Number.isInteger(n)) {
+      errors.push(`${dottedPath} must be an integer (got ${n})`);
+    } else if (options.min !== undefined && n < options.min) {
+      errors.push(`${dottedPath} must be >= ${options.min} (got ${n})`);
+    } else if (options.max !== undefined && n > options.max) {
+      errors.push(`${dottedPath} must be <= ${options.max} (got ${n})`);
+    }
+  };
+  const checkString = (dottedPath: string, optional = false) => {
+    const s = get(dottedPath);
+    if (optional && s === undefined) return;
+    if (typeof s !== 'string' || s.trim().length === 0) {
+      errors.push(`${dottedPath} must be a non-empty string (got ${JSON.stringify(s)})`);
+    }
+  };
+  const checkBoolean = (dottedPath: string) => {
+    if (typeof get(dottedPath) !== 'boolean') {
+      errors.push(`${dottedPath} must be true or false (got ${JSON.stringify(get(dottedPath))})`);
+    }
+  };
+  const checkEnum = (dottedPath: string, allowed: string[]) => {
+    const s = get(dottedPath);
+    if (typeof s !== 'string' || !allowed.includes(s)) {
+      errors.push(`${dottedPath} must be one of ${allowed.join(', ')} (got ${JSON.stringify(s)})`);
+    }
+  };
+  const checkUrl = (dottedPath: string) => {
+    const s = get(dottedPath);
+    if (s === undefined) return;
+    try {
+      new URL(String(s));
+    } catch {
+      errors.push(`${dottedPath} must be a URL (got ${JSON.stringify(s)})`);
+    }
+  };
+
+  // Unknown keys are usually typos ("chunkSzie") that would silently fall back to defaults
+  const checkKeys = (node: unknown, reference: unknown, prefix: string) => {
+    if (!isObject(node) || !isObject(reference)) return;
+    for (const key of Object.keys(node)) {
+      const keyPath = prefix ? `${prefix}.${key}` : key;
+      if (!(key in reference)) {
+        errors.push(`Unknown option ${keyPath}`);
+      } else {
+        checkKeys(node[key], reference[key], keyPath);
+      }
+    }
+  };
+  const optionalKeys = ['baseUrl', 'apiKey', 'model', 'dimensions', 'batchSize', 'timeoutMs', 'queryPrefix', 'documentPrefix'];
+  checkKeys(value, {
+    ...defaults,
+    embedder: Object.fromEntries(['backend', ...optionalKeys].map(key => [key, null])),
+    reranker: Object.fromEntries(['backend', 'baseUrl', 'apiKey', 'model', 'timeoutMs'].map(key => [key, null])),
+  }, '');
+
+  checkString('loader.documentsDir');
+  checkNumber('loader.maxFileSize', { min: 1, integer: true });
+  checkBoolean('loader.mockFallback');
+
+  checkEnum('chunker.sizeUnit', CHUNK_SIZE_UNITS);
+  checkNumber('chunker.chunkSize', { min: get('chunker.sizeUnit') === 'tokens' ? 32 : 100, integer: true });
+  checkNumber('chunker.overlapSize', { min: 0, integer: true });
+  checkBoolean('chunker.splitOnSentences');
+  checkEnum('chunker.strategy', CHUNKING_STRATEGIES);
+  const chunkSize = get('chunker.chunkSize');
+  const overlapSize = get('chunker.overlapSize');
+  if (typeof chunkSize === 'number' && typeof overlapSize === 'number' && overlapSize >= chunkSize) {
+    errors.push(`chunker.overlapSize (${overlapSize}) must be smaller than chunker.chunkSize (${chunkSize})`);
+  }
+
+  checkEnum('retriever.mode', RETRIEVAL_MODES);
+  checkNumber('retriever.topK', { min: 1, max: 50, integer: true });
+  checkNumber('retriever.minChunkLength', { min: 0, integer: true });
+  checkNumber('retriever.relevanceThreshold.bm25', { min: 0 });
+  checkNumber('retriever.relevanceThreshold.vector', { min: 0, max: 1 });
+  checkNumber('retriever.relevanceThreshold.fuzzy', { min: 0, max: 1 });
+  checkNumber('retriever.fusion.candidatesPerRanker', { min: 1, max: 200, integer: true });
+  checkNumber('retriever.fusion.rrfK', { min: 1 });
+  checkNumber('retriever.fusion.rerankTopN', { min: 1, integer: true });
+  checkBoolean('retriever.diversity.enabled');
+  checkNumber('retriever.diversity.duplicateThreshold', { min: 0.3, max: 1 });
+  checkNumber('retriever.diversity.mmrLambda', { min: 0, max: 1 });
+  const topK = get('retriever.topK');
+  const candidates = get('retriever.fusion.candidatesPerRanker');
+  if (typeof topK === 'number' && typeof candidates === 'number' && candidates < topK) {
+    errors.push(`retriever.fusion.candidatesPerRanker (${candidates}) must be at least retriever.topK (${topK})`);
+  }
+
+  checkEnum('embedder.backend', EMBEDDER_BACKENDS);
+  checkUrl('embedder.baseUrl');
+  checkString('embedder.model', true);
+  if (get('embedder.dimensions') !== undefined) {
+    checkNumber('embedder.dimensions', { min: 1, integer: true });
+  }
+  const usesEmbedder = get('retriever.mode') !== 'bm25';
+  const embedderUrl = String(get('embedder.baseUrl') ?? OPENAI_BASE_URL);
+  if (usesEmbedder && get('embedder.backend') === 'http' && embedderUrl.startsWith(OPENAI_BASE_URL) && !get('embedder.apiKey')) {
+    errors.push('embedder.apiKey is required for the OpenAI embeddings endpoint (set RAG_EMBEDDING_API_KEY or OPENAI_API_KEY)');
+  }
+
+  if (get('reranker') !== null) {
+    checkEnum('reranker.backend', RERANKER_BACKENDS);
+    checkUrl('reranker.baseUrl');
+    if (get('reranker.backend') === 'http' && !get('reranker.baseUrl')) {
+      errors.push('reranker.baseUrl is required for the http reranker (set RAG_RERANKER_BASE_URL)');
+    }
+  }
+
+  checkString('snapshot.path');
+
+  checkNumber('tools.maxResults', { min: 1, max: 20, integer: true });
+  checkNumber('tools.maxSnippetLength', { min: 0, integer: true });
+  checkNumber('tools.snippetBudget', { min: 0, integer: true });
+  checkBoolean('tools.includeFullText');
+  checkBoolean('tools.includeRanking');
+  checkNumber('tools.maxReadChunks', { min: 1, max: 50, integer: true });
+
+  return errors;
+}
+
+/**
+ * Load, merge and validate the RAG configuration
+ * Throws one error listing every problem found
+ */
+export function loadRAGConfig(env: NodeJS.ProcessEnv = process.env): LoadedRAGConfig {
+  const errors: string[] = [];
+  let merged = getDefaultRAGConfig() as unknown as ConfigObject;
+
+  // 1. Config file
+  const explicitPath = env.RAG_CONFIG_PATH;
+  const configPath = path.resolve(explicitPath || 'rag.config.json');
+  let configFile: string | null = null;
+
+  if (fs.existsSync(configPath)) {
+    try {
+      const fileConfig = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+      if (!isObject(fileConfig)) {
+        errors.push(`${configPath} must contain a JSON object`);
+      } else {
+        merged = mergeConfig(merged, fileConfig);
+        configFile = configPath;
+      }
+    } catch (error) {
+      errors.push(`Could not parse ${configPath}: ${error instanceof Error ? error.message : error}`);
+    }
+  } else if (explicitPath) {
+    errors.push(`RAG_CONFIG_PATH points to a missing file: ${configPath}`);
+  }
+
+  // 2. Environment overrides
+  const envOverrides: string[] = [];
+  for (const { env: name, path: dottedPath, type } of ENV_OVERRIDES) {
+    const raw = env[name];
+    if (raw === undefined || raw === '') continue;
+
+    if (dottedPath.startsWith('reranker.') && !isObject(merged.reranker)) {
+      merged.reranker = {};
+    }
+    const parsed = parseEnvValue(raw, type);
+    if (type === 'number' && Number.isNaN(parsed)) {
+      errors.push(`${name} must be a number (got ${JSON.stringify(raw)})`);
+      continue;
+    }
+    setPath(merged, dottedPath, parsed);
+    envOverrides.push(name);
+  }
+
+  // The OpenAI key doubles as embeddings key unless one is set explicitly
+  const embedder = merged.embedder as ConfigObject;
+  if (!embedder.apiKey && env.OPENAI_API_KEY) {
+    embedder.apiKey = env.OPENAI_API_KEY;
+  }
+
+  errors.push(...validateRAGConfig(merged));
+  if (errors.length > 0) {
+    throw new Error(`Invalid RAG configuration:\n  - ${errors.join('\n  - ')}`);
+  }
+
+  const config = merged as unknown as RAGConfig;
+  config.loader.documentsDir = path.resolve(config.loader.documentsDir);
+  config.snapshot.path = path.resolve(config.snapshot.path);
+
+  return { config, configFile, envOverrides };
+}
+
+/**
+ * Config without server paths (documents directory, snapshot file)
+ */
+export type RedactedRAGConfig = Omit<RAGConfig, 'loader' | 'snapshot'> & {
+  loader: Omit<RAGConfig['loader'], 'documentsDir'>;
+};
+
+/**
+ * Copy of the config with secrets masked and server paths left out,
+ * safe to return from an API route
+ */
+export function redactRAGConfig(config: RAGConfig): RedactedRAGConfig {
+  const mask = (secret?: string) => (secret ? '********' : undefined);
+  const { snapshot: _snapshot, loader: { documentsDir: _documentsDir, ...loader }, ...rest } = config;
+  return {
+    ...rest,
+    loader,
+    embedder: { ...config.embedder, apiKey: mask(config.embedder.apiKey) },
+    reranker: config.reranker ? { ...config.reranker, apiKey: mask(config.reranker.apiKey) } : null,
+  };
+}
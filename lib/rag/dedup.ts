@@ -0,0 +1,253 @@
+import { Chunk } from './chunker';
+import { analyzeText } from './hebrew-analyzer';
+import { SearchResult } from './retriever';
+
+/**
+ * Configuration for near-duplicate detection
+ */
+export interface DuplicateConfig {
+  threshold?: number; // estimated Jaccard similarity at which two chunks are near-duplicates
+  numHashes?: number; // MinHash signature length
+  shingleSize?: number; // words per shingle
+}
+
+// Signature rows per LSH band: pairs from about 0.5 similarity become candidates
+const BAND_ROWS = 4;
+
+/**
+ * 32-bit FNV-1a hash of a string
+ */
+function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Seeded 32-bit mix (murmur3 finalizer), one independent hash function per seed
+ */
+function mix(value: number, seed: number): number {
+  let hash = (value ^ seed) >>> 0;
+  hash = Math.imul(hash ^ (hash >>> 16), 0x85ebca6b);
+  hash = Math.imul(hash ^ (hash >>> 13), 0xc2b2ae35);
+  return (hash ^ (hash >>> 16)) >>> 0;
+}
+
+/**
+ * DuplicateIndex - Near-duplicate chunk detection with MinHash
+ *
+ * Every chunk is reduced to shingles (runs of shingleSize analyzed words) and a
+ * MinHash signature; the share of equal signature positions estimates the Jaccard
+ * similarity of two chunks' shingle sets. Locality-sensitive hashing over signature
+ * bands finds candidate pairs without comparing every pair, and pairs at or above
+ * the threshold form duplicate groups, e.g. the same clause in faq.txt and sample.txt.
+ */
+export class DuplicateIndex {
+  private chunks: Chunk[] = [];
+  private signatures: Map<string, Uint32Array> = new Map();
+  private groups: Map<string, Chunk[]> = new Map(); // chunk id -> all chunks of its group
+  private seeds: number[];
+  private threshold: number;
+  private shingleSize: number;
+
+  constructor(config?: DuplicateConfig) {
+    this.threshold = config?.threshold || 0.8;
+    this.shingleSize = config?.shingleSize || 5;
+    const numHashes = config?.numHashes || 64;
+    this.seeds = Array.from({ length: numHashes }, (_, i) => Math.imul(i + 1, 0x9e3779b1) >>> 0);
+  }
+
+  /**
+   * Compute signatures for all chunks and group near-duplicates
+   */
+  initialize(chunks: Chunk[]): void {
+    this.signatures.clear();
+    this.chunks = chunks.slice();
+    this.chunks.forEach(chunk => this.signatures.set(chunk.id, this.sign(chunk)));
+    this.buildGroups();
+  }
+
+  /**
+   * Replace the chunks of the given documents and regroup
+   */
+  updateDocuments(documentIds: string[], newChunks: Chunk[]): void {
+    const replaced = new Set(documentIds);
+    this.chunks.filter(chunk => replaced.has(chunk.documentId)).forEach(chunk => this.signatures.delete(chunk.id));
+    newChunks.forEach(chunk => this.signatures.set(chunk.id, this.sign(chunk)));
+
+    this.chunks = this.chunks.filter(chunk => !replaced.has(chunk.documentId)).concat(newChunks);
+    this.buildGroups();
+  }
+
+  /**
+   * Estimated Jaccard similarity of two chunks (0-1)
+   */
+  similarity(chunkIdA: string, chunkIdB: string): number {
+    const a = this.signatures.get(chunkIdA);
+    const b = this.signatures.get(chunkIdB);
+    if (!a || !b) {
+      return 0;
+    }
+
+    let equal = 0;
+    for (let i = 0; i < a.length; i++) {
+      if (a[i] === b[i]) equal++;
+    }
+    return equal / a.length;
+  }
+
+  /**
+   * All chunks in the duplicate group of a chunk (including itself), empty if it has none
+   */
+  getGroup(chunkId: string): Chunk[] {
+    return this.groups.get(chunkId) ?? [];
+  }
+
+  private sign(chunk: Chunk): Uint32Array {
+    const words = analyzeText(chunk.content);
+    const signature = new Uint32Array(this.seeds.length).fill(0xffffffff);
+
+    const shingleCount = Math.max(words.length - this.shingleSize + 1, words.length > 0 ? 1 : 0);
+    for (let start = 0; start < shingleCount; start++) {
+      const shingle = hashString(words.slice(start, start + this.shingleSize).join(' '));
+      for (let i = 0; i < this.seeds.length; i++) {
+        const hash = mix(shingle, this.seeds[i]);
+        if (hash < signature[i]) signature[i] = hash;
+      }
+    }
+    return signature;
+  }
+
+  /**
+   * Find candidate pairs per LSH band, keep pairs above the threshold and
+   * merge them into groups (union-find)
+   */
+  private buildGroups(): void {
+    const parent = new Map<string, string>();
+    const find = (id: string): string => {
+      let root = id;
+      while (parent.has(root) && parent.get(root) !== root) root = parent.get(root)!;
+      parent.set(id, root);
+      return root;
+    };
+
+    const bands = Math.floor(this.seeds.length / BAND_ROWS);
+    for (let band = 0; band < bands; band++) {
+      const buckets = new Map<string, string[]>();
+      for (const chunk of this.chunks) {
+        const signature = this.signatures.get(chunk.id)!;
+        if (signature[0] === 0xffffffff) continue; // no words
+
+        const key = Array.from(signature.subarray(band * BAND_ROWS, (band + 1) * BAND_ROWS)).join(',');
+        const bucket = buckets.get(key);
+        if (bucket) {
+          bucket.push(chunk.id);
+        } else {
+          buckets.set(key, [chunk.id]);
+        }
+      }
+
+      for (const ids of Array.from(buckets.values())) {
+        for (let i = 0; i < ids.length; i++) {
+          for (let j = i + 1; j < ids.length; j++) {
+            if (find(ids[i]) !== find(ids[j]) && this.similarity(ids[i], ids[j]) >= this.threshold) {
+              parent.set(find(ids[j]), find(ids[i]));
+            }
+          }
+        }
+      }
+    }
+
+    const members = new Map<string, Chunk[]>();
+    for (const chunk of this.chunks) {
+      if (!parent.has(chunk.id)) continue;
+      const root = find(chunk.id);
+      if (!members.has(root)) {
+        members.set(root, []);
+      }
+      members.get(root)!.push(chunk);
+    }
+
+    this.groups.clear();
+    for (const group of Array.from(members.values())) {
+      if (group.length > 1) {
+        group.forEach(chunk => this.groups.set(chunk.id, group));
+      }
+    }
+  }
+
+  /**
+   * Get statistics about duplicate groups
+   */
+  getStats() {
+    const groups = new Set(this.groups.values());
+    return {
+      duplicateGroups: groups.size,
+      duplicateChunks: this.groups.size,
+    };
+  }
+}
+
+/**
+ * Pick up to `limit` results that cover distinct passages
+ *
+ * 1. A result whose near-duplicate ranked higher is dropped; the higher one lists
+ *    its group's other chunks (those accepted, e.g. by the search filter) as duplicates
+ * 2. Maximal marginal relevance orders the rest: each step takes the result with the
+ *    highest λ · relevance − (1 − λ) · (similarity to the closest result taken so far)
+ *
+ * λ = 1 keeps the relevance order; lower values favor passages unlike those already taken.
+ */
+export function diversifyResults(
+  results: SearchResult[],
+  limit: number,
+  index: DuplicateIndex,
+  lambda: number,
+  accept: (chunk: Chunk) => boolean = () => true
+): SearchResult[] {
+  const seenGroups = new Set<Chunk[]>();
+  const candidates: SearchResult[] = [];
+
+  for (const result of results) {
+    const group = index.getGroup(result.chunk.id);
+    if (group.length === 0) {
+      candidates.push(result);
+      continue;
+    }
+    if (seenGroups.has(group)) continue;
+
+    seenGroups.add(group);
+    const duplicates = group.filter(chunk => chunk.id !== result.chunk.id && accept(chunk));
+    candidates.push(duplicates.length > 0 ? { ...result, duplicates } : result);
+  }
+
+  const selected: SearchResult[] = [];
+  while (selected.length < limit && candidates.length > 0) {
+    let best = 0;
+    let bestScore = -Infinity;
+
+    candidates.forEach((candidate, i) => {
+      const redundancy = Math.max(0, ...selected.map(chosen => index.similarity(candidate.chunk.id, chosen.chunk.id)));
+      const score = lambda * candidate.relevanceScore - (1 - lambda) * redundancy;
+      if (score > bestScore) {
+        best = i;
+        bestScore = score;
+      }
+    });
+
+    selected.push(candidates.splice(best, 1)[0]);
+  }
+
+  return selected;
+}
+
+/**
+ * Helper function to create a duplicate index over chunks
+ */
+export function createDuplicateIndex(chunks: Chunk[], config?: DuplicateConfig): DuplicateIndex {
+  const index = new DuplicateIndex(config);
+  index.initialize(chunks);
+  return index;
+}
@@ -0,0 +1,156 @@
+/**
+ * Document Admin API helpers
+ *
+ * Authentication, upload parsing and response shapes for the
+ * /api/documents routes that manage the knowledge base at runtime
+ */
+
+import { timingSafeEqual } from 'crypto';
+import { DocumentChangeResult, DocumentUpload, IndexedDocument } from './index';
+import { FileIngestionReport } from './pdf-loader';
+
+// Room for multipart boundaries and part headers on top of the file size limit
+const MULTIPART_OVERHEAD_BYTES = 64 * 1024;
+
+/**
+ * Indexed document as returned by the admin API
+ */
+export interface DocumentListItem {
+  id: string;
+  filename: string;
+  format?: string;
+  characters: number;
+  page_count?: number;
+  chunk_count: number;
+  content_hash?: string;
+  extracted_at?: string;
+  metadata?: IndexedDocument['metadata'];
+  rtl_repaired_lines?: number;
+}
+
+/**
+ * Per-file result of an upload, replace or delete
+ */
+export interface DocumentChangeItem {
+  filename: string;
+  status: DocumentChangeResult['status'];
+  error?: string;
+  document?: DocumentListItem;
+  diagnostics?: FileIngestionReport;
+}
+
+/**
+ * Check the admin bearer token (RAG_ADMIN_TOKEN)
+ * Without a configured token, document management is disabled
+ */
+export function authorizeAdmin(request: Request): { valid: boolean; status?: number; error?: string } {
+  const expected = process.env.RAG_ADMIN_TOKEN;
+  if (!expected) {
+    return { valid: false, status: 503, error: 'Document management is disabled. Set RAG_ADMIN_TOKEN to enable it.' };
+  }
+
+  const header = request.headers.get('authorization') || '';
+  const token = header.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : '';
+  const given = Buffer.from(token);
+  const wanted = Buffer.from(expected);
+
+  if (given.length !== wanted.length || !timingSafeEqual(given, wanted)) {
+    return { valid: false, status: 401, error: 'Invalid or missing admin token' };
+  }
+  return { valid: true };
+}
+
+/**
+ * Read the "file" fields of a multipart/form-data request
+ * The whole body may be at most maxFileSize (plus multipart overhead): larger
+ * requests are refused from Content-Length, or while streaming, before parsing
+ */
+export async function readUploads(
+  request: Request,
+  maxFileSize: number
+): Promise<{ uploads: DocumentUpload[]; status?: number; error?: string }> {
+  const limit = maxFileSize + MULTIPART_OVERHEAD_BYTES;
+  const tooLarge = {
+    uploads: [],
+    status: 413,
+    error: `Upload is too large (limit ${(maxFileSize / 1024 / 1024).toFixed(2)}MB per request)`,
+  };
+
+  if (Number(request.headers.get('content-length')) > limit) {
+    return tooLarge;
+  }
+
+  const body = await readBody(request, limit);
+  if (!body) {
+    return tooLarge;
+  }
+
+  const form = await new Response(body, {
+    headers: { 'content-type': request.headers.get('content-type') || '' },
+  }).formData();
+  const uploads: DocumentUpload[] = [];
+
+  for (const entry of form.getAll('file')) {
+    if (typeof entry === 'string') continue;
+    uploads.push({ filename: entry.name, content: Buffer.from(await entry.arrayBuffer()) });
+  }
+  return { uploads };
+}
+
+/**
+ * Read a request body, stopping once it exceeds limit bytes
+ * Returns null when the body is too large
+ */
+async function readBody(request: Request, limit: number): Promise<Blob | null> {
+  if (!request.body) {
+    return new Blob([]);
+  }
+
+  const reader = request.body.getReader();
+  const parts: Uint8Array[] = [];
+  let size = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    size += value.byteLength;
+    if (size > limit) {
+      await reader.cancel();
+      return null;
+    }
+    parts.push(value);
+  }
+  return new Blob([Buffer.concat(parts)]);
+}
+
+/**
+ * Convert an indexed document to the admin API shape
+ */
+export function toDocumentListItem(document: IndexedDocument): DocumentListItem {
+  return {
+    id: document.id,
+    filename: document.filename,
+    format: document.format,
+    characters: document.characters,
+    page_count: document.pageCount,
+    chunk_count: document.chunkCount,
+    content_hash: document.contentHash,
+    extracted_at: document.extractedAt,
+    metadata: document.metadata,
+    rtl_repaired_lines: document.rtlRepair?.flippedLines,
+  };
+}
+
+/**
+ * Convert a per-file change result to the admin API shape
+ */
+export function toDocumentChangeItem(result: DocumentChangeResult): DocumentChangeItem {
+  return {
+    filename: result.filename,
+    status: result.status,
+    error: result.error,
+    document: result.document && toDocumentListItem(result.document),
+    diagnostics: result.report,
+  };
+}
@@ -0,0 +1,62 @@
+/**
+ * Document Viewer API helpers
+ *
+ * Response shape of /api/rag/documents/:id, which the chat UI uses to show
+ * a document's full text and highlight cited chunks by their character offsets
+ */
+
+import { Chunk } from './chunker';
+import { Document, DocumentFormat } from './pdf-loader';
+import { DocumentMetadata } from './metadata';
+import { createCitationId } from './citations';
+
+/**
+ * Chunk position in the document text
+ */
+export interface DocumentViewChunk {
+  id: string;
+  citation_id: string;
+  start_char: number;
+  end_char: number;
+  page?: number;
+  section?: string;
+}
+
+/**
+ * Document with its full text, as returned by the viewer API
+ */
+export interface DocumentView {
+  id: string;
+  filename: string;
+  format?: DocumentFormat;
+  source_url?: string; // original file (PDFs open at a page with "#page=N")
+  page_count?: number;
+  direction: 'rtl' | 'ltr'; // base direction of the text; lines still follow their own script
+  text: string;
+  metadata?: DocumentMetadata;
+  chunks: DocumentViewChunk[];
+}
+
+/**
+ * Convert a document and its chunks to the viewer API shape
+ */
+export function toDocumentView(document: Document, chunks: Chunk[]): DocumentView {
+  return {
+    id: document.id,
+    filename: document.filename,
+    format: document.format,
+    source_url: document.sourceUrl,
+    page_count: document.pageCount,
+    direction: document.metadata?.language === 'he' ? 'rtl' : 'ltr',
+    text: document.text,
+    metadata: document.metadata,
+    chunks: chunks.map(chunk => ({
+      id: chunk.id,
+      citation_id: createCitationId(chunk.id),
+      start_char: chunk.startChar,
+      end_char: chunk.endChar,
+      page: chunk.startPage,
+      section: chunk.breadcrumb,
+    })),
+  };
+}
@@ -0,0 +1,206 @@
+import { createHash } from 'crypto';
+import { analyzeText } from './hebrew-analyzer';
+
+/**
+ * Embedder - Turns text into dense vectors for vector retrieval
+ *
+ * Backends:
+ * - http: any OpenAI-compatible /embeddings endpoint (OpenAI, or a local
+ *   stand-in such as Ollama, llama.cpp or text-embeddings-inference); the only
+ *   backend that runs an embedding model, so the only semantic one
+ * - lexical: in-process feature hashing of words and trigrams, CPU only, no model.
+ *   A lexical fallback: it matches shared stems and spellings, not meaning
+ *   ("local" is its former name and still accepted)
+ *
+ * `id` identifies backend + model + dimensions; stored vectors built with a
+ * different id are discarded and re-embedded.
+ */
+export interface Embedder {
+  readonly id: string;
+  readonly semantic: boolean; // vectors come from an embedding model
+  embedDocuments(texts: string[]): Promise<number[][]>;
+  embedQuery(text: string): Promise<number[]>;
+}
+
+export type EmbedderBackend = 'http' | 'lexical' | 'local';
+
+/**
+ * Configuration for createEmbedder
+ */
+export interface EmbedderConfig {
+  backend: EmbedderBackend;
+  baseUrl?: string; // http: e.g. https://api.openai.com/v1 or http://localhost:11434/v1
+  apiKey?: string;
+  model?: string;
+  dimensions?: number; // http: requested size (if the model supports it), lexical: vector size
+  batchSize?: number;
+  timeoutMs?: number;
+  queryPrefix?: string; // e.g. "query: " for E5 models
+  documentPrefix?: string; // e.g. "passage: " for E5 models
+}
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+const DEFAULT_MODEL = 'text-embedding-3-small';
+const DEFAULT_BATCH_SIZE = 64;
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_LEXICAL_DIMENSIONS = 512;
+
+// Lexical embedder feature weights
+const WORD_WEIGHT = 1.0;
+const TRIGRAM_WEIGHT = 0.5;
+
+/**
+ * Scale a vector to unit length so cosine similarity is a dot product
+ */
+export function normalizeVector(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map(value => value / norm) : vector;
+}
+
+/**
+ * HttpEmbedder - Calls an OpenAI-compatible embeddings API
+ * POST {baseUrl}/embeddings with { model, input: string[] }
+ */
+export class HttpEmbedder implements Embedder {
+  readonly id: string;
+  readonly semantic = true;
+  private baseUrl: string;
+  private apiKey?: string;
+  private model: string;
+  private dimensions?: number;
+  private batchSize: number;
+  private timeoutMs: number;
+  private queryPrefix: string;
+  private documentPrefix: string;
+
+  constructor(config?: Omit<EmbedderConfig, 'backend'>) {
+    this.baseUrl = (config?.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+    this.apiKey = config?.apiKey;
+    this.model = config?.model || DEFAULT_MODEL;
+    this.dimensions = config?.dimensions;
+    this.batchSize = config?.batchSize || DEFAULT_BATCH_SIZE;
+    this.timeoutMs = config?.timeoutMs || DEFAULT_TIMEOUT_MS;
+    this.queryPrefix = config?.queryPrefix || '';
+    this.documentPrefix = config?.documentPrefix || '';
+    this.id = `http:${this.model}:${this.dimensions ?? 'default'}`;
+  }
+
+  async embedDocuments(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+    for (let i = 0; i < texts.length; i += this.batchSize) {
+      const batch = texts.slice(i, i + this.batchSize).map(text => this.documentPrefix + text);
+      vectors.push(...(await this.request(batch)));
+    }
+    return vectors;
+  }
+
+  async embedQuery(text: string): Promise<number[]> {
+    const [vector] = await this.request([this.queryPrefix + text]);
+    return vector;
+  }
+
+  private async request(input: string[]): Promise<number[][]> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      const response = await fetch(`${this.baseUrl}/embeddings`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: this.model,
+          input,
+          ...(this.dimensions ? { dimensions: this.dimensions } : {}),
+        }),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        const detail = await response.text().catch(() => '');
+        throw new Error(`Embeddings request failed: ${response.status} ${response.statusText} ${detail}`.trim());
+      }
+
+      const payload = (await response.json()) as { data?: Array<{ index: number; embedding: number[] }> };
+      if (!Array.isArray(payload.data) || payload.data.length !== input.length) {
+        throw new Error(`Embeddings response has ${payload.data?.length ?? 0} vectors for ${input.length} inputs`);
+      }
+
+      return payload.data
+        .slice()
+        .sort((a, b) => a.index - b.index)
+        .map(item => normalizeVector(item.embedding));
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+/**
+ * LexicalHashEmbedder - In-process lexical fallback based on feature hashing
+ *
+ * Hashes analyzed words and character trigrams into a fixed-size signed vector.
+ * This is not an embedding model: it captures shared stems and spelling variants,
+ * so vector search with it is lexical matching. For semantic (paraphrase-level)
+ * similarity, use the http backend with a real model.
+ */
+export class LexicalHashEmbedder implements Embedder {
+  readonly id: string;
+  readonly semantic = false;
+  private dimensions: number;
+
+  constructor(config?: Pick<EmbedderConfig, 'dimensions'>) {
+    this.dimensions = config?.dimensions || DEFAULT_LEXICAL_DIMENSIONS;
+    this.id = `local-hash:v1:${this.dimensions}`;
+  }
+
+  async embedDocuments(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embed(text));
+  }
+
+  async embedQuery(text: string): Promise<number[]> {
+    return this.embed(text);
+  }
+
+  private embed(text: string): number[] {
+    const counts = new Map<string, number>(); // feature -> occurrences
+    const add = (feature: string) => counts.set(feature, (counts.get(feature) || 0) + 1);
+
+    for (const stem of analyzeText(text)) {
+      add(`w:${stem}`);
+
+      const padded = `#${stem}#`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        add(`g:${padded.slice(i, i + 3)}`);
+      }
+    }
+
+    const vector = new Array<number>(this.dimensions).fill(0);
+    for (const [feature, count] of Array.from(counts.entries())) {
+      const hash = createHash('md5').update(feature).digest();
+      const bucket = hash.readUInt32LE(0) % this.dimensions;
+      const sign = hash[4] & 1 ? 1 : -1;
+      const weight = feature.startsWith('w:') ? WORD_WEIGHT : TRIGRAM_WEIGHT;
+      vector[bucket] += sign * weight * (1 + Math.log(count)); // sublinear term frequency
+    }
+
+    return normalizeVector(vector);
+  }
+}
+
+/**
+ * Helper function to create an embedder from configuration
+ */
+export function createEmbedder(config: EmbedderConfig): Embedder {
+  switch (config.backend) {
+    case 'http':
+      return new HttpEmbedder(config);
+    case 'lexical':
+    case 'local':
+      return new LexicalHashEmbedder(config);
+    default:
+      throw new Error(`Unknown embedder backend: ${config.backend}`);
+  }
+}
@@ -0,0 +1,161 @@
+import { Chunk, getIndexedText } from './chunker';
+import { analyzeText, analyzeHebrewToken, splitWords } from './hebrew-analyzer';
+import { Retriever, RetrieverConfig, SearchResult } from './retriever';
+import { SearchFilter, matchesFilter } from './metadata';
+
+// A query word counts as matched when this share of its trigrams occurs in the chunk
+const WORD_MATCH_RATIO = 0.6;
+
+/**
+ * Character trigrams of analyzed words, padded with "#" at word boundaries
+ */
+function wordTrigrams(word: string): string[] {
+  const padded = `#${word}#`;
+  const grams: string[] = [];
+  for (let i = 0; i + 3 <= padded.length; i++) {
+    grams.push(padded.slice(i, i + 3));
+  }
+  return grams;
+}
+
+/**
+ * FuzzyRetriever - Character n-gram ranker
+ *
+ * Scores chunks by the share of the query's trigrams they contain, weighted
+ * by trigram rarity. Tolerates typos, transcription errors and spelling
+ * variants ("חופשא", "מנכל") that exact terms in BM25 miss.
+ */
+export class FuzzyRetriever implements Retriever {
+  readonly name = 'fuzzy';
+  private chunks: Chunk[] = [];
+  private chunksById: Map<string, Chunk> = new Map();
+  private gramIndex: Map<string, Set<string>> = new Map(); // trigram -> chunk ids
+  private chunkGrams: Map<string, Set<string>> = new Map(); // chunk id -> trigrams
+  private topK: number;
+  private relevanceThreshold: number;
+  private minChunkLength: number;
+
+  constructor(config?: RetrieverConfig) {
+    this.topK = config?.topK || 5;
+    this.relevanceThreshold = config?.relevanceThreshold ?? 0.35;
+    this.minChunkLength = config?.minChunkLength || 50;
+  }
+
+  /**
+   * Initialize with chunks and build the trigram index
+   */
+  initialize(chunks: Chunk[]): void {
+    this.gramIndex.clear();
+    this.chunkGrams.clear();
+    this.chunks = chunks.filter(chunk => chunk.content.length >= this.minChunkLength);
+    this.chunks.forEach(chunk => this.indexChunk(chunk));
+    this.chunksById = new Map(this.chunks.map(chunk => [chunk.id, chunk]));
+  }
+
+  /**
+   * Replace the chunks of the given documents
+   */
+  updateDocuments(documentIds: string[], newChunks: Chunk[]): void {
+    const replaced = new Set(documentIds);
+    this.chunks.filter(chunk => replaced.has(chunk.documentId)).forEach(chunk => this.unindexChunk(chunk));
+
+    const added = newChunks.filter(chunk => chunk.content.length >= this.minChunkLength);
+    added.forEach(chunk => this.indexChunk(chunk));
+
+    this.chunks = this.chunks.filter(chunk => !replaced.has(chunk.documentId)).concat(added);
+    this.chunksById = new Map(this.chunks.map(chunk => [chunk.id, chunk]));
+  }
+
+  private indexChunk(chunk: Chunk): void {
+    const grams = new Set(analyzeText(getIndexedText(chunk)).flatMap(wordTrigrams));
+    this.chunkGrams.set(chunk.id, grams);
+
+    grams.forEach(gram => {
+      if (!this.gramIndex.has(gram)) {
+        this.gramIndex.set(gram, new Set());
+      }
+      this.gramIndex.get(gram)!.add(chunk.id);
+    });
+  }
+
+  private unindexChunk(chunk: Chunk): void {
+    this.chunkGrams.get(chunk.id)?.forEach(gram => {
+      const chunkIds = this.gramIndex.get(gram);
+      chunkIds?.delete(chunk.id);
+      if (chunkIds?.size === 0) {
+        this.gramIndex.delete(gram);
+      }
+    });
+    this.chunkGrams.delete(chunk.id);
+  }
+
+  /**
+   * Search by weighted trigram overlap
+   */
+  search(query: string, limit: number = this.topK, filter?: SearchFilter): SearchResult[] {
+    if (!query || query.trim().length === 0) {
+      return [];
+    }
+
+    const words = Array.from(new Set(splitWords(query))).map(word => ({ word, stem: analyzeHebrewToken(word) }));
+    const queryGrams = Array.from(new Set(words.flatMap(({ stem }) => wordTrigrams(stem))));
+    if (queryGrams.length === 0) {
+      return [];
+    }
+
+    // Rare trigrams weigh more; trigrams found nowhere still count against coverage
+    const totalChunks = Math.max(this.chunks.length, 1);
+    const weights = new Map(
+      queryGrams.map(gram => [gram, Math.log(1 + totalChunks / (this.gramIndex.get(gram)?.size || 1))])
+    );
+    const totalWeight = Array.from(weights.values()).reduce((sum, weight) => sum + weight, 0);
+
+    const scores = new Map<string, number>();
+    for (const gram of queryGrams) {
+      this.gramIndex.get(gram)?.forEach(chunkId => {
+        scores.set(chunkId, (scores.get(chunkId) || 0) + weights.get(gram)!);
+      });
+    }
+
+    return Array.from(scores.entries())
+      .filter(([chunkId]) => matchesFilter(this.chunksById.get(chunkId)?.metadata, filter))
+      .map(([chunkId, score]) => ({ chunkId, relevance: score / totalWeight }))
+      .filter(({ relevance }) => relevance > this.relevanceThreshold)
+      .sort((a, b) => b.relevance - a.relevance)
+      .slice(0, limit)
+      .map(({ chunkId, relevance }) => {
+        const chunkGrams = this.chunkGrams.get(chunkId)!;
+        const matchedTerms = words
+          .filter(({ stem }) => {
+            const grams = wordTrigrams(stem);
+            return grams.filter(gram => chunkGrams.has(gram)).length / grams.length >= WORD_MATCH_RATIO;
+          })
+          .map(({ word }) => word);
+
+        return {
+          chunk: this.chunksById.get(chunkId)!,
+          relevanceScore: Math.min(1.0, relevance),
+          matchedTerms,
+        };
+      });
+  }
+
+  /**
+   * Get statistics about the trigram index
+   */
+  getStats() {
+    return {
+      indexedChunks: this.chunks.length,
+      uniqueTrigrams: this.gramIndex.size,
+    };
+  }
+}
+
+/**
+ * Helper function to create a configured fuzzy retriever
+ */
+export function createFuzzyRetriever(chunks: Chunk[], config?: RetrieverConfig): FuzzyRetriever {
+  const retriever = new FuzzyRetriever(config);
+  retriever.initialize(chunks);
+  return retriever;
+}
@@ -0,0 +1,191 @@
+/**
+ * Hebrew analyzer - Reduces Hebrew tokens to a searchable stem
+ *
+ * Applied to every token at index time and at query time, so "עובדים" and
+ * "עובד" index and match as "עובד".
+ *
+ * Steps:
+ * 1. Remove niqqud and cantillation marks
+ * 2. Normalize final letters (ך→כ, ם→מ, ן→נ, ף→פ, ץ→צ)
+ * 3. Strip plural and possessive suffixes (ים, ות, יהם, נו, ...) while three letters remain
+ * 4. Strip one-letter prefixes (ו, ה, ב, ל, מ, ש, כ and combinations such as "וכש", "מה"),
+ *    only when the caller knows the rest as a word
+ *
+ * Prefix letters are ambiguous: the ש of "שבוע" and the מ of "מדיניות" are root
+ * letters, so a word alone cannot tell whether it carries a prefix. Without a
+ * vocabulary nothing is stripped, and every word keeps one analyzed form; with
+ * one (the retriever's index, at query time), "לעובד" becomes "עובד" only when
+ * "עובד" was indexed, and at least minStemLength letters remain.
+ * isPrefixedForm() tells which indexed words are a term behind prefixes.
+ */
+
+export interface HebrewAnalyzerConfig {
+  stripPrefixes?: boolean;
+  stemSuffixes?: boolean;
+  minStemLength?: number; // minimum letters left after stripping prefixes
+}
+
+const NIQQUD = /[\u0591-\u05BD\u05BF\u05C1\u05C2\u05C4\u05C5\u05C7]/g;
+const HEBREW_WORD = /^[א-ת]+$/;
+
+const FINAL_LETTERS: Record<string, string> = {
+  'ך': 'כ',
+  'ם': 'מ',
+  'ן': 'נ',
+  'ף': 'פ',
+  'ץ': 'צ',
+};
+
+// ו (and) → ש / כש (that, when) → ב ל מ כ (in, to, from, as) → ה (the)
+const PREFIX_SEQUENCE = /^ו?(?:ש|כש)?[בלמכ]?ה?$/;
+const MAX_PREFIX_LENGTH = 4;
+
+// Written with normalized final letters, longest first
+const SUFFIXES = [
+  'ותיהמ', 'ותיהנ', 'ותיכמ', 'ותינו',
+  'יהמ', 'יהנ', 'יכמ', 'יכנ', 'ינו',
+  'ימ', 'ות', 'יו', 'יה', 'נו', 'המ', 'הנ', 'כמ', 'כנ',
+  'ה', 'י', 'ו',
+];
+const MIN_SUFFIX_STEM_LENGTH = 3;
+const MIN_VARIANT_LENGTH = 3;
+
+export class HebrewAnalyzer {
+  private stripPrefixes: boolean;
+  private stemSuffixes: boolean;
+  private minStemLength: number;
+
+  constructor(config?: HebrewAnalyzerConfig) {
+    this.stripPrefixes = config?.stripPrefixes ?? true;
+    this.stemSuffixes = config?.stemSuffixes ?? true;
+    this.minStemLength = config?.minStemLength || 3;
+  }
+
+  /**
+   * Analyze a single lowercased token
+   * Non-Hebrew tokens are returned unchanged (apart from niqqud removal)
+   * Prefixes are stripped only to a stem isKnownTerm accepts
+   */
+  analyze(token: string, isKnownTerm?: (term: string) => boolean): string {
+    const normalized = this.normalizeFinalLetters(token.replace(NIQQUD, ''));
+    if (!HEBREW_WORD.test(normalized)) {
+      return normalized;
+    }
+
+    let stem = normalized;
+    if (this.stemSuffixes) {
+      stem = this.removeSuffix(stem);
+    }
+    if (this.stripPrefixes && isKnownTerm) {
+      stem = this.removePrefix(stem, isKnownTerm);
+    }
+    return stem;
+  }
+
+  /**
+   * Whether an analyzed word is the analyzed term behind a prefix sequence
+   * E.g. "והעובד" and "לעובד" for "עובד"; used on indexed words that contain the term
+   */
+  isPrefixedForm(word: string, term: string): boolean {
+    const length = word.length - term.length;
+    return (
+      this.stripPrefixes &&
+      length > 0 &&
+      length <= MAX_PREFIX_LENGTH &&
+      term.length >= this.minStemLength &&
+      word.endsWith(term) &&
+      HEBREW_WORD.test(word) &&
+      PREFIX_SEQUENCE.test(word.slice(0, length))
+    );
+  }
+
+  /**
+   * Readings of an analyzed term with a prefix sequence removed, longest stem first
+   * E.g. "לעובד" → ["עובד"]; callers check them against their vocabulary
+   */
+  prefixVariants(term: string): string[] {
+    if (!this.stripPrefixes || !HEBREW_WORD.test(term)) {
+      return [];
+    }
+
+    const variants: string[] = [];
+    const longest = Math.min(MAX_PREFIX_LENGTH, term.length - MIN_VARIANT_LENGTH);
+    for (let length = 1; length <= longest; length++) {
+      if (PREFIX_SEQUENCE.test(term.slice(0, length))) {
+        variants.push(term.slice(length));
+      }
+    }
+    return variants;
+  }
+
+  private normalizeFinalLetters(token: string): string {
+    return token.replace(/[ךםןףץ]/g, letter => FINAL_LETTERS[letter]);
+  }
+
+  /**
+   * Remove the longest valid prefix sequence that leaves a known term of at least
+   * minStemLength letters, so "ולמנהל" and "למנהל" both become "מנהל" (when known)
+   */
+  private removePrefix(word: string, isKnownTerm: (term: string) => boolean): string {
+    const longest = Math.min(MAX_PREFIX_LENGTH, word.length - this.minStemLength);
+
+    for (let length = longest; length > 0; length--) {
+      if (PREFIX_SEQUENCE.test(word.slice(0, length)) && isKnownTerm(word.slice(length))) {
+        return word.slice(length);
+      }
+    }
+    return word;
+  }
+
+  /**
+   * Remove the longest matching suffix that leaves a stem of at least three letters
+   */
+  private removeSuffix(word: string): string {
+    for (const suffix of SUFFIXES) {
+      if (word.endsWith(suffix) && word.length - suffix.length >= MIN_SUFFIX_STEM_LENGTH) {
+        return word.slice(0, -suffix.length);
+      }
+    }
+    return word;
+  }
+}
+
+const defaultAnalyzer = new HebrewAnalyzer();
+
+/**
+ * Helper function to analyze a token with the default configuration
+ */
+export function analyzeHebrewToken(token: string, isKnownTerm?: (term: string) => boolean): string {
+  return defaultAnalyzer.analyze(token, isKnownTerm);
+}
+
+/**
+ * Split text into lowercased words of two or more characters
+ */
+export function splitWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9\u00C0-\u024F\u0591-\u05F4]+/)
+    .filter(word => word.length > 1);
+}
+
+/**
+ * Helper function to split text into analyzed words
+ */
+export function analyzeText(text: string): string[] {
+  return splitWords(text).map(word => defaultAnalyzer.analyze(word));
+}
+
+/**
+ * Helper function to get prefix variants with the default configuration
+ */
+export function hebrewPrefixVariants(term: string): string[] {
+  return defaultAnalyzer.prefixVariants(term);
+}
+
+/**
+ * Helper function to check for a prefixed form with the default configuration
+ */
+export function isHebrewPrefixedForm(word: string, term: string): boolean {
+  return defaultAnalyzer.isPrefixedForm(word, term);
+}
@@ -0,0 +1,128 @@
+import { Chunk } from './chunker';
+import { ComponentScore, Retriever, SearchResult } from './retriever';
+import { Reranker } from './rerankers';
+import { SearchFilter, matchesFilter } from './metadata';
+import { logger } from '@/utils/logger';
+
+/**
+ * Results of one ranker, in rank order
+ */
+export interface Ranking {
+  ranker: string;
+  results: SearchResult[];
+}
+
+/**
+ * Configuration for hybrid search
+ */
+export interface HybridConfig {
+  topK?: number;
+  candidatesPerRanker?: number; // depth requested from each ranker
+  rrfK?: number; // damping constant of reciprocal rank fusion
+  rerankTopN?: number; // fused candidates passed to the reranker
+}
+
+// Standard constant from Cormack et al. (2009)
+export const DEFAULT_RRF_K = 60;
+
+/**
+ * Merge rankings with reciprocal rank fusion: score = Σ 1 / (k + rank)
+ *
+ * relevanceScore is the fused score relative to a chunk ranked first by every
+ * ranker that returned results; with a single ranker its own score passes through.
+ */
+export function reciprocalRankFusion(rankings: Ranking[], k: number = DEFAULT_RRF_K): SearchResult[] {
+  const fused = new Map<string, { chunk: Chunk; fused: number; components: ComponentScore[]; matchedTerms: Set<string> }>();
+
+  for (const { ranker, results } of rankings) {
+    results.forEach((result, index) => {
+      const rank = index + 1;
+      let entry = fused.get(result.chunk.id);
+      if (!entry) {
+        entry = { chunk: result.chunk, fused: 0, components: [], matchedTerms: new Set() };
+        fused.set(result.chunk.id, entry);
+      }
+
+      entry.fused += 1 / (k + rank);
+      entry.components.push({ ranker, rank, score: result.relevanceScore });
+      result.matchedTerms.forEach(term => entry!.matchedTerms.add(term));
+    });
+  }
+
+  const contributing = rankings.filter(ranking => ranking.results.length > 0).length;
+  const bestPossible = contributing / (k + 1);
+
+  return Array.from(fused.values())
+    .sort((a, b) => b.fused - a.fused)
+    .map(entry => ({
+      chunk: entry.chunk,
+      relevanceScore: contributing === 1 ? entry.components[0].score : Math.min(1.0, entry.fused / bestPossible),
+      matchedTerms: Array.from(entry.matchedTerms),
+      scores: {
+        fused: entry.fused,
+        components: entry.components,
+      },
+    }));
+}
+
+/**
+ * HybridRetriever - Runs several rankers in parallel and fuses their results
+ *
+ * Pipeline:
+ * 1. Every ranker returns up to candidatesPerRanker results (failures are skipped,
+ *    unless every ranker fails, then the first error is thrown)
+ * 2. Reciprocal rank fusion merges the rankings
+ * 3. An optional reranker re-scores the top rerankTopN fused candidates
+ */
+export class HybridRetriever implements Retriever {
+  readonly name = 'hybrid';
+  private topK: number;
+  private candidatesPerRanker: number;
+  private rrfK: number;
+  private rerankTopN: number;
+
+  constructor(private rankers: Retriever[], config?: HybridConfig, private reranker?: Reranker | null) {
+    this.topK = config?.topK || 5;
+    this.candidatesPerRanker = config?.candidatesPerRanker || 20;
+    this.rrfK = config?.rrfK || DEFAULT_RRF_K;
+    this.rerankTopN = config?.rerankTopN || 10;
+  }
+
+  async search(query: string, limit: number = this.topK, filter?: SearchFilter): Promise<SearchResult[]> {
+    if (!query || query.trim().length === 0) {
+      return [];
+    }
+
+    const settled = await Promise.allSettled(
+      this.rankers.map(ranker => Promise.resolve().then(() => ranker.search(query, this.candidatesPerRanker, filter)))
+    );
+
+    const rankings: Ranking[] = [];
+    settled.forEach((outcome, i) => {
+      if (outcome.status === 'fulfilled') {
+        // External rankers may not support filters
+        const results = outcome.value.filter(result => matchesFilter(result.chunk.metadata, filter));
+        rankings.push({ ranker: this.rankers[i].name, results });
+      } else {
+        logger.warn(`⚠️  [Hybrid] Ranker "${this.rankers[i].name}" failed:`, outcome.reason);
+      }
+    });
+
+    if (rankings.length === 0 && settled.length > 0) {
+      throw (settled[0] as PromiseRejectedResult).reason;
+    }
+
+    let results = reciprocalRankFusion(rankings, this.rrfK);
+
+    if (this.reranker && results.length > 0) {
+      try {
+        const head = await this.reranker.rerank(query, results.slice(0, this.rerankTopN));
+        results = head.concat(results.slice(this.rerankTopN));
+      } catch (error) {
+        logger.warn(`⚠️  [Hybrid] Reranker "${this.reranker.name}" failed, keeping fused order:`, error);
+      }
+    }
+
+    return results.slice(0, limit);
+  }
+}
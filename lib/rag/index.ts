@@ -1,8 +1,131 @@
-import { loadDocuments, Document } from './pdf-loader';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  PDFLoader,
+  Document,
+  DocumentFile,
+  DocumentFormat,
+  FileIngestionReport,
+  METADATA_SIDECAR_SUFFIX,
+} from './pdf-loader';
+import { RTLRepairReport } from './rtl-repair';
 import { chunkDocuments, Chunk } from './chunker';
-import { createRetriever, DocumentRetriever, formatSearchResults } from './retriever';
+import {
+  createRetriever,
+  restoreRetriever,
+  DocumentRetriever,
+  RetrieverConfig,
+  formatSearchResults,
+  Retriever,
+  SearchResult,
+} from './retriever';
+import { VectorRetriever } from './vector-retriever';
+import { FuzzyRetriever, createFuzzyRetriever } from './fuzzy-retriever';
+import { HybridRetriever } from './hybrid';
+import { DuplicateIndex, createDuplicateIndex, diversifyResults } from './dedup';
+import { Reranker, createReranker } from './rerankers';
+import { SerializedVectorStore } from './vector-store';
+import { createEmbedder } from './embeddings';
+import { LoadedRAGConfig, RAGConfig, loadRAGConfig, validateRAGConfig } from './config';
+import {
+  DocumentMetadata,
+  FILTER_FIELDS,
+  FilterField,
+  SearchFilter,
+  describeFilter,
+  isEmptyFilter,
+  matchesFilter,
+} from './metadata';
+import { VersionGroup, assignPolicyVersions } from './versions';
+import {
+  IndexSnapshot,
+  SNAPSHOT_VERSION,
+  readSnapshot,
+  writeSnapshot,
+  snapshotMatchesFiles,
+} from './snapshot';
 import { logger } from '@/utils/logger';
 
+/**
+ * Summary of an incremental refresh
+ */
+export interface RefreshSummary {
+  added: string[];
+  changed: string[];
+  removed: string[];
+  failed: string[];
+  unchanged: number;
+}
+
+/**
+ * Indexed document with its chunk count
+ */
+export interface IndexedDocument {
+  id: string;
+  filename: string;
+  format?: DocumentFormat;
+  characters: number;
+  pageCount?: number;
+  chunkCount: number;
+  contentHash?: string;
+  extractedAt?: string;
+  metadata?: DocumentMetadata;
+  rtlRepair?: RTLRepairReport;
+}
+
+/**
+ * File written to the documents directory through the admin API
+ */
+export interface DocumentUpload {
+  filename: string;
+  content: Buffer;
+}
+
+/**
+ * Outcome of writing or deleting one document file
+ * - rejected: not written (invalid name, type or size, or the file already exists)
+ * - missing: the file to replace or delete does not exist
+ * - failed: written, but no text could be extracted
+ */
+export interface DocumentChangeResult {
+  filename: string;
+  status: 'indexed' | 'failed' | 'rejected' | 'missing' | 'deleted';
+  error?: string;
+  document?: IndexedDocument;
+  report?: FileIngestionReport; // extraction diagnostics of written files
+}
+
+/**
+ * Ingestion diagnostics of the knowledge base
+ * - documents: real files are indexed
+ * - mock: no file loaded and loader.mockFallback served the sample documents
+ * - empty: nothing is indexed
+ */
+export interface IngestionReport {
+  mode: 'documents' | 'mock' | 'empty';
+  mockFallback: boolean;
+  totals: { files: number; loaded: number; rejected: number; failed: number; chunks: number };
+  files: Array<FileIngestionReport & { chunks: number }>;
+}
+
+// Wait for editors to finish writing before re-indexing
+const WATCH_DEBOUNCE_MS = 500;
+
+/**
+ * Everything a full build or snapshot restore produces, swapped in at once
+ */
+interface IndexState {
+  documents: Document[];
+  chunks: Chunk[];
+  versionGroups: VersionGroup[];
+  ingestion: Map<string, FileIngestionReport>;
+  fileHashes: Map<string, string>;
+  retriever: DocumentRetriever;
+  fuzzyRetriever: FuzzyRetriever | null;
+  duplicateIndex: DuplicateIndex | null;
+  vectorRetriever: VectorRetriever | null;
+}
+
 // Global singleton for serverless environments
 declare global {
   var ragManager: RAGManager | undefined;
@@ -11,29 +134,90 @@ declare global {
 /**
  * RAGManager - Orchestrates PDF loading, chunking, and retrieval
  * Singleton pattern - initializes once on first use
+ *
+ * Keeps a content hash per source file so refresh() only re-chunks and
+ * re-indexes documents that were added, changed or removed.
+ * In development, a directory watcher triggers refresh() automatically.
+ *
+ * The built index is persisted as a snapshot (see snapshot.ts) and restored
+ * on cold start when the source file hashes still match.
+ *
+ * In vector and hybrid retrieval modes, chunks are also embedded and searched
+ * by cosine similarity. Every search runs through HybridRetriever, so results
+ * carry fused and per-ranker scores; if all rankers fail, search falls back to BM25.
+ * External rankers can be added with registerRanker().
+ *
+ * Documents with the same policy are versions of it; searches only see the
+ * version in effect today, or on the filter's asOf date.
  */
 export class RAGManager {
+  private loader: PDFLoader;
   private retriever: DocumentRetriever | null = null;
+  private vectorRetriever: VectorRetriever | null = null;
+  private fuzzyRetriever: FuzzyRetriever | null = null;
+  private duplicateIndex: DuplicateIndex | null = null;
+  private externalRankers: Map<string, Retriever> = new Map();
+  private reranker: Reranker | null = null;
   private documents: Document[] = [];
   private chunks: Chunk[] = [];
+  private versionGroups: VersionGroup[] = [];
+  private ingestion: Map<string, FileIngestionReport> = new Map(); // filename -> last extraction report
+  private fileHashes: Map<string, string> = new Map(); // filename -> sha256 of last processed version
+  private refreshPromise: Promise<RefreshSummary> | null = null;
+  private initializePromise: Promise<void> | null = null;
+  private indexLock: Promise<unknown> = Promise.resolve(); // refreshes and rebuilds run one at a time
+  private watcher: fs.FSWatcher | null = null;
+  private watchTimer: NodeJS.Timeout | null = null;
   private initialized = false;
 
-  private constructor() {}
+  private config: RAGConfig;
+
+  private constructor(private loadedConfig: LoadedRAGConfig) {
+    this.config = loadedConfig.config;
+    this.loader = new PDFLoader(this.config.loader);
+
+    if (this.config.reranker) {
+      try {
+        this.reranker = createReranker(this.config.reranker);
+      } catch (error) {
+        logger.error('❌ [RAG] Invalid reranker configuration, reranking disabled:', error);
+      }
+    }
+  }
 
   /**
    * Get or create singleton instance (using global for serverless)
+   * The configuration only applies when the instance is first created; without
+   * one, it is loaded from rag.config.json and the environment (see config.ts).
+   * Throws if the configuration is invalid.
    */
-  static getInstance(): RAGManager {
+  static getInstance(config?: RAGConfig): RAGManager {
     if (!global.ragManager) {
-      global.ragManager = new RAGManager();
+      global.ragManager = new RAGManager(config ? RAGManager.checkConfig(config) : loadRAGConfig());
     }
     return global.ragManager;
   }
 
+  private static checkConfig(config: RAGConfig): LoadedRAGConfig {
+    const errors = validateRAGConfig(config);
+    if (errors.length > 0) {
+      throw new Error(`Invalid RAG configuration:\n  - ${errors.join('\n  - ')}`);
+    }
+    return { config, configFile: null, envOverrides: [] };
+  }
+
+  /**
+   * Resolved configuration and where it came from (read-only)
+   */
+  getConfig(): Readonly<LoadedRAGConfig> {
+    return this.loadedConfig;
+  }
+
   /**
    * Initialize RAG system
    * Loads PDFs, creates chunks, and builds retriever index
-   * Safe to call multiple times - only initializes once
+   * Safe to call multiple times - only initializes once; concurrent calls share
+   * the same in-flight initialization
    */
   async initialize(): Promise<void> {
     if (this.initialized) {
@@ -41,49 +225,285 @@ export class RAGManager {
       return;
     }
 
+    if (!this.initializePromise) {
+      this.initializePromise = this.runExclusive(() => this.loadIndex()).finally(() => {
+        this.initializePromise = null;
+      });
+    }
+    return this.initializePromise;
+  }
+
+  /**
+   * Restore the snapshot or build the index, then start watching (development)
+   * Runs under indexLock; skips when an earlier queued call already initialized
+   */
+  private async loadIndex(): Promise<void> {
+    if (this.initialized) {
+      return;
+    }
+
     try {
       logger.log('\n🚀 [RAG] Initializing RAG system...\n');
 
-      // Load documents
-      this.documents = await loadDocuments();
-      logger.log(`\n📚 [RAG] Loaded ${this.documents.length} document(s):`);
-      this.documents.forEach(doc => {
-        logger.log(`   - ${doc.filename}: ${doc.text.length} chars`);
-      });
+      const files = this.loader.listDocumentFiles();
+      const snapshot = readSnapshot(this.config.snapshot.path);
 
-      // Chunk documents
-      this.chunks = chunkDocuments(this.documents);
-      logger.log(`\n📊 [RAG] Total chunks created: ${this.chunks.length}`);
-      
-      // Log key content verification
-      const noticeChunks = this.chunks.filter(c => c.content.toLowerCase().includes('שבועיים') || c.content.toLowerCase().includes('weeks'));
-      if (noticeChunks.length > 0) {
-        logger.log(`✅ [RAG] Found ${noticeChunks.length} chunks containing notice period info`);
-        noticeChunks.forEach(chunk => {
-          const preview = chunk.content.substring(0, 80).replace(/\n/g, ' ');
-          logger.log(`    → "${preview}..."`);
-        });
+      if (snapshot && snapshotMatchesFiles(snapshot, files, this.config.chunker)) {
+        const { state, embedded } = await this.restoreSnapshot(snapshot);
+        this.applyIndexState(state);
+        if (embedded > 0) {
+          this.saveSnapshot();
+        }
       } else {
-        logger.warn(`⚠️  [RAG] No chunks found with notice period ("שבועיים" or "weeks")`);
+        this.applyIndexState(await this.buildIndex(files));
+        this.saveSnapshot();
       }
 
-      // Initialize retriever
-      this.retriever = createRetriever(this.chunks, {
-        topK: 5,
-        relevanceThreshold: 0.1,
-      });
-
-      const stats = this.retriever.getStats();
+      const stats = this.retriever!.getStats();
       logger.log(`\n📊 [RAG] System initialized - ${stats.uniqueTerms} terms, ${stats.totalChunks} chunks`);
+      if (this.isUsingMockDocuments()) {
+        logger.warn('⚠️  [RAG] Serving MOCK documents, not the knowledge base (loader.mockFallback)');
+      } else if (this.documents.length === 0) {
+        logger.error('🚨 [RAG] No documents indexed, searches will return nothing (see /api/rag/ingestion)');
+      }
       logger.log('✅ [RAG] Ready for queries\n');
 
       this.initialized = true;
+
+      if (process.env.NODE_ENV === 'development') {
+        this.startWatching();
+      }
     } catch (error) {
       logger.error('\n❌ [RAG] Failed to initialize:', error);
       throw error;
     }
   }
 
+  /**
+   * Load documents, chunk them and build the retriever index from scratch
+   * The current index is not touched; apply the result with applyIndexState()
+   */
+  private async buildIndex(files: DocumentFile[]): Promise<IndexState> {
+    // Load documents
+    const { documents, reports, usingMockDocuments } = await this.loader.loadAll();
+    logger.log(`\n📚 [RAG] Loaded ${documents.length} document(s):`);
+    documents.forEach(doc => {
+      const rtlNote = doc.rtlRepair?.flippedLines
+        ? ` (${doc.rtlRepair.flippedLines}/${doc.rtlRepair.hebrewLines} Hebrew lines re-ordered)`
+        : '';
+      logger.log(`   - ${doc.filename}: ${doc.text.length} chars${rtlNote}`);
+    });
+
+    // Chunk documents
+    const chunks = chunkDocuments(documents, this.config.chunker);
+    logger.log(`\n📊 [RAG] Total chunks created: ${chunks.length}`);
+    
+    // Log key content verification
+    const noticeChunks = chunks.filter(c => c.content.toLowerCase().includes('שבועיים') || c.content.toLowerCase().includes('weeks'));
+    if (noticeChunks.length > 0) {
+      logger.log(`✅ [RAG] Found ${noticeChunks.length} chunks containing notice period info`);
+      noticeChunks.forEach(chunk => {
+        const preview = chunk.content.substring(0, 80).replace(/\n/g, ' ');
+        logger.log(`    → "${preview}..."`);
+      });
+    } else {
+      logger.warn(`⚠️  [RAG] No chunks found with notice period ("שבועיים" or "weeks")`);
+    }
+
+    const versionGroups = this.groupPolicyVersions(documents, chunks);
+
+    // Initialize retriever
+    const retriever = createRetriever(chunks, this.getRetrieverConfig('bm25'));
+    const { retriever: vectorRetriever } = await this.buildVectorIndex(chunks);
+
+    return {
+      documents,
+      chunks,
+      versionGroups,
+      ingestion: new Map(reports.map(report => [report.filename, report])),
+      fileHashes: new Map(usingMockDocuments ? [] : files.map(file => [file.filename, file.contentHash])),
+      retriever,
+      fuzzyRetriever: this.buildFuzzyIndex(chunks),
+      duplicateIndex: this.buildDuplicateIndex(chunks),
+      vectorRetriever,
+    };
+  }
+
+  /**
+   * Restore documents, chunks and index from a snapshot
+   * Also returns the number of chunks that had to be embedded (missing or stale vectors)
+   */
+  private async restoreSnapshot(snapshot: IndexSnapshot): Promise<{ state: IndexState; embedded: number }> {
+    const { documents, chunks } = snapshot;
+    logger.log(
+      `⚡ [RAG] Restored snapshot from ${snapshot.createdAt}: ` +
+      `${documents.length} document(s), ${chunks.length} chunks`
+    );
+    const retriever = restoreRetriever(chunks, snapshot.index, this.getRetrieverConfig('bm25'));
+    const versionGroups = this.groupPolicyVersions(documents, chunks);
+    const { retriever: vectorRetriever, embedded } = await this.buildVectorIndex(chunks, snapshot.vectors);
+
+    const state: IndexState = {
+      documents,
+      chunks,
+      versionGroups,
+      ingestion: new Map((snapshot.ingestion ?? []).map(report => [report.filename, report])),
+      fileHashes: new Map(Object.entries(snapshot.fileHashes)),
+      retriever,
+      fuzzyRetriever: this.buildFuzzyIndex(chunks),
+      duplicateIndex: this.buildDuplicateIndex(chunks),
+      vectorRetriever,
+    };
+    return { state, embedded };
+  }
+
+  /**
+   * Swap in a built or restored index synchronously, so searches never see a partial one
+   */
+  private applyIndexState(state: IndexState): void {
+    this.documents = state.documents;
+    this.chunks = state.chunks;
+    this.versionGroups = state.versionGroups;
+    this.ingestion = state.ingestion;
+    this.fileHashes = state.fileHashes;
+    this.retriever = state.retriever;
+    this.fuzzyRetriever = state.fuzzyRetriever;
+    this.duplicateIndex = state.duplicateIndex;
+    this.vectorRetriever = state.vectorRetriever;
+  }
+
+  /**
+   * Group policy versions and mark superseded ones on documents and chunks
+   */
+  private groupPolicyVersions(documents: Document[], chunks: Chunk[]): VersionGroup[] {
+    const versionGroups = assignPolicyVersions(documents, chunks);
+
+    versionGroups
+      .filter(group => group.versions.length > 1)
+      .forEach(group => {
+        const versions = group.versions.map(version => `${version.filename} (${version.effectiveDate ?? 'undated'})`);
+        logger.log(`🗂️  [RAG] Policy "${group.policy}": ${versions.join(' → ')}`);
+      });
+    return versionGroups;
+  }
+
+  /**
+   * Build the character n-gram index (hybrid mode only, not persisted)
+   */
+  private buildFuzzyIndex(chunks: Chunk[]): FuzzyRetriever | null {
+    return this.config.retriever.mode === 'hybrid'
+      ? createFuzzyRetriever(chunks, this.getRetrieverConfig('fuzzy'))
+      : null;
+  }
+
+  /**
+   * Group near-duplicate chunks for result diversity (not persisted)
+   */
+  private buildDuplicateIndex(chunks: Chunk[]): DuplicateIndex | null {
+    const { diversity } = this.config.retriever;
+    const duplicateIndex = diversity.enabled
+      ? createDuplicateIndex(chunks, { threshold: diversity.duplicateThreshold })
+      : null;
+
+    const stats = duplicateIndex?.getStats();
+    if (stats?.duplicateGroups) {
+      logger.log(`🧬 [RAG] ${stats.duplicateChunks} chunks in ${stats.duplicateGroups} near-duplicate group(s)`);
+    }
+    return duplicateIndex;
+  }
+
+  /**
+   * Embed chunks for vector retrieval (vector and hybrid modes)
+   * Reuses stored vectors from the same embedder; on failure search stays on BM25
+   * Returns the retriever (null without one) and the number of newly embedded chunks
+   */
+  private async buildVectorIndex(
+    chunks: Chunk[],
+    stored?: SerializedVectorStore
+  ): Promise<{ retriever: VectorRetriever | null; embedded: number }> {
+    if (this.config.retriever.mode === 'bm25') {
+      return { retriever: null, embedded: 0 };
+    }
+
+    try {
+      const retriever = new VectorRetriever(createEmbedder(this.config.embedder), this.getRetrieverConfig('vector'));
+      const embedded = await retriever.initialize(chunks, stored);
+
+      const stats = retriever.getStats();
+      logger.log(`🧭 [RAG] Vector index ready (${stats.embedder}): ${stats.embeddedChunks} chunks, ${embedded} newly embedded`);
+      if (!stats.semanticEmbedder) {
+        logger.warn('⚠️  [RAG] The lexical embedder matches words, not meaning; set RAG_EMBEDDER=http for semantic search');
+      }
+      return { retriever, embedded };
+    } catch (error) {
+      logger.error('❌ [RAG] Failed to build vector index, using BM25:', error);
+      return { retriever: null, embedded: 0 };
+    }
+  }
+
+  /**
+   * Retriever settings for one ranker, thresholds differ per scoring scale
+   */
+  private getRetrieverConfig(ranker: 'bm25' | 'vector' | 'fuzzy'): RetrieverConfig {
+    const { topK, minChunkLength, relevanceThreshold } = this.config.retriever;
+    return { topK, minChunkLength, relevanceThreshold: relevanceThreshold[ranker] };
+  }
+
+  /**
+   * Persist the current index as a snapshot
+   * Mock data is never persisted
+   */
+  saveSnapshot(): boolean {
+    if (!this.retriever || this.fileHashes.size === 0) {
+      logger.log('ℹ️  [RAG] No source files indexed, skipping snapshot');
+      return false;
+    }
+
+    const snapshotPath = this.config.snapshot.path;
+    const written = writeSnapshot(snapshotPath, {
+      version: SNAPSHOT_VERSION,
+      createdAt: new Date().toISOString(),
+      fileHashes: Object.fromEntries(this.fileHashes),
+      chunking: this.config.chunker,
+      documents: this.documents,
+      chunks: this.chunks,
+      index: this.retriever.exportIndex(),
+      vectors: this.vectorRetriever?.exportVectors(),
+      ingestion: Array.from(this.ingestion.values()),
+    });
+
+    if (written) {
+      logger.log(`💾 [RAG] Snapshot written to ${snapshotPath}`);
+    }
+    return written;
+  }
+
+  /**
+   * Rebuild the index from source files, ignoring any snapshot, and persist it
+   * Used by the deploy-time prebuild script and full re-indexing. Searches keep
+   * using the previous index until the new one is swapped in; refreshes wait.
+   */
+  async rebuildSnapshot(): Promise<boolean> {
+    return this.runExclusive(async () => {
+      this.applyIndexState(await this.buildIndex(this.loader.listDocumentFiles()));
+      this.initialized = true;
+
+      if (process.env.NODE_ENV === 'development') {
+        this.startWatching();
+      }
+      return this.saveSnapshot();
+    });
+  }
+
+  /**
+   * Run an index update after the ones already queued (refreshes and rebuilds)
+   */
+  private runExclusive<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.indexLock.then(task);
+    this.indexLock = run.catch(() => undefined);
+    return run;
+  }
+
   /**
    * Ensure RAG is initialized
    */
@@ -104,21 +524,102 @@ export class RAGManager {
       return 'RAG system not initialized';
     }
 
-    const results = this.retriever.search(query);
+    const results = await this.runSearch(query);
     return formatSearchResults(results);
   }
 
   /**
    * Get raw search results
+   * limit defaults to retriever.topK; filter restricts results by document metadata
+   * and filter.asOf picks the policy versions in effect on that date (default: today)
    */
-  async searchRaw(query: string) {
+  async searchRaw(query: string, limit?: number, filter?: SearchFilter) {
     await this.ensureInitialized();
 
     if (!this.retriever) {
       return [];
     }
 
-    return this.retriever.search(query);
+    return this.runSearch(query, limit, filter);
+  }
+
+  /**
+   * Search with the rankers of the configured retrieval mode, fused and reranked
+   * If every ranker fails (e.g. embedding service down), plain BM25 is used
+   * With diversity on, a larger pool is fetched, near-duplicates are folded into
+   * one result and MMR picks the final results
+   */
+  private async runSearch(
+    query: string,
+    limit: number = this.config.retriever.topK,
+    filter?: SearchFilter
+  ): Promise<SearchResult[]> {
+    if (!isEmptyFilter(filter)) {
+      logger.log(`🏷️  [RAG] Filtering by ${describeFilter(filter)}`);
+    }
+    const effectiveFilter: SearchFilter = { ...filter, asOf: filter?.asOf || new Date().toISOString().slice(0, 10) };
+
+    const { topK, fusion, diversity } = this.config.retriever;
+    const duplicateIndex = this.duplicateIndex;
+    const poolSize = duplicateIndex ? Math.max(limit, Math.min(limit * 3, fusion.candidatesPerRanker)) : limit;
+    const pipeline = new HybridRetriever(
+      this.getRankers(),
+      { topK, ...fusion, candidatesPerRanker: Math.max(fusion.candidatesPerRanker, poolSize) },
+      this.reranker
+    );
+
+    let results: SearchResult[];
+    try {
+      results = await pipeline.search(query, poolSize, effectiveFilter);
+    } catch (error) {
+      logger.error('❌ [RAG] Search failed, using BM25:', error);
+      results = this.retriever!.search(query, poolSize, effectiveFilter);
+    }
+
+    if (!duplicateIndex) {
+      return results;
+    }
+    return diversifyResults(results, limit, duplicateIndex, diversity.mmrLambda, chunk =>
+      matchesFilter(chunk.metadata, effectiveFilter)
+    );
+  }
+
+  /**
+   * Rankers used by search(), in priority order
+   */
+  private getRankers(): Retriever[] {
+    const rankers: Array<Retriever | null> = [];
+
+    switch (this.config.retriever.mode) {
+      case 'bm25':
+        rankers.push(this.retriever);
+        break;
+      case 'vector':
+        rankers.push(this.vectorRetriever ?? this.retriever);
+        break;
+      case 'hybrid':
+        rankers.push(this.retriever, this.fuzzyRetriever, this.vectorRetriever);
+        break;
+    }
+
+    return rankers
+      .filter((ranker): ranker is Retriever => ranker !== null)
+      .concat(Array.from(this.externalRankers.values()));
+  }
+
+  /**
+   * Add an externally supplied ranker to every search (replaces one with the same name)
+   */
+  registerRanker(ranker: Retriever): void {
+    this.externalRankers.set(ranker.name, ranker);
+    logger.log(`➕ [RAG] Registered ranker "${ranker.name}"`);
+  }
+
+  /**
+   * Remove an external ranker
+   */
+  unregisterRanker(name: string): boolean {
+    return this.externalRankers.delete(name);
   }
 
   /**
@@ -155,18 +656,403 @@ ${context}`;
    */
   async getStats() {
     await this.ensureInitialized();
-    return this.retriever?.getStats() || { totalChunks: 0 };
+
+    if (!this.retriever) {
+      return { totalChunks: 0 };
+    }
+
+    return {
+      ...this.retriever.getStats(),
+      retrieval: this.config.retriever.mode,
+      rankers: this.getRankers().map(ranker => ranker.name),
+      reranker: this.reranker?.name ?? null,
+      ...(this.vectorRetriever?.getStats() ?? {}),
+      ...(this.duplicateIndex?.getStats() ?? {}),
+      metadataValues: this.getMetadataValues(),
+      versionGroups: this.versionGroups,
+      usingMockDocuments: this.isUsingMockDocuments(),
+    };
+  }
+
+  /**
+   * Mock documents have no source file, so no content hash
+   */
+  private isUsingMockDocuments(): boolean {
+    return this.documents.some(doc => !doc.contentHash);
+  }
+
+  /**
+   * Per-file extraction diagnostics with the chunks each indexed file produced
+   */
+  async getIngestionReport(): Promise<IngestionReport> {
+    await this.ensureInitialized();
+
+    const chunkCounts = new Map<string, number>();
+    this.chunks.forEach(chunk => chunkCounts.set(chunk.documentName, (chunkCounts.get(chunk.documentName) ?? 0) + 1));
+
+    const files = Array.from(this.ingestion.values())
+      .sort((a, b) => a.filename.localeCompare(b.filename))
+      .map(report => ({ ...report, chunks: report.status === 'loaded' ? chunkCounts.get(report.filename) ?? 0 : 0 }));
+    const count = (status: FileIngestionReport['status']) => files.filter(file => file.status === status).length;
+    const { mockFallback } = this.config.loader;
+
+    return {
+      mode: this.isUsingMockDocuments() ? 'mock' : this.documents.length > 0 ? 'documents' : 'empty',
+      mockFallback,
+      totals: {
+        files: files.length,
+        loaded: count('loaded'),
+        rejected: count('rejected'),
+        failed: count('failed'),
+        chunks: this.chunks.length,
+      },
+      files,
+    };
+  }
+
+  /**
+   * Distinct metadata values per filterable field, across all documents
+   */
+  private getMetadataValues(): Partial<Record<FilterField, string[]>> {
+    const values: Partial<Record<FilterField, string[]>> = {};
+    for (const field of FILTER_FIELDS) {
+      const distinct = new Set<string>();
+      for (const doc of this.documents) {
+        const value = doc.metadata?.[field];
+        ([] as string[]).concat(value ?? []).forEach(item => distinct.add(item));
+      }
+      if (distinct.size > 0) {
+        values[field] = Array.from(distinct).sort();
+      }
+    }
+    return values;
+  }
+
+  /**
+   * Detect added, changed and removed files and re-index only those documents
+   * Concurrent calls share the same in-flight refresh
+   */
+  async refresh(): Promise<RefreshSummary> {
+    await this.ensureInitialized();
+
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.runExclusive(() => this.applyFileChanges()).finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  /**
+   * Refresh after this process changed files, so a refresh already in flight
+   * (which may have listed the directory before the change) is not reused
+   */
+  private async refreshAfterWrite(): Promise<RefreshSummary> {
+    await this.refreshPromise?.catch(() => undefined);
+    return this.refresh();
+  }
+
+  /**
+   * Indexed document by id (call ensureInitialized() first)
+   */
+  getDocument(documentId: string): Document | undefined {
+    return this.documents.find(doc => doc.id === documentId);
+  }
+
+  /**
+   * Full text of a document with its chunks in order, null if it is not indexed
+   */
+  async getDocumentContent(documentId: string): Promise<{ document: Document; chunks: Chunk[] } | null> {
+    await this.ensureInitialized();
+
+    const document = this.getDocument(documentId);
+    if (!document) {
+      return null;
+    }
+    const chunks = this.chunks
+      .filter(chunk => chunk.documentId === documentId)
+      .sort((a, b) => a.chunkIndex - b.chunkIndex);
+    return { document, chunks };
+  }
+
+  /**
+   * Searchable chunks of a document in reading order (call ensureInitialized() first)
+   * Chunks below retriever.minChunkLength are not indexed and not included
+   */
+  getDocumentChunks(documentId: string): Chunk[] {
+    const chunks = this.retriever?.getChunksByDocument(documentId) ?? [];
+    return chunks.sort((a, b) => a.chunkIndex - b.chunkIndex);
+  }
+
+  /**
+   * Indexed documents with their chunk counts
+   */
+  async listDocuments(): Promise<IndexedDocument[]> {
+    await this.ensureInitialized();
+
+    const chunkCounts = new Map<string, number>();
+    this.chunks.forEach(chunk => chunkCounts.set(chunk.documentId, (chunkCounts.get(chunk.documentId) ?? 0) + 1));
+
+    return this.documents.map(doc => ({
+      id: doc.id,
+      filename: doc.filename,
+      format: doc.format,
+      characters: doc.text.length,
+      pageCount: doc.pageCount,
+      chunkCount: chunkCounts.get(doc.id) ?? 0,
+      contentHash: doc.contentHash,
+      extractedAt: doc.extractedAt,
+      metadata: doc.metadata,
+      rtlRepair: doc.rtlRepair,
+    }));
+  }
+
+  /**
+   * Write uploaded files to the documents directory and re-index them
+   * New files must not exist yet; with replace, they must already exist.
+   * Files are validated with the loader's type and size limits first.
+   */
+  async writeDocuments(
+    uploads: DocumentUpload[],
+    replace: boolean
+  ): Promise<{ results: DocumentChangeResult[]; refresh: RefreshSummary | null }> {
+    await this.ensureInitialized();
+
+    const dir = this.loader.getDocumentsDir();
+    const results: DocumentChangeResult[] = [];
+    const written: number[] = []; // positions in results, filled in after re-indexing
+
+    for (const upload of uploads) {
+      const error = this.loader.validateFile(upload.filename, upload.content.length);
+      const filePath = path.join(dir, upload.filename);
+      const exists = !error && fs.existsSync(filePath);
+
+      if (error || (exists && !replace)) {
+        results.push({
+          filename: upload.filename,
+          status: 'rejected',
+          error: error || `${upload.filename} already exists, replace it instead`,
+        });
+        continue;
+      }
+      if (!exists && replace) {
+        results.push({ filename: upload.filename, status: 'missing', error: `${upload.filename} does not exist` });
+        continue;
+      }
+
+      // Write next to the target and rename, so the watcher never sees a partial file
+      fs.mkdirSync(dir, { recursive: true });
+      fs.writeFileSync(`${filePath}.upload`, upload.content);
+      fs.renameSync(`${filePath}.upload`, filePath);
+      written.push(results.length);
+      results.push({ filename: upload.filename, status: 'indexed' });
+      logger.log(`📥 [RAG] ${replace ? 'Replaced' : 'Added'} ${upload.filename} (${upload.content.length} bytes)`);
+    }
+
+    if (written.length === 0) {
+      return { results, refresh: null };
+    }
+
+    const refresh = await this.refreshAfterWrite();
+    const documents = await this.listDocuments();
+
+    for (const position of written) {
+      const { filename } = results[position];
+      const document = documents.find(doc => doc.filename === filename);
+      const report = this.ingestion.get(filename);
+      results[position] = document && !refresh.failed.includes(filename)
+        ? { filename, status: 'indexed', document, report }
+        : { filename, status: 'failed', error: report?.reason ?? 'No text could be extracted', report };
+    }
+
+    return { results, refresh };
+  }
+
+  /**
+   * Delete a document file (and its metadata sidecar) and drop it from the index
+   * Only document files can be deleted, with the same name checks as uploads
+   */
+  async deleteDocument(filename: string): Promise<{ result: DocumentChangeResult; refresh: RefreshSummary | null }> {
+    await this.ensureInitialized();
+
+    const error = this.loader.validateFileName(filename);
+    if (error) {
+      return { result: { filename, status: 'rejected', error }, refresh: null };
+    }
+
+    const filePath = path.join(this.loader.getDocumentsDir(), filename);
+    if (!fs.existsSync(filePath) || !fs.statSync(filePath).isFile()) {
+      return { result: { filename, status: 'missing', error: `${filename} does not exist` }, refresh: null };
+    }
+
+    fs.unlinkSync(filePath);
+    if (fs.existsSync(`${filePath}${METADATA_SIDECAR_SUFFIX}`)) {
+      fs.unlinkSync(`${filePath}${METADATA_SIDECAR_SUFFIX}`);
+    }
+    logger.log(`🗑️  [RAG] Deleted ${filename}`);
+
+    return { result: { filename, status: 'deleted' }, refresh: await this.refreshAfterWrite() };
+  }
+
+  /**
+   * Diff the documents directory against known hashes and update the index
+   * Extraction and chunking happen before the index is touched, so searches
+   * keep using the previous version until the swap
+   */
+  private async applyFileChanges(): Promise<RefreshSummary> {
+    const summary: RefreshSummary = { added: [], changed: [], removed: [], failed: [], unchanged: 0 };
+    const files = this.loader.listDocumentFiles();
+
+    if (files.length === 0 && this.isUsingMockDocuments()) {
+      logger.warn('⚠️  [RAG] Refresh found no document files, keeping mock documents');
+      return summary;
+    }
+
+    const currentFiles = new Set(files.map(file => file.filename));
+    const loaded: Document[] = [];
+    const loadedFiles = new Map<string, { contentHash: string; report: FileIngestionReport }>(); // recorded once indexed
+
+    for (const file of files) {
+      const knownHash = this.fileHashes.get(file.filename);
+      if (knownHash === file.contentHash) {
+        summary.unchanged++;
+        continue;
+      }
+
+      const { document, report } = await this.loader.loadFile(file);
+
+      if (!document) {
+        // Extraction results are final for this version of the file
+        this.fileHashes.set(file.filename, file.contentHash);
+        this.ingestion.set(file.filename, report);
+        summary.failed.push(file.filename);
+        // A previously indexed version is stale now
+        if (knownHash) summary.removed.push(file.filename);
+        continue;
+      }
+
+      loaded.push(document);
+      loadedFiles.set(file.filename, { contentHash: file.contentHash, report });
+      (knownHash ? summary.changed : summary.added).push(file.filename);
+    }
+
+    // Files that failed to load earlier and are gone now
+    Array.from(this.fileHashes.keys())
+      .filter(filename => !currentFiles.has(filename) && !this.documents.some(doc => doc.filename === filename))
+      .forEach(filename => this.fileHashes.delete(filename));
+    Array.from(this.ingestion.keys())
+      .filter(filename => !currentFiles.has(filename))
+      .forEach(filename => this.ingestion.delete(filename));
+
+    // Files that disappeared, plus mock documents once real files exist
+    for (const doc of this.documents) {
+      if (!currentFiles.has(doc.filename) || !doc.contentHash) {
+        summary.removed.push(doc.filename);
+        this.fileHashes.delete(doc.filename);
+      }
+    }
+
+    if (loaded.length === 0 && summary.removed.length === 0) {
+      logger.log(`ℹ️  [RAG] Refresh: no changes (${summary.unchanged} unchanged)`);
+      return summary;
+    }
+
+    // Removals are keyed by source file; the indexes drop the ids of exactly these files
+    const affectedFiles = new Set([...summary.removed, ...loaded.map(doc => doc.filename)]);
+    const affectedIds = Array.from(
+      new Set(
+        this.documents
+          .filter(doc => affectedFiles.has(doc.filename))
+          .map(doc => doc.id)
+          .concat(loaded.map(doc => doc.id))
+      )
+    );
+    const newChunks = chunkDocuments(loaded, this.config.chunker);
+
+    let newVectors: number[][] = [];
+    if (this.vectorRetriever) {
+      try {
+        newVectors = await this.vectorRetriever.embedChunks(newChunks);
+      } catch (error) {
+        logger.error('❌ [RAG] Failed to embed changed documents, using BM25:', error);
+        this.vectorRetriever = null;
+      }
+    }
+
+    // Swap in the new state synchronously
+    this.documents = this.documents.filter(doc => !affectedFiles.has(doc.filename)).concat(loaded);
+    this.chunks = this.chunks.filter(chunk => !affectedFiles.has(chunk.documentName)).concat(newChunks);
+    this.retriever?.updateDocuments(affectedIds, newChunks);
+    this.fuzzyRetriever?.updateDocuments(affectedIds, newChunks);
+    this.duplicateIndex?.updateDocuments(affectedIds, newChunks);
+    this.vectorRetriever?.updateDocuments(affectedIds, newChunks, newVectors);
+    this.versionGroups = this.groupPolicyVersions(this.documents, this.chunks);
+
+    // Only now is the new version indexed; a failure above leaves it to be retried
+    loadedFiles.forEach(({ contentHash, report }, filename) => {
+      this.fileHashes.set(filename, contentHash);
+      this.ingestion.set(filename, report);
+    });
+    this.saveSnapshot();
+
+    logger.log(
+      `🔄 [RAG] Refresh: +${summary.added.length} added, ~${summary.changed.length} changed, ` +
+      `-${summary.removed.length} removed, ${summary.failed.length} failed, ${summary.unchanged} unchanged`
+    );
+    return summary;
+  }
+
+  /**
+   * Watch the documents directory and refresh on changes (development only)
+   */
+  startWatching(): void {
+    const dir = this.loader.getDocumentsDir();
+    if (this.watcher || !fs.existsSync(dir)) return;
+
+    try {
+      this.watcher = fs.watch(dir, () => {
+        if (this.watchTimer) clearTimeout(this.watchTimer);
+        this.watchTimer = setTimeout(() => {
+          this.watchTimer = null;
+          this.refresh().catch(error => logger.error('❌ [RAG] Refresh after file change failed:', error));
+        }, WATCH_DEBOUNCE_MS);
+      });
+      this.watcher.unref();
+      logger.log(`👀 [RAG] Watching ${dir} for changes`);
+    } catch (error) {
+      logger.warn('⚠️  [RAG] Could not watch documents directory:', error);
+    }
+  }
+
+  /**
+   * Stop the directory watcher
+   */
+  stopWatching(): void {
+    if (this.watchTimer) clearTimeout(this.watchTimer);
+    this.watchTimer = null;
+    this.watcher?.close();
+    this.watcher = null;
   }
 
   /**
    * Clear cache and reinitialize
+   * Waits for refreshes and rebuilds in flight; later ones wait for the reset
    */
   async reset(): Promise<void> {
-    this.retriever = null;
-    this.documents = [];
-    this.chunks = [];
-    this.initialized = false;
-    await this.initialize();
+    return this.runExclusive(async () => {
+      this.stopWatching();
+      this.retriever = null;
+      this.vectorRetriever = null;
+      this.fuzzyRetriever = null;
+      this.duplicateIndex = null;
+      this.documents = [];
+      this.chunks = [];
+      this.versionGroups = [];
+      this.ingestion = new Map();
+      this.fileHashes = new Map();
+      this.initialized = false;
+      await this.loadIndex();
+    });
   }
 }
 
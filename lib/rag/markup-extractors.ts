@@ -0,0 +1,220 @@
+import { ZipReader } from './zip-reader';
+
+/**
+ * Markup extractors - Convert DOCX, HTML and Markdown into plain text
+ *
+ * All extractors emit the same structure the chunker understands:
+ * - Headings become their own paragraph, prefixed with "#" per level ("## Leave")
+ * - Paragraphs are separated by blank lines, list items start with "- "
+ */
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  ndash: '–', mdash: '—', hellip: '…', laquo: '«', raquo: '»',
+  lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', bull: '•',
+  copy: '©', reg: '®', trade: '™', euro: '€', shy: '',
+  lrm: '', rlm: '', zwj: '', zwnj: '',
+};
+
+/**
+ * Decode XML/HTML character references
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|[a-zA-Z]+);/g, (match, entity: string) => {
+    if (entity.startsWith('#x') || entity.startsWith('#X')) {
+      return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    }
+    if (entity.startsWith('#')) {
+      return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    }
+    return NAMED_ENTITIES[entity] ?? match;
+  });
+}
+
+function formatHeading(level: number, text: string): string {
+  const clamped = Math.min(Math.max(level, 1), 6);
+  return `\n${'#'.repeat(clamped)} ${text.trim()}\n`;
+}
+
+function collapseBlankLines(text: string): string {
+  return text
+    .split('\n')
+    .map(line => line.replace(/[ \t]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Heading level for a Word paragraph style, resolved from word/styles.xml
+ * Handles English style names ("heading 1", "Title") and localized styles via outline level
+ */
+function readDocxHeadingStyles(stylesXml: string | null): Map<string, number> {
+  const headingStyles = new Map<string, number>();
+  if (!stylesXml) return headingStyles;
+
+  const stylePattern = /<w:style\b[^>]*w:styleId="([^"]+)"[^>]*>([\s\S]*?)<\/w:style>/g;
+  let match: RegExpExecArray | null;
+  while ((match = stylePattern.exec(stylesXml)) !== null) {
+    const [, styleId, body] = match;
+    const name = body.match(/<w:name\s+w:val="([^"]+)"/)?.[1] ?? '';
+    const outline = body.match(/<w:outlineLvl\s+w:val="(\d+)"/)?.[1];
+    const headingName = name.match(/^heading\s*(\d)$/i);
+
+    if (headingName) {
+      headingStyles.set(styleId, parseInt(headingName[1], 10));
+    } else if (/^title$/i.test(name)) {
+      headingStyles.set(styleId, 1);
+    } else if (outline !== undefined) {
+      headingStyles.set(styleId, parseInt(outline, 10) + 1);
+    }
+  }
+
+  return headingStyles;
+}
+
+/**
+ * Extract text from a DOCX file (word/document.xml inside the ZIP container)
+ */
+export function extractDocxText(buffer: Buffer): string {
+  const zip = new ZipReader(buffer);
+  const documentXml = zip.readText('word/document.xml');
+  if (!documentXml) {
+    throw new Error('word/document.xml not found in DOCX archive');
+  }
+
+  const headingStyles = readDocxHeadingStyles(zip.readText('word/styles.xml'));
+  const body = documentXml.match(/<w:body>([\s\S]*)<\/w:body>/)?.[1] ?? documentXml;
+  const blocks: string[] = [];
+
+  const paragraphPattern = /<w:p\b[^>]*?(?:\/>|>([\s\S]*?)<\/w:p>)/g;
+  let match: RegExpExecArray | null;
+  while ((match = paragraphPattern.exec(body)) !== null) {
+    const paragraph = match[1] ?? '';
+
+    const text = decodeEntities(
+      paragraph
+        .replace(/<w:tab\b[^>]*\/>/g, '\t')
+        .replace(/<w:(?:br|cr)\b[^>]*\/>/g, '\n')
+        .replace(/<w:delText\b[^>]*>[\s\S]*?<\/w:delText>/g, '') // tracked deletions
+        .replace(/<w:instrText\b[^>]*>[\s\S]*?<\/w:instrText>/g, '') // field codes
+        .replace(/<w:t\b[^>]*>([\s\S]*?)<\/w:t>/g, '\u0000$1\u0000')
+        .split('\u0000')
+        .filter((_, i) => i % 2 === 1)
+        .join('')
+    );
+
+    if (text.trim().length === 0) {
+      blocks.push('');
+      continue;
+    }
+
+    const styleId = paragraph.match(/<w:pStyle\s+w:val="([^"]+)"/)?.[1];
+    const outline = paragraph.match(/<w:outlineLvl\s+w:val="(\d+)"/)?.[1];
+    const styleLevel = styleId ? headingStyles.get(styleId) : undefined;
+    const level = styleLevel ?? (outline !== undefined ? parseInt(outline, 10) + 1 : 0);
+
+    if (level > 0) {
+      blocks.push(formatHeading(level, text));
+    } else if (/<w:numPr>/.test(paragraph)) {
+      blocks.push(`- ${text.trim()}`);
+    } else {
+      blocks.push(text.trim());
+    }
+  }
+
+  return collapseBlankLines(blocks.join('\n'));
+}
+
+/**
+ * Extract text from HTML (e.g. Confluence page exports)
+ */
+export function extractHtmlText(html: string): string {
+  const body = html.match(/<body\b[^>]*>([\s\S]*)<\/body>/i)?.[1] ?? html;
+
+  const text = body
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style|noscript|template|svg|nav|header|footer)\b[\s\S]*?<\/\1>/gi, '')
+    .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level: string, inner: string) =>
+      formatHeading(parseInt(level, 10), inner.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' '))
+    )
+    .replace(/<li\b[^>]*>/gi, '\n- ')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(td|th)>/gi, ' | ')
+    .replace(/<\/?(p|div|section|article|table|tr|ul|ol|blockquote|pre|dl|dt|dd)\b[^>]*>/gi, '\n\n')
+    .replace(/<[^>]+>/g, '');
+
+  // Drop the trailing table separator left on each row
+  return collapseBlankLines(decodeEntities(text).replace(/ \| *$/gm, ''));
+}
+
+/**
+ * Strip inline Markdown formatting (emphasis, code, links, images, HTML tags)
+ */
+function stripInlineMarkdown(text: string): string {
+  return decodeEntities(
+    text
+      .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+      .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+      .replace(/\[([^\]]+)\]\[[^\]]*\]/g, '$1')
+      .replace(/`([^`]+)`/g, '$1')
+      .replace(/(\*\*|__)(.+?)\1/g, '$2')
+      .replace(/(^|[\s(])[*_]([^*_\s][^*_]*?)[*_](?=[\s).,;:!?]|$)/g, '$1$2')
+      .replace(/~~(.+?)~~/g, '$1')
+      .replace(/<[^>]+>/g, '')
+  );
+}
+
+/**
+ * Extract text from Markdown, keeping ATX headings as structural markers
+ */
+export function extractMarkdownText(markdown: string): string {
+  const lines = markdown
+    .replace(/\r\n?/g, '\n')
+    .replace(/^---\n[\s\S]*?\n---\n/, '') // YAML front matter
+    .split('\n');
+
+  const output: string[] = [];
+  let inCodeFence = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    let line = lines[i];
+
+    if (/^\s*(```|~~~)/.test(line)) {
+      inCodeFence = !inCodeFence;
+      continue;
+    }
+    if (inCodeFence) {
+      output.push(line);
+      continue;
+    }
+
+    // Setext headings ("Title" followed by === or ---)
+    const next = lines[i + 1];
+    if (line.trim().length > 0 && next !== undefined && /^\s*(=+|-+)\s*$/.test(next) && !/^\s*[-*+]\s/.test(line)) {
+      output.push(formatHeading(next.trim().startsWith('=') ? 1 : 2, stripInlineMarkdown(line)));
+      i++;
+      continue;
+    }
+
+    const atx = line.match(/^\s*(#{1,6})\s+(.*?)\s*#*\s*$/);
+    if (atx) {
+      output.push(formatHeading(atx[1].length, stripInlineMarkdown(atx[2])));
+      continue;
+    }
+
+    // Table separator rows
+    if (/^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/.test(line)) {
+      continue;
+    }
+
+    line = line
+      .replace(/^\s*>\s?/, '')
+      .replace(/^(\s*)[*+]\s+/, '$1- ')
+      .replace(/^\s*\|(.*)\|\s*$/, '$1');
+
+    output.push(stripInlineMarkdown(line));
+  }
+
+  return collapseBlankLines(output.join('\n'));
+}
@@ -0,0 +1,267 @@
+/**
+ * MCP Server for the knowledge base
+ *
+ * Speaks the Model Context Protocol (JSON-RPC 2.0) so other agents and IDE
+ * assistants can use the same HR knowledge base as the voice agent:
+ * - tools: every tool of the tool registry (search_pdfs, get_document_stats, ...)
+ * - resources: every indexed document as "rag://documents/<id>" (its extracted text),
+ *   except confidential and restricted ones
+ *
+ * Transport-independent: scripts/mcp-server.ts serves it over stdio and
+ * /api/mcp over streamable HTTP (JSON responses, no server-initiated streams).
+ */
+
+import { timingSafeEqual } from 'crypto';
+import { getRagManager } from './index';
+import { isConfidential } from './metadata';
+import { formatToolOutput } from './tool-output';
+import { ToolRegistry, getToolRegistry } from './tool-registry';
+
+/**
+ * JSON-RPC 2.0 request or notification (no id)
+ */
+export interface JSONRPCMessage {
+  jsonrpc: '2.0';
+  id?: string | number | null;
+  method?: string;
+  params?: Record<string, unknown>;
+}
+
+/**
+ * JSON-RPC 2.0 error object
+ */
+export interface JSONRPCError {
+  code: number;
+  message: string;
+  data?: unknown;
+}
+
+/**
+ * JSON-RPC 2.0 response
+ */
+export interface JSONRPCResponse {
+  jsonrpc: '2.0';
+  id: string | number | null;
+  result?: unknown;
+  error?: JSONRPCError;
+}
+
+// Outcome of one method: a result, or a protocol error
+type MethodOutcome = { result: unknown } | { error: JSONRPCError };
+
+// JSON-RPC error codes
+export const PARSE_ERROR = -32700;
+export const INVALID_REQUEST = -32600;
+export const METHOD_NOT_FOUND = -32601;
+export const INVALID_PARAMS = -32602;
+export const INTERNAL_ERROR = -32603;
+const RESOURCE_NOT_FOUND = -32002;
+
+// Newest first; the newest is offered when the client asks for an unknown version
+const PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+const RESOURCE_PREFIX = 'rag://documents/';
+
+const SERVER_INFO = { name: 'hr-knowledge-base', version: '0.1.0' };
+
+const INSTRUCTIONS =
+  'Company HR knowledge base (Hebrew and English policies). Call search_pdfs for questions about policies, ' +
+  'hours, vacation, benefits and procedures, and cite the source_document and section of each result. ' +
+  'Browse a document with get_document_outline and read_section, or read it in full as a resource.';
+
+/**
+ * MCPServer - Answers MCP requests from the tool registry and RAGManager
+ */
+export class MCPServer {
+  private registry: ToolRegistry;
+
+  constructor(registry?: ToolRegistry) {
+    this.registry = registry || getToolRegistry();
+  }
+
+  /**
+   * Handle one JSON-RPC message
+   * Returns the response, or null for notifications and responses from the client
+   */
+  async handleMessage(message: unknown): Promise<JSONRPCResponse | null> {
+    if (!isMessage(message)) {
+      return errorResponse(null, INVALID_REQUEST, 'Invalid JSON-RPC message');
+    }
+    if (message.method === undefined) {
+      return null; // a response to a server request; this server sends none
+    }
+
+    const id = message.id;
+    let outcome: MethodOutcome;
+    try {
+      outcome = await this.dispatch(message.method, message.params ?? {});
+    } catch (error) {
+      console.error(`❌ [MCP] ${message.method} failed:`, error);
+      outcome = { error: { code: INTERNAL_ERROR, message: error instanceof Error ? error.message : 'Internal error' } };
+    }
+
+    if (id === undefined) {
+      return null; // notification
+    }
+    return 'error' in outcome ? { jsonrpc: '2.0', id, error: outcome.error } : { jsonrpc: '2.0', id, result: outcome.result };
+  }
+
+  private async dispatch(method: string, params: Record<string, unknown>): Promise<MethodOutcome> {
+    switch (method) {
+      case 'initialize':
+        return { result: this.initialize(params) };
+      case 'ping':
+        return { result: {} };
+      case 'tools/list':
+        return { result: { tools: this.listTools() } };
+      case 'tools/call':
+        return this.callTool(params);
+      case 'resources/list':
+        return { result: { resources: await this.listResources() } };
+      case 'resources/templates/list':
+        return {
+          result: {
+            resourceTemplates: [
+              {
+                uriTemplate: `${RESOURCE_PREFIX}{id}`,
+                name: 'Knowledge base document',
+                description: 'Extracted text of a document, by the id from list_documents',
+                mimeType: 'text/plain',
+              },
+            ],
+          },
+        };
+      case 'resources/read':
+        return this.readResource(params);
+      default:
+        if (method.startsWith('notifications/')) {
+          return { result: {} };
+        }
+        return { error: { code: METHOD_NOT_FOUND, message: `Method not found: ${method}` } };
+    }
+  }
+
+  private initialize(params: Record<string, unknown>) {
+    const requested = typeof params.protocolVersion === 'string' ? params.protocolVersion : '';
+    return {
+      protocolVersion: PROTOCOL_VERSIONS.includes(requested) ? requested : PROTOCOL_VERSIONS[0],
+      capabilities: { tools: { listChanged: false }, resources: { listChanged: false, subscribe: false } },
+      serverInfo: SERVER_INFO,
+      instructions: INSTRUCTIONS,
+    };
+  }
+
+  private listTools() {
+    return this.registry.getDefinitions().map(definition => ({
+      name: definition.name,
+      description: definition.description,
+      inputSchema: definition.parameters,
+    }));
+  }
+
+  /**
+   * Run a registry tool
+   * Invalid arguments and tool failures are tool results with isError, so the model sees them
+   */
+  private async callTool(params: Record<string, unknown>): Promise<MethodOutcome> {
+    const name = params.name;
+    if (typeof name !== 'string' || !this.registry.has(name)) {
+      return { error: { code: INVALID_PARAMS, message: `Unknown tool: ${String(name)}` } };
+    }
+
+    const args = (params.arguments ?? {}) as Record<string, unknown>;
+    const validation = this.registry.validate(name, args);
+    if (!validation.valid) {
+      return { result: { content: [{ type: 'text', text: validation.error! }], isError: true } };
+    }
+
+    try {
+      const result = await this.registry.call(name, args);
+      return { result: { content: [{ type: 'text', text: formatToolOutput(result) }], structuredContent: result } };
+    } catch (error) {
+      console.error(`❌ [MCP] Tool ${name} failed:`, error);
+      const message = `Tool ${name} failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      return { result: { content: [{ type: 'text', text: message }], isError: true } };
+    }
+  }
+
+  private async listResources() {
+    const documents = (await getRagManager().listDocuments()).filter(doc => !isConfidential(doc.metadata));
+    return documents.map(doc => ({
+      uri: `${RESOURCE_PREFIX}${encodeURIComponent(doc.id)}`,
+      name: doc.filename,
+      description: [
+        doc.pageCount ? `${doc.pageCount} page${doc.pageCount === 1 ? '' : 's'}` : '',
+        `${doc.chunkCount} section${doc.chunkCount === 1 ? '' : 's'}`,
+        doc.metadata?.language ? `language: ${doc.metadata.language}` : '',
+        doc.metadata?.effectiveDate ? `effective ${doc.metadata.effectiveDate}` : '',
+      ]
+        .filter(Boolean)
+        .join(', '),
+      mimeType: 'text/plain',
+      size: doc.characters,
+    }));
+  }
+
+  private async readResource(params: Record<string, unknown>): Promise<MethodOutcome> {
+    const uri = params.uri;
+    if (typeof uri !== 'string' || !uri.startsWith(RESOURCE_PREFIX)) {
+      return {
+        error: { code: INVALID_PARAMS, message: `Unknown resource URI: ${String(uri)} (expected ${RESOURCE_PREFIX}<id>)` },
+      };
+    }
+
+    const content = await getRagManager().getDocumentContent(decodeURIComponent(uri.slice(RESOURCE_PREFIX.length)));
+    if (!content || isConfidential(content.document.metadata)) {
+      return { error: { code: RESOURCE_NOT_FOUND, message: `Resource not found: ${uri}` } };
+    }
+    return { result: { contents: [{ uri, mimeType: 'text/plain', text: content.document.text }] } };
+  }
+}
+
+function isMessage(value: unknown): value is JSONRPCMessage {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return false;
+  }
+  const message = value as Record<string, unknown>;
+  return (
+    message.jsonrpc === '2.0' &&
+    (message.method === undefined || typeof message.method === 'string') &&
+    (message.params === undefined || (typeof message.params === 'object' && message.params !== null))
+  );
+}
+
+/**
+ * Check the MCP bearer token (RAG_MCP_TOKEN) of an HTTP request
+ * Without a configured token the endpoint is open, like the chat APIs
+ */
+export function authorizeMCP(request: Request): { valid: boolean; status?: number; error?: string } {
+  const expected = process.env.RAG_MCP_TOKEN;
+  if (!expected) {
+    return { valid: true };
+  }
+
+  const header = request.headers.get('authorization') || '';
+  const token = header.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : '';
+  const given = Buffer.from(token);
+  const wanted = Buffer.from(expected);
+
+  if (given.length !== wanted.length || !timingSafeEqual(given, wanted)) {
+    return { valid: false, status: 401, error: 'Invalid or missing MCP token' };
+  }
+  return { valid: true };
+}
+
+/**
+ * Build a JSON-RPC error response
+ */
+export function errorResponse(id: string | number | null | undefined, code: number, message: string): JSONRPCResponse {
+  return { jsonrpc: '2.0', id: id ?? null, error: { code, message } };
+}
+
+/**
+ * Helper function to create an MCP server over the default tool registry
+ */
+export function createMCPServer(registry?: ToolRegistry): MCPServer {
+  return new MCPServer(registry);
+}
@@ -6,6 +6,11 @@
  */
 
 import { getRagManager } from './index';
+import { Chunk } from './chunker';
+import { TextRange, allocateSnippetLengths, extractSnippet } from './snippets';
+import { citationUrl, createCitationId } from './citations';
+import { ToolDefinition } from './tool-registry';
+import { AS_OF_SCHEMA, SEARCH_FILTER_SCHEMA, SearchFilter, describeFilter, isEmptyFilter } from './metadata';
 
 /**
  * MCP Tool Definition for search_pdfs
@@ -13,7 +18,7 @@ import { getRagManager } from './index';
  * This tool allows the agent to search the knowledge base
  * and retrieve relevant document chunks
  */
-export const SEARCH_PDFS_TOOL = {
+export const SEARCH_PDFS_TOOL: ToolDefinition = {
   type: 'function',
   name: 'search_pdfs',
   description:
@@ -26,19 +31,77 @@ export const SEARCH_PDFS_TOOL = {
         description:
           'The search query describing what information you need. Be specific and use keywords related to the topic (e.g., "employee benefits", "remote work policy", "security requirements")',
       },
+      filter: SEARCH_FILTER_SCHEMA,
+      as_of: AS_OF_SCHEMA,
     },
     required: ['query'],
   },
 };
 
+/**
+ * Why a search result ranked where it did
+ */
+export interface RankingExplanation {
+  fused_score: number; // reciprocal rank fusion score
+  rerank_score?: number; // 0-100, if a reranker ran
+  components: Array<{ ranker: string; rank: number; score: number }>; // score 0-100
+}
+
 /**
  * Search result item returned to agent
  */
 export interface SearchResultItem {
+  citation_id: string; // stable per passage, cited by the model as "[S4k2x]"
   source_document: string;
+  source_url?: string; // opens the document at the cited page
+  document_id: string;
+  chunk_index: number; // position in the document's chunks, for read_section
+  start_char: number; // position of the section in the document text
+  end_char: number;
   relevance_score: number;
-  text_snippet: string;
+  text_snippet: string; // best-matching window of the section
+  highlights?: TextRange[]; // query term occurrences, offsets into text_snippet
+  full_text?: string; // whole section, when tools.includeFullText is set and the snippet is cut
+  page?: number;
+  section?: string; // heading breadcrumb, e.g. "סעיף 6: חופשות > 6.2 ימי מחלה"
+  effective_date?: string; // YYYY-MM-DD, for dated documents and policy versions
+  additional_sources?: AdditionalSource[]; // other documents containing the same passage
+  ranking?: RankingExplanation;
+}
+
+/**
+ * Another place a near-duplicate of a result's passage appears
+ */
+export interface AdditionalSource {
+  source_document: string;
   page?: number;
+  section?: string;
+}
+
+/**
+ * List the near-duplicates folded into a result, one entry per document and page
+ */
+function toAdditionalSources(duplicates: Chunk[] | undefined): AdditionalSource[] | undefined {
+  if (!duplicates || duplicates.length === 0) {
+    return undefined;
+  }
+
+  const seen = new Set<string>();
+  return duplicates
+    .filter(chunk => {
+      const key = `${chunk.documentName}#${chunk.startPage ?? ''}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .map(chunk => ({ source_document: chunk.documentName, page: chunk.startPage, section: chunk.breadcrumb }));
+}
+
+/**
+ * "faq.txt, handbook.pdf (Page 3)"
+ */
+function describeSources(sources: AdditionalSource[]): string {
+  return sources.map(source => `${source.source_document}${source.page ? ` (Page ${source.page})` : ''}`).join(', ');
 }
 
 /**
@@ -46,15 +109,18 @@ export interface SearchResultItem {
  * 
  * Called when the agent invokes the tool via OpenAI Realtime API
  * Returns raw text chunks without summarization or hallucination
+ * An optional metadata filter restricts results, e.g. { language: 'he' }, and asOf
+ * (YYYY-MM-DD) searches the policy versions in effect on that date instead of today's
  */
-export async function handleSearchPdfs(query: string): Promise<{
+export async function handleSearchPdfs(query: string, filter?: SearchFilter, asOf?: string): Promise<{
   results: SearchResultItem[];
   total_matches: number;
   note: string;
   formatted_response: string;
 }> {
   try {
-    console.log('🔍 SEARCH_PDFS:', query);
+    const searchFilter: SearchFilter = { ...filter, asOf: asOf || undefined };
+    console.log('🔍 SEARCH_PDFS:', query, isEmptyFilter(searchFilter) ? '' : `[${describeFilter(searchFilter)}]`);
     
     // Validate input
     if (!query || typeof query !== 'string') {
@@ -83,30 +149,73 @@ export async function handleSearchPdfs(query: string): Promise<{
     await rag.ensureInitialized();
 
     // Perform search
-    const rawResults = await rag.searchRaw(trimmedQuery);
+    const { tools } = rag.getConfig().config;
+    const rawResults = await rag.searchRaw(trimmedQuery, tools.maxResults, searchFilter);
     
     console.log(`📊 ${rawResults.length} results for "${trimmedQuery}"`);
 
+    // Windows around the matched terms, sharing the snippet budget
+    const snippetLengths = allocateSnippetLengths(
+      rawResults.map(result => result.chunk.content.length),
+      tools.snippetBudget,
+      tools.maxSnippetLength
+    );
+
     // Transform to MCP tool output format
-    const results: SearchResultItem[] = rawResults.map((result) => {
+    const results: SearchResultItem[] = rawResults.map((result, i) => {
       const score = parseFloat((result.relevanceScore * 100).toFixed(1));
+      const terms = result.matchedTerms.length > 0 ? result.matchedTerms : [trimmedQuery];
+      const snippet = extractSnippet(result.chunk.content, terms, snippetLengths[i]);
+      const isCut = snippet.text !== result.chunk.content;
       return {
+        citation_id: createCitationId(result.chunk.id),
         source_document: result.chunk.documentName,
+        source_url: citationUrl(rag.getDocument(result.chunk.documentId)?.sourceUrl, result.chunk.startPage),
+        document_id: result.chunk.documentId,
+        chunk_index: result.chunk.chunkIndex,
+        start_char: result.chunk.startChar,
+        end_char: result.chunk.endChar,
         relevance_score: score,
-        text_snippet: result.chunk.content,
+        text_snippet: snippet.text,
+        highlights: snippet.highlights.length > 0 ? snippet.highlights : undefined,
+        full_text: tools.includeFullText && isCut ? result.chunk.content : undefined,
         page: result.chunk.startPage,
+        section: result.chunk.breadcrumb,
+        effective_date: result.chunk.metadata?.effectiveDate,
+        additional_sources: toAdditionalSources(result.duplicates),
+        ranking: tools.includeRanking && result.scores ? {
+          fused_score: parseFloat(result.scores.fused.toFixed(4)),
+          rerank_score: result.scores.rerank !== undefined
+            ? parseFloat((result.scores.rerank * 100).toFixed(1))
+            : undefined,
+          components: result.scores.components.map(component => ({
+            ranker: component.ranker,
+            rank: component.rank,
+            score: parseFloat((component.score * 100).toFixed(1)),
+          })),
+        } : undefined,
       };
     });
 
+    results.forEach((result, i) => {
+      const components = result.ranking?.components.map(c => `${c.ranker} #${c.rank} (${c.score}%)`).join(', ');
+      console.log(`   ${i + 1}. ${result.source_document} ${result.relevance_score}% ← ${components || 'n/a'}`);
+    });
+
+    const filterNote = isEmptyFilter(searchFilter) ? '' : ` (filtered by ${describeFilter(searchFilter)})`;
     const note = results.length === 0 
-      ? 'No matching documents found for the query.'
-      : `Found ${results.length} relevant sections.`;
+      ? `No matching documents found for the query${filterNote}.`
+      : `Found ${results.length} relevant sections${filterNote}.`;
 
     // Create a clear, formatted response that AI cannot ignore
     const formattedResponse = results.length > 0 
       ? `DOCUMENT SEARCH RESULTS:\n\n${results.map((r, i) => 
-          `RESULT ${i + 1} (Relevance: ${r.relevance_score}%):\n` +
-          `Source: ${r.source_document}\n` +
+          `RESULT ${i + 1} [${r.citation_id}] (Relevance: ${r.relevance_score}%):\n` +
+          `Source: ${r.source_document}${r.page ? ` (Page ${r.page})` : ''}\n` +
+          (r.section ? `Section: ${r.section}\n` : '') +
+          `Document: ${r.document_id}, chunk ${r.chunk_index}\n` +
+          (r.effective_date ? `Effective: ${r.effective_date}\n` : '') +
+          (r.additional_sources ? `Also in: ${describeSources(r.additional_sources)}\n` : '') +
           `Content: "${r.text_snippet}"\n`
         ).join('\n')}`
       : 'NO RESULTS FOUND - This information is not in the knowledge base.';
@@ -144,8 +253,10 @@ export function formatSearchResults(
   return results
     .map(
       (result, index) =>
-        `[Result ${index + 1}]\n` +
+        `[Result ${index + 1}] [${result.citation_id}]\n` +
         `Source: ${result.source_document}${result.page ? ` (Page ${result.page})` : ''}\n` +
+        (result.section ? `Section: ${result.section}\n` : '') +
+        (result.additional_sources ? `Also in: ${describeSources(result.additional_sources)}\n` : '') +
         `Relevance: ${result.relevance_score}%\n` +
         `Content:\n${result.text_snippet}\n`
     )
@@ -153,64 +264,341 @@ export function formatSearchResults(
 }
 
 /**
- * Validate tool call from OpenAI
- * Ensures the tool call has required parameters
+ * MCP Tool Definition for get_document_stats
  */
-export function validateToolCall(
-  toolName: string,
-  toolArguments: Record<string, unknown>
-): { valid: boolean; error?: string } {
-  if (toolName !== 'search_pdfs') {
-    return { valid: false, error: `Unknown tool: ${toolName}` };
-  }
+export const GET_DOCUMENT_STATS_TOOL: ToolDefinition = {
+  type: 'function',
+  name: 'get_document_stats',
+  description:
+    'Get statistics about the loaded knowledge base. Returns information about available documents and indexed content.',
+  parameters: {
+    type: 'object',
+    properties: {},
+    required: [],
+    additionalProperties: false,
+  },
+};
 
-  if (!toolArguments.query) {
-    return { valid: false, error: 'Missing required parameter: query' };
-  }
+/**
+ * Handler for get_document_stats tool
+ */
+export async function handleGetDocumentStats() {
+  try {
+    const rag = getRagManager();
+    await rag.ensureInitialized();
+
+    const stats = await rag.getStats();
 
-  if (typeof toolArguments.query !== 'string') {
-    return { valid: false, error: 'Parameter query must be a string' };
+    return {
+      total_documents: 'documentCount' in stats ? stats.documentCount : 0,
+      total_indexed_sections: stats.totalChunks,
+      unique_topics: 'uniqueTerms' in stats ? stats.uniqueTerms : 0,
+      average_section_size_chars: 'averageChunkLength' in stats ? Math.round(stats.averageChunkLength) : 0,
+      note: 'The knowledge base contains comprehensive company documentation organized into searchable sections.',
+    };
+  } catch (error) {
+    console.error('Error getting document stats:', error);
+    return {
+      error: 'Failed to retrieve document statistics',
+    };
   }
+}
+
+/**
+ * MCP Tool Definition for list_documents
+ */
+export const LIST_DOCUMENTS_TOOL: ToolDefinition = {
+  type: 'function',
+  name: 'list_documents',
+  description:
+    'List the documents in the knowledge base with their ids, formats, sizes and metadata (department, language, effective date). Use it to see which documents exist before reading or citing one.',
+  parameters: {
+    type: 'object',
+    properties: {},
+    required: [],
+    additionalProperties: false,
+  },
+};
 
-  return { valid: true };
+/**
+ * Document item returned by list_documents
+ */
+export interface DocumentListEntry {
+  document_id: string;
+  filename: string;
+  format?: string;
+  page_count?: number;
+  section_count: number;
+  department?: string;
+  language?: string;
+  effective_date?: string;
+  superseded_on?: string; // an older version of a policy
+  tags?: string[];
 }
 
 /**
- * Example tool definitions for future expansion
+ * Handler for list_documents tool
  */
+export async function handleListDocuments(): Promise<
+  { documents: DocumentListEntry[]; total_documents: number } | { success: false; error: string }
+> {
+  try {
+    const rag = getRagManager();
+    const documents = await rag.listDocuments();
 
-export const GET_DOCUMENT_STATS_TOOL = {
+    return {
+      documents: documents.map(doc => ({
+        document_id: doc.id,
+        filename: doc.filename,
+        format: doc.format,
+        page_count: doc.pageCount,
+        section_count: doc.chunkCount,
+        department: doc.metadata?.department,
+        language: doc.metadata?.language,
+        effective_date: doc.metadata?.effectiveDate,
+        superseded_on: doc.metadata?.supersededOn,
+        tags: doc.metadata?.tags,
+      })),
+      total_documents: documents.length,
+    };
+  } catch (error) {
+    console.error('❌ Error in list_documents tool:', error);
+    return { success: false, error: 'Failed to list documents' };
+  }
+}
+
+/**
+ * MCP Tool Definition for get_document_outline
+ */
+export const GET_DOCUMENT_OUTLINE_TOOL: ToolDefinition = {
   type: 'function',
-  function: {
-    name: 'get_document_stats',
-    description:
-      'Get statistics about the loaded knowledge base. Returns information about available documents and indexed content.',
-    parameters: {
-      type: 'object',
-      properties: {},
-      required: [],
+  name: 'get_document_outline',
+  description:
+    'Get the outline of one document: its sections in reading order, each with the range of chunk indexes it covers. Use it to find a whole chapter (e.g. the leave policy) and then read it with read_section.',
+  parameters: {
+    type: 'object',
+    properties: {
+      document_id: {
+        type: 'string',
+        description: 'Document id from list_documents or a search result (e.g., "doc_handbook.pdf")',
+      },
     },
+    required: ['document_id'],
+    additionalProperties: false,
   },
 };
 
-export async function handleGetDocumentStats() {
+/**
+ * Section of a document outline
+ */
+export interface OutlineSection {
+  title: string; // the section's own heading, or the opening words of a chunk without one
+  section?: string; // heading breadcrumb, e.g. "סעיף 6: חופשות > 6.2 ימי מחלה"
+  level: number; // 1 = top-level heading
+  start_chunk: number;
+  end_chunk: number;
+  page?: number;
+}
+
+// Titles of chunks without a heading are cut to this length
+const MAX_OUTLINE_TITLE_LENGTH = 60;
+
+/**
+ * Group consecutive chunks of a document by their heading breadcrumb
+ * Chunks without a heading (fixed-size chunking, text before the first heading)
+ * are listed one by one under their opening words
+ */
+function buildOutline(chunks: Chunk[]): OutlineSection[] {
+  const sections: OutlineSection[] = [];
+
+  for (const chunk of chunks) {
+    const last = sections[sections.length - 1];
+    if (chunk.breadcrumb && last?.section === chunk.breadcrumb) {
+      last.end_chunk = chunk.chunkIndex;
+      continue;
+    }
+
+    const headings = chunk.breadcrumb ? chunk.breadcrumb.split(' > ') : [];
+    const opening = chunk.content.trim().split('\n')[0];
+    sections.push({
+      title: headings.length > 0
+        ? headings[headings.length - 1]
+        : opening.length > MAX_OUTLINE_TITLE_LENGTH ? `${opening.slice(0, MAX_OUTLINE_TITLE_LENGTH)}…` : opening,
+      section: chunk.breadcrumb,
+      level: Math.max(1, headings.length),
+      start_chunk: chunk.chunkIndex,
+      end_chunk: chunk.chunkIndex,
+      page: chunk.startPage,
+    });
+  }
+
+  return sections;
+}
+
+/**
+ * "chunk 3" or "chunks 3-5"
+ */
+function describeChunkRange(start: number, end: number): string {
+  return start === end ? `chunk ${start}` : `chunks ${start}-${end}`;
+}
+
+/**
+ * Handler for get_document_outline tool
+ */
+export async function handleGetDocumentOutline(documentId: string) {
   try {
     const rag = getRagManager();
     await rag.ensureInitialized();
 
-    const stats = await rag.getStats();
+    const document = rag.getDocument(documentId);
+    const chunks = rag.getDocumentChunks(documentId);
+    if (!document || chunks.length === 0) {
+      return { error: `Document not found: ${documentId}. Call list_documents for the available ids.` };
+    }
+
+    const sections = buildOutline(chunks);
+    console.log(`📑 GET_DOCUMENT_OUTLINE: ${document.filename} (${sections.length} sections)`);
 
     return {
-      total_documents: 'documentCount' in stats ? stats.documentCount : 0,
-      total_indexed_sections: stats.totalChunks,
-      unique_topics: 'uniqueTerms' in stats ? stats.uniqueTerms : 0,
-      average_section_size_chars: 'averageChunkLength' in stats ? Math.round(stats.averageChunkLength) : 0,
-      note: 'The knowledge base contains comprehensive company documentation organized into searchable sections.',
+      document_id: documentId,
+      source_document: document.filename,
+      total_chunks: chunks.length,
+      sections,
+      formatted_response:
+        `OUTLINE OF ${document.filename} (${describeChunkRange(chunks[0].chunkIndex, chunks[chunks.length - 1].chunkIndex)}):\n` +
+        sections
+          .map(section =>
+            `${'  '.repeat(section.level - 1)}- ${section.title} [${describeChunkRange(section.start_chunk, section.end_chunk)}]` +
+            (section.page ? ` (Page ${section.page})` : '')
+          )
+          .join('\n'),
     };
   } catch (error) {
-    console.error('Error getting document stats:', error);
+    console.error('❌ Error in get_document_outline tool:', error);
+    return { error: 'Failed to build the document outline' };
+  }
+}
+
+/**
+ * MCP Tool Definition for read_section
+ */
+export const READ_SECTION_TOOL: ToolDefinition = {
+  type: 'function',
+  name: 'read_section',
+  description:
+    'Read consecutive chunks of a document in full, by chunk index range (from get_document_outline, or the chunk of a search result). Use it to read a whole section or the text around a search result.',
+  parameters: {
+    type: 'object',
+    properties: {
+      document_id: {
+        type: 'string',
+        description: 'Document id from list_documents or a search result',
+      },
+      start_chunk: {
+        type: 'integer',
+        minimum: 0,
+        description: 'First chunk index to read',
+      },
+      end_chunk: {
+        type: 'integer',
+        minimum: 0,
+        description: 'Last chunk index to read (inclusive, defaults to start_chunk)',
+      },
+    },
+    required: ['document_id', 'start_chunk'],
+    additionalProperties: false,
+  },
+};
+
+/**
+ * Chunk returned by read_section
+ */
+export interface SectionPassage {
+  citation_id: string;
+  chunk_index: number;
+  text: string; // without the part it shares with the previous passage
+  page?: number;
+  section?: string;
+  start_char: number;
+  end_char: number;
+}
+
+/**
+ * Handler for read_section tool
+ * Returns at most tools.maxReadChunks chunks; next_chunk says where to continue
+ */
+export async function handleReadSection(documentId: string, startChunk: number, endChunk?: number) {
+  try {
+    const rag = getRagManager();
+    await rag.ensureInitialized();
+
+    const document = rag.getDocument(documentId);
+    const chunks = rag.getDocumentChunks(documentId);
+    if (!document || chunks.length === 0) {
+      return { error: `Document not found: ${documentId}. Call list_documents for the available ids.` };
+    }
+
+    const { tools } = rag.getConfig().config;
+    const finalChunk = chunks[chunks.length - 1].chunkIndex;
+    const requestedEnd = endChunk ?? startChunk;
+    const selected = chunks
+      .filter(chunk => chunk.chunkIndex >= startChunk && chunk.chunkIndex <= requestedEnd)
+      .slice(0, tools.maxReadChunks);
+    if (selected.length === 0) {
+      return {
+        error:
+          `${document.filename} has ${describeChunkRange(chunks[0].chunkIndex, finalChunk)}; ` +
+          `${describeChunkRange(startChunk, requestedEnd)} not found.`,
+      };
+    }
+
+    // Consecutive chunks overlap; each passage starts where the previous one ended
+    const passages: SectionPassage[] = selected.map((chunk, i) => {
+      const from = i > 0 ? Math.max(chunk.startChar, selected[i - 1].endChar) : chunk.startChar;
+      return {
+        citation_id: createCitationId(chunk.id),
+        chunk_index: chunk.chunkIndex,
+        text: document.text.slice(from, chunk.endChar),
+        page: chunk.startPage,
+        section: chunk.breadcrumb,
+        start_char: chunk.startChar,
+        end_char: chunk.endChar,
+      };
+    });
+
+    const readStart = passages[0].chunk_index;
+    const readEnd = passages[passages.length - 1].chunk_index;
+    const hasMore = readEnd < Math.min(requestedEnd, finalChunk);
+    const nextChunk = chunks.find(chunk => chunk.chunkIndex > readEnd)?.chunkIndex; // indexes can skip short chunks
+    const read = `Read ${describeChunkRange(readStart, readEnd)}`;
+    const note =
+      nextChunk === undefined
+        ? `${read}; the document ends at chunk ${finalChunk}.`
+        : hasMore
+          ? `${read} (at most ${tools.maxReadChunks} per call); continue at chunk ${nextChunk}.`
+          : `${read}; the document continues at chunk ${nextChunk} (last chunk ${finalChunk}).`;
+    console.log(`📖 READ_SECTION: ${document.filename} ${note}`);
+
     return {
-      error: 'Failed to retrieve document statistics',
+      document_id: documentId,
+      source_document: document.filename,
+      total_chunks: chunks.length,
+      passages,
+      next_chunk: nextChunk,
+      note,
+      formatted_response:
+        `DOCUMENT SECTION: ${document.filename}\n${note}\n\n` +
+        passages
+          .map(passage =>
+            `[${passage.citation_id}] Chunk ${passage.chunk_index}` +
+            (passage.page ? ` (Page ${passage.page})` : '') +
+            (passage.section ? ` - ${passage.section}` : '') +
+            `\n${passage.text.trim()}`
+          )
+          .join('\n\n'),
     };
+  } catch (error) {
+    console.error('❌ Error in read_section tool:', error);
+    return { error: 'Failed to read the document section' };
   }
 }
@@ -0,0 +1,328 @@
+/**
+ * Document metadata and search filters
+ *
+ * Metadata comes from YAML-style front matter at the top of TXT/Markdown files
+ * and from a JSON sidecar next to any document ("handbook.pdf.meta.json"),
+ * which wins on conflicts. It is copied onto every chunk of the document.
+ *
+ * Documents with the same `policy` are versions of one policy. Only the version
+ * in effect on the search date (today unless `asOf` is given) is searched.
+ *
+ * No server-only imports, so the filter schema can be used by the client too.
+ */
+
+export type ConfidentialityLevel = 'public' | 'internal' | 'confidential' | 'restricted';
+
+export const CONFIDENTIALITY_LEVELS: ConfidentialityLevel[] = ['public', 'internal', 'confidential', 'restricted'];
+
+// Levels whose full text is only served with the admin token
+const CONFIDENTIAL_LEVELS: ConfidentialityLevel[] = ['confidential', 'restricted'];
+
+/**
+ * Normalized document metadata
+ */
+export interface DocumentMetadata {
+  department?: string;
+  effectiveDate?: string; // YYYY-MM-DD
+  language?: string; // ISO 639-1, e.g. "he", "en" (detected from the text when not given)
+  audience?: string[];
+  confidentiality?: ConfidentialityLevel;
+  tags?: string[];
+  policy?: string; // version group, e.g. "vacation-policy" (inferred from "vacation-policy-2024.pdf")
+  supersededOn?: string; // set by the RAG manager: effective date of the next version of the policy
+  inferredVersion?: { policy: string; effectiveDate?: string }; // set by the RAG manager: fields taken from the file name
+}
+
+/**
+ * Whether a document is confidential or restricted
+ */
+export function isConfidential(metadata?: DocumentMetadata): boolean {
+  return !!metadata?.confidentiality && CONFIDENTIAL_LEVELS.includes(metadata.confidentiality);
+}
+
+/**
+ * Metadata fields that search results can be filtered on
+ */
+export type FilterField = 'department' | 'language' | 'audience' | 'confidentiality' | 'tags';
+
+export const FILTER_FIELDS: FilterField[] = ['department', 'language', 'audience', 'confidentiality', 'tags'];
+
+/**
+ * Search filter: every given field must match; a list matches any of its values
+ * Values compare case-insensitively. A document without the field never matches.
+ */
+export type SearchFilter = Partial<Record<FilterField, string | string[]>> & {
+  asOf?: string; // YYYY-MM-DD: search the policy versions in effect on this date
+};
+
+/**
+ * Schema of a filter value: one value or a list of values
+ */
+function oneOrMany(schema: { type: string; enum?: string[] }, description?: string) {
+  return { anyOf: [schema, { type: 'array', items: schema }], description };
+}
+
+/**
+ * JSON schema of the filter argument of the search_pdfs tool
+ */
+export const SEARCH_FILTER_SCHEMA = {
+  type: 'object',
+  description:
+    'Optional. Restrict the search to documents with matching metadata. Only set it when the user asks for a specific department, language or audience.',
+  properties: {
+    department: oneOrMany({ type: 'string' }, 'Owning department, e.g. "engineering", "hr"'),
+    language: oneOrMany({ type: 'string' }, 'Document language code, e.g. "he" or "en"'),
+    audience: oneOrMany({ type: 'string' }, 'Intended audience, e.g. "employees", "managers"'),
+    confidentiality: oneOrMany({ type: 'string', enum: CONFIDENTIALITY_LEVELS }),
+    tags: oneOrMany({ type: 'string' }, 'Document tag'),
+  },
+  additionalProperties: false,
+};
+
+/**
+ * JSON schema of the as_of argument of the search_pdfs tool
+ */
+export const AS_OF_SCHEMA = {
+  type: 'string',
+  description:
+    'Optional date (YYYY-MM-DD). Search the policy versions that were in effect on this date, e.g. when the user asks what the rule was last year. Omit to search the current versions.',
+};
+
+// Accepted spellings of metadata keys
+const KEY_ALIASES: Record<string, keyof DocumentMetadata> = {
+  department: 'department',
+  dept: 'department',
+  effectivedate: 'effectiveDate',
+  effective: 'effectiveDate',
+  language: 'language',
+  lang: 'language',
+  audience: 'audience',
+  confidentiality: 'confidentiality',
+  classification: 'confidentiality',
+  tags: 'tags',
+  policy: 'policy',
+  versiongroup: 'policy',
+};
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+// Date or year at the end of a file name: "vacation-policy-2024", "vacation_policy 2024-03-01"
+const FILENAME_VERSION = /^(.+?)[\s_-]+((?:19|20)\d{2})(?:[-_.](\d{2})(?:[-_.](\d{2}))?)?$/;
+
+// Date.parse accepts days past the end of the month ("2024-02-30"), so compare the round trip
+function isValidDate(value: string): boolean {
+  const time = Date.parse(value);
+  return ISO_DATE.test(value) && !Number.isNaN(time) && new Date(time).toISOString().slice(0, 10) === value;
+}
+
+function toPolicyId(value: string): string {
+  return value.trim().toLowerCase().replace(/[\s_]+/g, '-');
+}
+
+/**
+ * Split YAML-style front matter ("---" fenced block at the very top) from a text
+ * Supports "key: value", "key: [a, b]" and "key:" followed by "- item" lines
+ */
+export function parseFrontMatter(text: string): { fields: Record<string, unknown>; body: string } {
+  const match = text.match(/^\uFEFF?---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/);
+  if (!match) {
+    return { fields: {}, body: text };
+  }
+
+  const fields: Record<string, unknown> = {};
+  let listKey: string | null = null;
+
+  for (const line of match[1].split(/\r?\n/)) {
+    const item = line.match(/^\s+-\s+(.*)$/) || line.match(/^-\s+(.*)$/);
+    if (item && listKey) {
+      (fields[listKey] as string[]).push(unquote(item[1]));
+      continue;
+    }
+
+    const pair = line.match(/^([A-Za-z_][\w-]*)\s*:\s*(.*)$/);
+    if (!pair) continue;
+
+    const [, key, value] = pair;
+    if (value === '') {
+      fields[key] = [];
+      listKey = key;
+    } else if (value.startsWith('[') && value.endsWith(']')) {
+      fields[key] = value.slice(1, -1).split(',').map(unquote).filter(Boolean);
+      listKey = null;
+    } else {
+      fields[key] = unquote(value);
+      listKey = null;
+    }
+  }
+
+  return { fields, body: text.slice(match[0].length) };
+}
+
+function unquote(value: string): string {
+  return value.trim().replace(/^(['"])(.*)\1$/, '$2').trim();
+}
+
+function toList(value: unknown): string[] {
+  const values = Array.isArray(value) ? value : String(value).split(',');
+  return values.map(item => String(item).trim()).filter(item => item.length > 0);
+}
+
+/**
+ * Normalize raw metadata fields (front matter or sidecar JSON)
+ * Unknown keys and invalid values are dropped with a warning naming the source
+ */
+export function normalizeMetadata(fields: Record<string, unknown>, source: string): DocumentMetadata {
+  const metadata: DocumentMetadata = {};
+
+  for (const [rawKey, value] of Object.entries(fields)) {
+    const key = KEY_ALIASES[rawKey.toLowerCase().replace(/[_-]/g, '')];
+    if (!key) {
+      console.warn(`⚠️  [Metadata] ${source}: ignoring unknown field "${rawKey}"`);
+      continue;
+    }
+    if (value === null || value === undefined || value === '') continue;
+
+    switch (key) {
+      case 'department':
+        metadata.department = String(value).trim().toLowerCase();
+        break;
+      case 'language':
+        metadata.language = String(value).trim().toLowerCase();
+        break;
+      case 'effectiveDate': {
+        const date = String(value).trim();
+        if (isValidDate(date)) {
+          metadata.effectiveDate = date;
+        } else {
+          console.warn(`⚠️  [Metadata] ${source}: effective date "${date}" is not YYYY-MM-DD, ignoring`);
+        }
+        break;
+      }
+      case 'confidentiality': {
+        const level = String(value).trim().toLowerCase() as ConfidentialityLevel;
+        if (CONFIDENTIALITY_LEVELS.includes(level)) {
+          metadata.confidentiality = level;
+        } else {
+          console.warn(
+            `⚠️  [Metadata] ${source}: confidentiality "${value}" is not one of ${CONFIDENTIALITY_LEVELS.join(', ')}, ignoring`
+          );
+        }
+        break;
+      }
+      case 'audience':
+      case 'tags':
+        metadata[key] = toList(value).map(item => item.toLowerCase());
+        break;
+      case 'policy':
+        metadata.policy = toPolicyId(String(value));
+        break;
+    }
+  }
+
+  return metadata;
+}
+
+/**
+ * Infer a policy version from a file name ending in a date or year
+ * "vacation-policy-2024.pdf" → { policy: "vacation-policy", effectiveDate: "2024-01-01" }
+ */
+export function inferVersionFromFilename(filename: string): { policy: string; effectiveDate?: string } | null {
+  const stem = filename.replace(/\.[^.]+$/, '');
+  const match = stem.match(FILENAME_VERSION);
+  if (!match) {
+    return null;
+  }
+
+  const [, name, year, month = '01', day = '01'] = match;
+  const date = `${year}-${month}-${day}`;
+  return { policy: toPolicyId(name), effectiveDate: isValidDate(date) ? date : undefined };
+}
+
+/**
+ * Check whether a document was in effect on a date (YYYY-MM-DD)
+ * Only versioned documents (with a policy) are restricted: a version applies from its
+ * effective date until the next version takes effect
+ */
+export function isEffectiveOn(metadata: DocumentMetadata | undefined, date: string): boolean {
+  if (!metadata?.policy) {
+    return true;
+  }
+  if (metadata.effectiveDate && metadata.effectiveDate > date) {
+    return false;
+  }
+  return !metadata.supersededOn || metadata.supersededOn > date;
+}
+
+/**
+ * Guess the language of a text from its letters: "he" when a third or more are Hebrew
+ */
+export function detectLanguage(text: string): string {
+  const hebrew = (text.match(/[א-ת]/g) || []).length;
+  const latin = (text.match(/[A-Za-z]/g) || []).length;
+  return hebrew > 0 && hebrew >= (hebrew + latin) / 3 ? 'he' : 'en';
+}
+
+/**
+ * Check document metadata against a search filter
+ */
+export function matchesFilter(metadata: DocumentMetadata | undefined, filter?: SearchFilter): boolean {
+  if (!filter) {
+    return true;
+  }
+  if (filter.asOf && !isEffectiveOn(metadata, filter.asOf)) {
+    return false;
+  }
+
+  return FILTER_FIELDS.every(field => {
+    const wanted = filter[field];
+    if (wanted === undefined || (Array.isArray(wanted) && wanted.length === 0)) {
+      return true;
+    }
+
+    const actual = metadata?.[field];
+    if (actual === undefined) {
+      return false;
+    }
+
+    const actualValues = (Array.isArray(actual) ? actual : [actual]).map(value => value.toLowerCase());
+    const wantedValues = (Array.isArray(wanted) ? wanted : [wanted]).map(value => value.trim().toLowerCase());
+    return wantedValues.some(value => actualValues.includes(value));
+  });
+}
+
+/**
+ * Check whether a search filter has any constraint
+ */
+export function isEmptyFilter(filter?: SearchFilter): boolean {
+  return !filter || (!filter.asOf && FILTER_FIELDS.every(field => filter[field] === undefined));
+}
+
+/**
+ * Validate an as_of date received from a tool call
+ * Returns an error message, or null when valid
+ */
+export function validateAsOf(value: unknown): string | null {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+  if (typeof value !== 'string' || !isValidDate(value)) {
+    return 'Parameter as_of must be a date in YYYY-MM-DD format';
+  }
+  return null;
+}
+
+/**
+ * Describe a filter for logs and tool notes, e.g. "language: he, department: hr, as of 2023-06-01"
+ */
+export function describeFilter(filter?: SearchFilter): string {
+  if (!filter) {
+    return '';
+  }
+  const parts = FILTER_FIELDS
+    .filter(field => filter[field] !== undefined)
+    .map(field => `${field}: ${([] as string[]).concat(filter[field]!).join(' | ')}`);
+  if (filter.asOf) {
+    parts.push(`as of ${filter.asOf}`);
+  }
+  return parts.join(', ');
+}
@@ -1,5 +1,49 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import { createHash } from 'crypto';
+import { parsePDF } from './pdf-parser';
+import { repairVisualOrder, RTLRepairReport } from './rtl-repair';
+import { extractDocxText, extractHtmlText, extractMarkdownText } from './markup-extractors';
+import {
+  DocumentMetadata,
+  detectLanguage,
+  inferVersionFromFilename,
+  normalizeMetadata,
+  parseFrontMatter,
+} from './metadata';
+
+/**
+ * Source file format of a document
+ */
+export type DocumentFormat = 'pdf' | 'txt' | 'docx' | 'html' | 'md';
+
+/**
+ * Supported file extensions and the format they are loaded as
+ */
+const DOCUMENT_EXTENSIONS: Record<string, DocumentFormat> = {
+  '.pdf': 'pdf',
+  '.txt': 'txt',
+  '.docx': 'docx',
+  '.html': 'html',
+  '.htm': 'html',
+  '.md': 'md',
+  '.markdown': 'md',
+};
+
+/**
+ * Resolve the document format from a filename, null if unsupported
+ */
+export function getDocumentFormat(filename: string): DocumentFormat | null {
+  return DOCUMENT_EXTENSIONS[path.extname(filename).toLowerCase()] ?? null;
+}
+
+/**
+ * Document id of a file, e.g. "handbook.pdf" → "doc_handbook.pdf"
+ * Built from the whole filename, so files that share a stem ("policy.txt", "policy.md") stay apart
+ */
+export function createDocumentId(filename: string): string {
+  return `doc_${filename}`;
+}
 
 /**
  * Represents a document with its metadata
@@ -11,250 +55,532 @@ export interface Document {
   sourceUrl?: string;
   pageCount?: number;
   extractedAt?: string;
+  format?: DocumentFormat;
+  contentHash?: string; // sha256 of the source file (and its metadata sidecar)
+  rtlRepair?: RTLRepairReport;
+  metadata?: DocumentMetadata;
+}
+
+/**
+ * Supported file found in the documents directory
+ */
+export interface DocumentFile {
+  filename: string;
+  filePath: string;
+  format: DocumentFormat;
+  size: number;
+  contentHash: string;
+  metadataPath?: string; // "<filename>.meta.json" sidecar, if present
+}
+
+/**
+ * Outcome of loading one file
+ * - loaded: indexed
+ * - rejected: too large, or the extracted text is empty or unreadable (e.g. undecoded hex)
+ * - failed: the file could not be read or parsed
+ */
+export type IngestionStatus = 'loaded' | 'rejected' | 'failed';
+
+/**
+ * Extraction diagnostics of one file
+ */
+export interface FileIngestionReport {
+  filename: string;
+  format: DocumentFormat;
+  status: IngestionStatus;
+  reason?: string; // why the file was rejected or failed
+  sizeBytes: number;
+  characters: number;
+  words: number;
+  hebrewRatio: number; // Hebrew letters among all letters, 0-1
+  hexRatio: number; // hex string patterns ("<456d706c6f>") per word
+  readableRatio: number; // ASCII and Hebrew characters among all characters, 0-1
+  pagesDetected: number;
+  rtlRepairedLines?: number; // Hebrew lines restored from visual order (PDF)
+  processedAt: string;
+}
+
+/**
+ * Documents loaded from the documents directory, with a report per file
+ */
+export interface LoadResult {
+  documents: Document[];
+  reports: FileIngestionReport[];
+  usingMockDocuments: boolean;
+}
+
+/**
+ * Text extracted from a file, before validation
+ */
+interface ExtractedText {
+  text: string;
+  pageCount: number;
+  rtlRepair?: RTLRepairReport;
+}
+
+/**
+ * Character statistics used to tell real text from extraction garbage
+ */
+export interface TextQuality {
+  characters: number;
+  words: number;
+  readableWords: number; // Latin runs of 3+ letters and Hebrew runs of 2+ letters
+  hebrewRatio: number;
+  hexPatterns: number;
+  hexRatio: number;
+  readableRatio: number;
+}
+
+/**
+ * Measure extracted text (see FileIngestionReport for the ratios)
+ */
+export function measureText(text: string): TextQuality {
+  const characters = text.length;
+  const words = text.trim() ? text.trim().split(/\s+/).length : 0;
+  const hebrewLetters = (text.match(/[\u05D0-\u05EA]/g) || []).length;
+  const latinLetters = (text.match(/[A-Za-z]/g) || []).length;
+  const hexPatterns = (text.match(/<[0-9a-f]{2,}>/gi) || []).length;
+  const readableChars = (text.match(/[\x00-\x7F\u0590-\u05FF]/g) || []).length;
+  const readableWords = (text.match(/[a-zA-Z]{3,}/g) || []).length + (text.match(/[\u0590-\u05FF]{2,}/g) || []).length;
+
+  const round = (value: number) => parseFloat(value.toFixed(3));
+  return {
+    characters,
+    words,
+    readableWords,
+    hebrewRatio: round(hebrewLetters + latinLetters > 0 ? hebrewLetters / (hebrewLetters + latinLetters) : 0),
+    hexPatterns,
+    hexRatio: round(words > 0 ? hexPatterns / words : 0),
+    readableRatio: round(characters > 0 ? readableChars / characters : 0),
+  };
 }
 
+/**
+ * Suffix of metadata sidecar files ("handbook.pdf.meta.json")
+ */
+export const METADATA_SIDECAR_SUFFIX = '.meta.json';
+
 /**
  * Configuration for PDF loading
  */
-interface PDFLoaderConfig {
+export interface PDFLoaderConfig {
   documentsDir?: string;
   maxFileSize?: number; // in bytes, default 50MB
+  mockFallback?: boolean; // serve built-in sample documents when nothing loads, default false
 }
 
 /**
  * PDFLoader - Loads and parses PDF files for RAG ingestion
  * 
  * Extracts clean text from PDF documents preserving structure
+ * Also loads TXT, DOCX, HTML and Markdown files into the same Document shape
  * Handles multiple pages and various PDF formats
- * Fallback to mock data if no PDFs found
+ * Reports extraction diagnostics per file; mock data only when mockFallback is enabled
  * 
- * Uses a robust text extraction approach compatible with Next.js server-side rendering
+ * PDF text comes from pdf.js (see pdf-parser.ts), loaded on the server only
  */
 export class PDFLoader {
   private documentsDir: string;
   private maxFileSize: number;
+  private mockFallback: boolean;
 
   constructor(config?: PDFLoaderConfig) {
     this.documentsDir = config?.documentsDir || path.join(process.cwd(), 'public', 'documents');
     this.maxFileSize = config?.maxFileSize || 50 * 1024 * 1024; // 50MB default
+    this.mockFallback = config?.mockFallback || false;
   }
 
   /**
-   * Load all PDF files from documents directory
-   * Extracts text and metadata from each PDF
-   * Returns mock data if no PDFs found
+   * Load all document files from documents directory
+   * Extracts text and metadata from each file and reports how each one went
+   * Mock documents are only served when loader.mockFallback is enabled
    */
-  async loadPDFs(): Promise<Document[]> {
+  async loadAll(): Promise<LoadResult> {
     const documents: Document[] = [];
+    const reports: FileIngestionReport[] = [];
 
     try {
       // Check if directory exists
       if (!fs.existsSync(this.documentsDir)) {
-        console.error(`\n🚨 [PDFLoader] Documents directory not found at ${this.documentsDir}`);
-        console.warn('Using mock data fallback');
-        return this.getMockDocuments();
+        return this.fallback(reports, `Documents directory not found at ${this.documentsDir}`);
       }
 
-      // Read all document files in directory
-      const files = fs.readdirSync(this.documentsDir);
+      // Read all supported document files (PDF, TXT, DOCX, HTML, Markdown)
       console.log(`\n📂 [PDFLoader] Scanning ${this.documentsDir}...`);
-      console.log(`📂 [PDFLoader] Found files:`, files.join(', '));
-      
-      // Load both PDF and TXT files
-      const documentFiles = files.filter(f => {
-        const lower = f.toLowerCase();
-        return lower.endsWith('.pdf') || lower.endsWith('.txt');
-      });
-      console.log(`📂 [PDFLoader] Document files (PDF + TXT):`, documentFiles.join(', '));
+      const documentFiles = this.listDocumentFiles();
+      console.log(`📂 [PDFLoader] Document files:`, documentFiles.map(f => f.filename).join(', '));
 
       if (documentFiles.length === 0) {
-        console.warn('⚠️  [PDFLoader] No document files found, using mock data');
-        return this.getMockDocuments();
+        return this.fallback(reports, 'No document files found');
       }
 
       // Load each document file
       console.log(`\n📂 [PDFLoader] Loading ${documentFiles.length} document file(s)...`);
       
-      for (const filename of documentFiles) {
-        try {
-          const filePath = path.join(this.documentsDir, filename);
-          console.log(`  → Processing: ${filename}`);
-          
-          let document: Document | null = null;
-          
-          // Handle different file types
-          if (filename.toLowerCase().endsWith('.txt')) {
-            document = await this.extractTextFromTXT(filePath, filename);
-          } else if (filename.toLowerCase().endsWith('.pdf')) {
-            document = await this.extractTextFromPDF(filePath, filename);
-          }
-          
-          if (document) {
-            documents.push(document);
-            console.log(`    ✅ Extracted: ${document.text.length} chars from ${filename}`);
-            
-            // Show first 200 chars to verify content
-            const preview = document.text.substring(0, 200).replace(/\n/g, ' ');
-            console.log(`    Preview: "${preview}..."`);
-          } else {
-            console.error(`    ❌ No document returned for ${filename}`);
-          }
-        } catch (error) {
-          console.error(`    ❌ Failed to load document ${filename}:`, error instanceof Error ? error.message : error);
+      for (const file of documentFiles) {
+        const { document, report } = await this.loadFile(file);
+        reports.push(report);
+        if (document) {
+          documents.push(document);
         }
       }
 
-      // If no documents were successfully loaded, return mock data
       if (documents.length === 0) {
-        console.error('\n🚨 [PDFLoader] Failed to load any PDFs, falling back to mock data');
-        return this.getMockDocuments();
+        return this.fallback(reports, `None of ${documentFiles.length} document file(s) could be loaded`);
       }
 
       console.log(`\n✅ [PDFLoader] Successfully loaded ${documents.length} document(s) with ${documents.reduce((sum, d) => sum + d.text.length, 0)} total characters`);
-      return documents;
+      return { documents, reports, usingMockDocuments: false };
     } catch (error) {
       console.error('Error loading documents:', error);
-      return this.getMockDocuments();
+      return this.fallback(reports, `Error loading documents: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
   /**
-   * Extract text from a TXT file
-   * Simple and reliable method for plain text files
+   * Result when no real document could be loaded: mock documents if opted in, otherwise none
    */
-  private async extractTextFromTXT(filePath: string, filename: string): Promise<Document | null> {
-    try {
-      // Check file size
-      const stats = fs.statSync(filePath);
-      if (stats.size > this.maxFileSize) {
-        console.warn(`File ${filename} is too large (${(stats.size / 1024 / 1024).toFixed(2)}MB), skipping`);
-        return null;
-      }
+  private fallback(reports: FileIngestionReport[], reason: string): LoadResult {
+    if (this.mockFallback) {
+      console.warn(`\n⚠️  [PDFLoader] ${reason}. Serving MOCK documents (loader.mockFallback is enabled)`);
+      return { documents: this.getMockDocuments(), reports, usingMockDocuments: true };
+    }
 
-      // Read TXT file as UTF-8
-      const text = fs.readFileSync(filePath, 'utf-8');
+    console.error(`\n🚨 [PDFLoader] ${reason}. The knowledge base is empty (enable loader.mockFallback for sample documents)`);
+    return { documents: [], reports, usingMockDocuments: false };
+  }
 
-      // Validate content
-      if (!text || text.trim().length < 50) {
-        console.warn(`File ${filename} appears to be empty (${text.length} chars)`);
-        return null;
-      }
+  /**
+   * List supported files in the documents directory with their content hashes
+   * Used for change detection without re-extracting text
+   */
+  listDocumentFiles(): DocumentFile[] {
+    if (!fs.existsSync(this.documentsDir)) {
+      return [];
+    }
 
-      // Create document object
-      const document: Document = {
-        id: `doc_${path.basename(filename, '.txt').toLowerCase()}`,
-        filename,
-        text: text.trim(),
-        sourceUrl: `/documents/${filename}`,
-        pageCount: 1,
-        extractedAt: new Date().toISOString(),
-      };
+    return fs
+      .readdirSync(this.documentsDir)
+      .sort()
+      .flatMap(filename => {
+        const format = getDocumentFormat(filename);
+        const filePath = path.join(this.documentsDir, filename);
+        if (!format) return [];
 
-      return document;
-    } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : String(error);
-      console.error(`  → Error reading TXT file ${filename}: ${errorMsg}`);
-      return null;
+        try {
+          const stats = fs.statSync(filePath);
+          if (!stats.isFile()) return [];
+
+          // Sidecar edits count as changes to the document
+          const metadataPath = `${filePath}${METADATA_SIDECAR_SUFFIX}`;
+          const hash = createHash('sha256').update(fs.readFileSync(filePath));
+          const hasSidecar = fs.existsSync(metadataPath);
+          if (hasSidecar) {
+            hash.update(fs.readFileSync(metadataPath));
+          }
+
+          return [{
+            filename,
+            filePath,
+            format,
+            size: stats.size,
+            contentHash: hash.digest('hex'),
+            metadataPath: hasSidecar ? metadataPath : undefined,
+          }];
+        } catch {
+          // File removed between readdir and stat
+          return [];
+        }
+      });
+  }
+
+  /**
+   * Check that a name refers to a document file directly in the documents directory
+   * Returns an error message, or null for a plain file name with a supported format
+   */
+  validateFileName(filename: string): string | null {
+    if (!filename || filename !== path.basename(filename) || filename.startsWith('.')) {
+      return `Invalid file name: ${filename}`;
     }
+    if (!getDocumentFormat(filename)) {
+      return `Unsupported file type: ${path.extname(filename) || filename} (expected ${Object.keys(DOCUMENT_EXTENSIONS).join(', ')})`;
+    }
+    return null;
   }
 
   /**
-   * Extract text from a PDF file using a binary scanning approach
-   * This is a simplified method that works without complex dependencies
-   * Returns null if extraction fails
-   * 
-   * NOTE: For PDFs created with pdfkit without proper text encoding,
-   * we recommend using mock data as fallback, which provides reliable results.
+   * Check a file before it is written to the documents directory (e.g. an upload)
+   * Returns an error message, or null when the name, format and size are acceptable
    */
-  private async extractTextFromPDF(filePath: string, filename: string): Promise<Document | null> {
+  validateFile(filename: string, size: number): string | null {
+    const nameError = this.validateFileName(filename);
+    if (nameError) {
+      return nameError;
+    }
+    if (size === 0) {
+      return `File ${filename} is empty`;
+    }
+    if (size > this.maxFileSize) {
+      return `File ${filename} is too large (${(size / 1024 / 1024).toFixed(2)}MB, limit ${(this.maxFileSize / 1024 / 1024).toFixed(2)}MB)`;
+    }
+    return null;
+  }
+
+  /**
+   * Load a single document file, tagging it with its content hash
+   * The document is null if the file is rejected or cannot be read; the report says why
+   */
+  async loadFile(file: DocumentFile): Promise<{ document: Document | null; report: FileIngestionReport }> {
+    console.log(`  → Processing: ${file.filename}`);
+
+    const report: FileIngestionReport = {
+      filename: file.filename,
+      format: file.format,
+      status: 'loaded',
+      sizeBytes: file.size,
+      characters: 0,
+      words: 0,
+      hebrewRatio: 0,
+      hexRatio: 0,
+      readableRatio: 0,
+      pagesDetected: 0,
+      processedAt: new Date().toISOString(),
+    };
+    const reject = (status: IngestionStatus, reason: string) => {
+      console.error(`    ❌ ${file.filename}: ${reason}`);
+      return { document: null, report: { ...report, status, reason } };
+    };
+
+    if (file.size > this.maxFileSize) {
+      return reject('rejected', `File is too large (${(file.size / 1024 / 1024).toFixed(2)}MB)`);
+    }
+
+    // Reports are served over HTTP: name the file, not its server path
+    const describeError = (error: unknown) =>
+      (error instanceof Error ? error.message : String(error)).split(file.filePath).join(file.filename);
+
+    let extracted: ExtractedText;
     try {
-      // Check file size before processing
-      const stats = fs.statSync(filePath);
-      if (stats.size > this.maxFileSize) {
-        console.warn(`PDF ${filename} is too large (${(stats.size / 1024 / 1024).toFixed(2)}MB), skipping`);
-        return null;
-      }
+      extracted = await this.extractText(file);
+    } catch (error) {
+      return reject('failed', `Could not read file: ${describeError(error)}`);
+    }
 
-      // Read PDF file as buffer
-      const pdfBuffer = fs.readFileSync(filePath);
+    const quality = measureText(extracted.text);
+    Object.assign(report, {
+      characters: quality.characters,
+      words: quality.words,
+      hebrewRatio: quality.hebrewRatio,
+      hexRatio: quality.hexRatio,
+      readableRatio: quality.readableRatio,
+      pagesDetected: extracted.pageCount,
+      rtlRepairedLines: extracted.rtlRepair?.flippedLines,
+    });
+
+    const reason = this.checkText(file.format, quality);
+    if (reason) {
+      return reject('rejected', reason);
+    }
 
-      // Extract text using simple text stream scanning
-      // PDFs often contain readable text in their structure
-      let extractedText = this.extractTextFromBuffer(pdfBuffer);
+    let metadata: DocumentMetadata;
+    try {
+      metadata = this.readMetadata(file, extracted.text);
+    } catch (error) {
+      return reject('rejected', `Invalid metadata: ${describeError(error)}`);
+    }
 
-      // Clean and normalize text
-      const cleanedText = this.normalizeText(extractedText);
+    const document: Document = {
+      id: createDocumentId(file.filename),
+      filename: file.filename,
+      text: extracted.text,
+      sourceUrl: `/documents/${encodeURIComponent(file.filename)}`,
+      pageCount: extracted.pageCount,
+      extractedAt: report.processedAt,
+      format: file.format,
+      rtlRepair: extracted.rtlRepair,
+      contentHash: file.contentHash,
+      metadata,
+    };
+    console.log(`    ✅ Extracted: ${document.text.length} chars from ${file.filename}`);
+
+    // Show first 200 chars to verify content
+    const preview = document.text.substring(0, 200).replace(/\n/g, ' ');
+    console.log(`    Preview: "${preview}..."`);
+
+    return { document, report };
+  }
 
-      // Validate extracted content - check for readable text
-      // If content looks like binary/encoded data, reject it
-      if (!cleanedText || cleanedText.length < 100) {
-        console.warn(`PDF ${filename} appears to be empty or unreadable (only ${cleanedText.length} characters)`);
-        return null;
-      }
+  /**
+   * Check extracted text before indexing
+   * Returns the rejection reason, or null if the text is usable
+   */
+  private checkText(format: DocumentFormat, quality: TextQuality): string | null {
+    if (format !== 'pdf') {
+      return quality.characters < 50 ? `File appears to be empty (${quality.characters} chars)` : null;
+    }
 
-      // Additional validation: check if extracted text contains actual words
-      // Reject hex-encoded content like <456d706c6f> or binary garbage
-      
-      // Check 1: If it contains lots of hex angle-bracket patterns
-      const hexMatches = cleanedText.match(/<[0-9a-f]{2,}>/gi) || [];
-      const hexCount = hexMatches.length;
-      const wordCount = cleanedText.split(/\s+/).length;
-      
-      console.log(`  [PDF Validation] ${filename}: ${cleanedText.length} chars, ${hexCount} hex patterns, ${wordCount} words`);
-      
-      if (hexCount > 10 && hexCount / wordCount > 0.1) {
-        console.warn(`PDF ${filename} contains hex-encoded content (${hexCount} hex patterns, ${(hexCount/wordCount * 100).toFixed(1)}% of words), using mock data instead`);
-        return null;
-      }
+    if (quality.characters < 100) {
+      return `PDF appears to be empty or unreadable (only ${quality.characters} characters)`;
+    }
 
-      // Check 2: If it's mostly binary/encoded (low ASCII ratio)
-      const asciiChars = (cleanedText.match(/[\x00-\x7F]/g) || []).length;
-      const asciiRatio = asciiChars / cleanedText.length;
-      
-      if (asciiRatio < 0.5) {
-        console.warn(`PDF ${filename} is binary/encoded (ASCII: ${(asciiRatio * 100).toFixed(1)}%), using mock data instead`);
-        return null;
+    // Hex-encoded content like <456d706c6f> means the text encoding was not decoded
+    if (quality.hexPatterns > 10 && quality.hexRatio > 0.1) {
+      return `PDF contains hex-encoded content (${quality.hexPatterns} hex patterns, ${(quality.hexRatio * 100).toFixed(1)}% of words)`;
+    }
+
+    // Mostly binary/encoded (low ratio of ASCII + Hebrew characters)
+    if (quality.readableRatio < 0.5) {
+      return `PDF is binary/encoded (readable: ${(quality.readableRatio * 100).toFixed(1)}%)`;
+    }
+
+    // Real text has sequences of letters, not just symbols
+    if (quality.readableWords === 0) {
+      return `PDF has no readable words (${quality.characters} chars but 0 word patterns)`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Read document metadata from front matter (TXT/Markdown) and the JSON sidecar
+   * The sidecar wins on conflicts; the language is detected when not given, and the
+   * policy and effective date are taken from a dated file name ("vacation-policy-2024.pdf")
+   * Throws if the file or its sidecar cannot be read, or the sidecar is not a JSON object
+   */
+  private readMetadata(file: DocumentFile, text: string): DocumentMetadata {
+    let fields: Record<string, unknown> = {};
+
+    if (file.format === 'txt' || file.format === 'md') {
+      fields = parseFrontMatter(fs.readFileSync(file.filePath, 'utf-8')).fields;
+    }
+
+    if (file.metadataPath) {
+      const sidecarName = path.basename(file.metadataPath);
+      let sidecar: unknown;
+      try {
+        sidecar = JSON.parse(fs.readFileSync(file.metadataPath, 'utf-8'));
+      } catch (error) {
+        throw new Error(`Could not parse ${sidecarName}: ${error instanceof Error ? error.message : error}`);
       }
-      
-      // Check 3: If content doesn't have readable words
-      // Real text should have sequences of letters, not just symbols
-      const wordPatterns = cleanedText.match(/[a-zA-Z]{3,}/g) || [];
-      const hebrewPatterns = cleanedText.match(/[\u0590-\u05FF]{2,}/g) || [];
-      const totalReadableWords = wordPatterns.length + hebrewPatterns.length;
-      
-      if (totalReadableWords === 0 && cleanedText.length > 100) {
-        console.warn(`PDF ${filename} has no readable words (${cleanedText.length} chars but 0 word patterns), using mock data instead`);
-        return null;
+      if (!sidecar || typeof sidecar !== 'object' || Array.isArray(sidecar)) {
+        throw new Error(`${sidecarName} must contain a JSON object`);
       }
+      fields = { ...fields, ...sidecar };
+    }
 
-      // Estimate page count from content (rough estimate based on size and content)
-      const pageCount = Math.max(1, Math.ceil(extractedText.length / 3000));
+    const metadata = normalizeMetadata(fields, file.filename);
+    metadata.language = metadata.language || detectLanguage(text);
 
-      // Create document object
-      const document: Document = {
-        id: `doc_${path.basename(filename, '.pdf').toLowerCase()}`,
-        filename,
-        text: cleanedText,
-        sourceUrl: `/documents/${filename}`,
-        pageCount,
-        extractedAt: new Date().toISOString(),
-      };
+    // A declared policy takes its effective date from a dated file name; undeclared
+    // versions are only inferred across files (see assignPolicyVersions)
+    if (metadata.policy && !metadata.effectiveDate) {
+      metadata.effectiveDate = inferVersionFromFilename(file.filename)?.effectiveDate;
+    }
+    return metadata;
+  }
 
-      return document;
-    } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : String(error);
-      
-      // More specific error messages for common issues
-      if (errorMsg.includes('ENOENT')) {
-        console.error(`  → PDF file not found: ${filename}`);
-      } else if (errorMsg.includes('memory')) {
-        console.error(`  → Insufficient memory to parse: ${filename}`);
-      } else {
-        console.error(`  → PDF reading error: ${errorMsg}`);
+  /**
+   * Absolute path of the documents directory
+   */
+  getDocumentsDir(): string {
+    return this.documentsDir;
+  }
+
+  /**
+   * Extract text according to the file format
+   * Throws if the file cannot be read or parsed
+   */
+  private async extractText(file: DocumentFile): Promise<ExtractedText> {
+    if (file.format === 'txt') {
+      return this.extractTextFromTXT(file.filePath);
+    }
+    if (file.format === 'pdf') {
+      return this.extractTextFromPDF(file.filePath, file.filename);
+    }
+    return this.extractTextFromMarkup(file.filePath, file.filename, file.format);
+  }
+
+  /**
+   * Extract text from a TXT file
+   * Simple and reliable method for plain text files
+   */
+  private async extractTextFromTXT(filePath: string): Promise<ExtractedText> {
+    // Read TXT file as UTF-8, without front matter (see readMetadata)
+    const text = parseFrontMatter(fs.readFileSync(filePath, 'utf-8')).body;
+    return { text: text.trim(), pageCount: 1 };
+  }
+
+  /**
+   * Extract text from a DOCX, HTML or Markdown file
+   * Headings are kept as "#" marker paragraphs for the chunker
+   */
+  private async extractTextFromMarkup(
+    filePath: string,
+    filename: string,
+    format: DocumentFormat
+  ): Promise<ExtractedText> {
+    let text = '';
+    if (format === 'docx') {
+      text = extractDocxText(fs.readFileSync(filePath));
+    } else if (format === 'html') {
+      text = extractHtmlText(fs.readFileSync(filePath, 'utf-8'));
+    } else if (format === 'md') {
+      text = extractMarkdownText(fs.readFileSync(filePath, 'utf-8'));
+    }
+
+    const headingCount = (text.match(/^#{1,6} /gm) || []).length;
+    console.log(`  [${format.toUpperCase()}] ${filename}: ${text.length} chars, ${headingCount} headings`);
+
+    return { text: text.trim(), pageCount: 1 };
+  }
+
+  /**
+   * Extract text from a PDF file
+   * Extracts the text of each page with pdf.js, falling back to binary scanning
+   * when the file cannot be read
+   */
+  private async extractTextFromPDF(filePath: string, filename: string): Promise<ExtractedText> {
+    // Read PDF file as buffer
+    const pdfBuffer = fs.readFileSync(filePath);
+
+    // Extract text page by page, with [Page N] markers for the chunker
+    const { text: extractedText, pageCount } = await this.extractPages(pdfBuffer, filename);
+
+    // Clean and normalize text (including visual-order Hebrew repair)
+    const { text: cleanedText, rtlRepair } = this.normalizeText(extractedText);
+    if (rtlRepair.flippedLines > 0) {
+      console.log(`  [RTL Repair] ${filename}: flipped ${rtlRepair.flippedLines} of ${rtlRepair.hebrewLines} Hebrew lines`);
+    }
+
+    return { text: cleanedText, pageCount, rtlRepair };
+  }
+
+  /**
+   * Extract text per page with pdf.js
+   * Pages are prefixed with [Page N] markers; falls back to buffer scanning
+   * (with an estimated page count) if the parser finds no text
+   */
+  private async extractPages(buffer: Buffer, filename: string): Promise<{ text: string; pageCount: number }> {
+    try {
+      const parsed = await parsePDF(buffer);
+      const pages = parsed.pages.filter(page => page.text.trim().length > 0);
+      console.log(`  [PDF Parser] ${filename}: ${parsed.pageCount} pages, ${pages.length} with text`);
+
+      if (pages.length > 0) {
+        return {
+          text: pages.map(page => `[Page ${page.pageNumber}]\n${page.text}`).join('\n\n'),
+          pageCount: parsed.pageCount,
+        };
       }
-      
-      return null;
+    } catch (error) {
+      console.warn(`  [PDF Parser] ${filename}: ${error instanceof Error ? error.message : String(error)}, falling back to buffer scan`);
     }
+
+    const text = this.extractTextFromBuffer(buffer);
+    return {
+      text,
+      pageCount: Math.max(1, Math.ceil(text.length / 3000)),
+    };
   }
 
   /**
@@ -318,12 +644,15 @@ export class PDFLoader {
 
   /**
    * Normalize extracted PDF text
-   * Handles encoding issues, extra whitespace, and special characters
+   * Handles encoding issues, extra whitespace, and special characters,
+   * then restores logical order for Hebrew lines stored in visual order
    */
-  private normalizeText(text: string): string {
-    if (!text) return '';
+  private normalizeText(text: string): { text: string; rtlRepair: RTLRepairReport } {
+    if (!text) {
+      return { text: '', rtlRepair: { totalLines: 0, hebrewLines: 0, flippedLines: 0 } };
+    }
 
-    return text
+    const cleaned = text
       // Remove null bytes and other binary characters
       .replace(/\x00/g, '')
       // Normalize Unicode whitespace (spaces, tabs, line breaks)
@@ -336,16 +665,19 @@ export class PDFLoader {
       .replace(/\n{3,}/g, '\n\n')
       // Remove leading/trailing whitespace
       .trim();
+
+    const { text: repaired, report } = repairVisualOrder(cleaned);
+    return { text: repaired, rtlRepair: report };
   }
 
   /**
-   * Returns mock/sample documents for development and testing
+   * Returns mock/sample documents for development and testing (loader.mockFallback)
    * Includes bilingual HR policy documents
    */
   private getMockDocuments(): Document[] {
     return [
       {
-        id: 'doc_hr_policy_hebrew',
+        id: createDocumentId('hr-policy-hebrew.pdf'),
         filename: 'hr-policy-hebrew.pdf',
         text: `מדיניות משאבי אנוש - עמודות עבודה וזכויות
 
@@ -377,9 +709,10 @@ export class PDFLoader {
         sourceUrl: '/documents/hr-policy-hebrew.pdf',
         pageCount: 1,
         extractedAt: new Date().toISOString(),
+        metadata: { department: 'hr', language: 'he' },
       },
       {
-        id: 'doc_hr_policy_english',
+        id: createDocumentId('hr-policy-english.pdf'),
         filename: 'hr-policy-english.pdf',
         text: `Human Resources Policy - Work Hours and Employee Rights
 
@@ -411,6 +744,7 @@ Section 5: Work From Home Policy
         sourceUrl: '/documents/hr-policy-english.pdf',
         pageCount: 1,
         extractedAt: new Date().toISOString(),
+        metadata: { department: 'hr', language: 'en' },
       },
     ];
   }
@@ -421,5 +755,5 @@ Section 5: Work From Home Policy
  */
 export async function loadDocuments(): Promise<Document[]> {
   const loader = new PDFLoader();
-  return await loader.loadPDFs();
+  return (await loader.loadAll()).documents;
 }
@@ -0,0 +1,116 @@
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+
+/**
+ * Text extracted from a single PDF page
+ */
+export interface PDFPageText {
+  pageNumber: number;
+  text: string;
+}
+
+/**
+ * Result of parsing a PDF file
+ */
+export interface ParsedPDF {
+  pages: PDFPageText[];
+  pageCount: number;
+}
+
+/**
+ * TextLayout - Turns positioned text items into lines of text
+ *
+ * pdf.js reports runs with their final position (text matrix and cm/q/Q
+ * applied); line breaks and word gaps are recovered from those positions,
+ * since PDFs rarely store explicit spaces or newlines
+ */
+class TextLayout {
+  private lines: string[] = [];
+  private current = '';
+  private lastY: number | null = null;
+  private lastEndX = 0;
+  private lastSize = 0;
+
+  /**
+   * Append a text item
+   */
+  show(item: TextItem): void {
+    const [a, b, , , x, y] = item.transform as number[];
+    const size = Math.hypot(a, b) || item.height;
+
+    if (item.str.length > 0) {
+      const lineHeight = Math.max(size, this.lastSize, 1);
+      if (this.lastY !== null && Math.abs(y - this.lastY) > lineHeight * 0.5) {
+        // Larger vertical jumps become paragraph breaks for the chunker
+        this.breakLine(Math.abs(y - this.lastY) > lineHeight * 2);
+      } else if (this.current.length > 0) {
+        const gap = x - this.lastEndX;
+        if ((gap > lineHeight * 0.15 || gap < -lineHeight) && !/\s$/.test(this.current) && !/^\s/.test(item.str)) {
+          this.current += ' ';
+        }
+      }
+
+      this.current += item.str;
+      this.lastY = y;
+      this.lastEndX = x + item.width;
+      this.lastSize = size;
+    }
+
+    if (item.hasEOL && this.current.length > 0) {
+      this.breakLine(false);
+    }
+  }
+
+  toString(): string {
+    this.breakLine(false);
+    return this.lines
+      .join('\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+  }
+
+  private breakLine(paragraph: boolean): void {
+    const line = this.current.replace(/\s+/g, ' ').trim();
+    if (line.length > 0) {
+      this.lines.push(line);
+      if (paragraph) this.lines.push('');
+    }
+    this.current = '';
+  }
+}
+
+/**
+ * Helper function to parse a PDF buffer into per-page text
+ * Uses pdf.js (legacy build, which runs in Node without a worker) and its
+ * getTextContent() for each page
+ */
+export async function parsePDF(buffer: Buffer): Promise<ParsedPDF> {
+  const pdfjs = await import('pdfjs-dist/legacy/build/pdf.mjs');
+
+  // pdf.js takes ownership of the data it is given, so pass a copy
+  const pdf = await pdfjs.getDocument({
+    data: new Uint8Array(buffer),
+    isEvalSupported: false,
+    useSystemFonts: false,
+    disableFontFace: true,
+    verbosity: pdfjs.VerbosityLevel.ERRORS,
+  }).promise;
+
+  try {
+    const pages: PDFPageText[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+
+      const layout = new TextLayout();
+      for (const item of content.items) {
+        if ('str' in item) layout.show(item);
+      }
+      pages.push({ pageNumber, text: layout.toString() });
+      page.cleanup();
+    }
+
+    return { pages, pageCount: pdf.numPages };
+  } finally {
+    await pdf.destroy();
+  }
+}
@@ -0,0 +1,224 @@
+import { analyzeHebrewToken, splitWords, analyzeText } from './hebrew-analyzer';
+import { SearchResult } from './retriever';
+import { logger } from '@/utils/logger';
+
+/**
+ * Reranker - Re-scores the top fused candidates against the query
+ * Returns the same results re-ordered, with relevanceScore and scores.rerank set
+ */
+export interface Reranker {
+  readonly name: string;
+  rerank(query: string, results: SearchResult[]): Promise<SearchResult[]>;
+}
+
+export type RerankerBackend = 'http' | 'heuristic';
+
+/**
+ * Configuration for createReranker
+ */
+export interface RerankerConfig {
+  backend: RerankerBackend;
+  baseUrl?: string; // http: cross-encoder service exposing POST {baseUrl}/rerank
+  apiKey?: string;
+  model?: string;
+  timeoutMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 15000;
+
+// Heuristic reranker feature weights (sum to 1)
+const COVERAGE_WEIGHT = 0.4;
+const PROXIMITY_WEIGHT = 0.25;
+const PHRASE_WEIGHT = 0.15;
+const PRIOR_WEIGHT = 0.2;
+
+/**
+ * Attach rerank scores and sort by them
+ */
+function applyScores(results: SearchResult[], scores: number[]): SearchResult[] {
+  return results
+    .map((result, i) => ({
+      ...result,
+      relevanceScore: scores[i],
+      scores: {
+        fused: result.scores?.fused ?? 0,
+        components: result.scores?.components ?? [],
+        rerank: scores[i],
+      },
+    }))
+    .sort((a, b) => b.relevanceScore - a.relevanceScore);
+}
+
+/**
+ * HttpReranker - Cross-encoder served over HTTP
+ *
+ * Speaks the common /rerank shape used by Cohere, Jina, vLLM and llama.cpp:
+ * { model, query, documents: string[] } → { results: [{ index, relevance_score }] }
+ * Bare arrays of { index, score } (text-embeddings-inference) are accepted too.
+ */
+export class HttpReranker implements Reranker {
+  readonly name: string;
+  private baseUrl: string;
+  private apiKey?: string;
+  private model?: string;
+  private timeoutMs: number;
+
+  constructor(config: Omit<RerankerConfig, 'backend'>) {
+    if (!config.baseUrl) {
+      throw new Error('HttpReranker requires baseUrl');
+    }
+    this.baseUrl = config.baseUrl.replace(/\/+$/, '');
+    this.apiKey = config.apiKey;
+    this.model = config.model;
+    this.timeoutMs = config.timeoutMs || DEFAULT_TIMEOUT_MS;
+    this.name = `http:${this.model || 'default'}`;
+  }
+
+  async rerank(query: string, results: SearchResult[]): Promise<SearchResult[]> {
+    if (results.length === 0) {
+      return results;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      const response = await fetch(`${this.baseUrl}/rerank`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          ...(this.model ? { model: this.model } : {}),
+          query,
+          documents: results.map(result => result.chunk.content),
+        }),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        const detail = await response.text().catch(() => '');
+        throw new Error(`Rerank request failed: ${response.status} ${response.statusText} ${detail}`.trim());
+      }
+
+      const payload = (await response.json()) as
+        | { results?: Array<{ index: number; relevance_score?: number; score?: number }> }
+        | Array<{ index: number; relevance_score?: number; score?: number }>;
+      const items = Array.isArray(payload) ? payload : payload.results || [];
+
+      // Each index must point at a distinct candidate, otherwise the response is not trusted
+      const seen = new Set<number>();
+      for (const item of items) {
+        const raw = item.relevance_score ?? item.score ?? 0;
+        if (
+          !Number.isInteger(item.index) ||
+          item.index < 0 ||
+          item.index >= results.length ||
+          seen.has(item.index) ||
+          typeof raw !== 'number' ||
+          !Number.isFinite(raw)
+        ) {
+          logger.warn(`⚠️  [Reranker] ${this.name} returned an invalid result (index ${item.index}), keeping the original order`);
+          return results;
+        }
+        seen.add(item.index);
+      }
+
+      // Documents the service did not score keep the lowest score
+      const scores = new Array<number>(results.length).fill(0);
+      for (const item of items) {
+        const raw = item.relevance_score ?? item.score ?? 0;
+        // Raw cross-encoder logits are squashed into 0-1
+        scores[item.index] = raw >= 0 && raw <= 1 ? raw : 1 / (1 + Math.exp(-raw));
+      }
+
+      return applyScores(results, scores);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+/**
+ * HeuristicReranker - Lexical reranker that needs no model
+ *
+ * Combines, per candidate:
+ * - coverage: share of (analyzed) query words found in the chunk
+ * - proximity: how close together the matched words occur (needs two or more)
+ * - phrase: whether the query appears verbatim
+ * - prior: the fused relevance the candidate arrived with
+ */
+export class HeuristicReranker implements Reranker {
+  readonly name = 'heuristic';
+
+  async rerank(query: string, results: SearchResult[]): Promise<SearchResult[]> {
+    const queryTerms = Array.from(new Set(splitWords(query).map(word => analyzeHebrewToken(word))));
+    const queryLower = query.trim().toLowerCase();
+
+    const scores = results.map(result => {
+      if (queryTerms.length === 0) {
+        return result.relevanceScore;
+      }
+
+      const positions = new Map(queryTerms.map(term => [term, [] as number[]]));
+      analyzeText(result.chunk.content).forEach((token, i) => positions.get(token)?.push(i));
+      const matched = Array.from(positions.values()).filter(list => list.length > 0);
+
+      const coverage = matched.length / queryTerms.length;
+      const proximity = queryTerms.length === 1
+        ? coverage
+        : matched.length < 2 ? 0 : matched.length / this.smallestWindow(matched);
+      const phrase = queryLower.length > 0 && result.chunk.content.toLowerCase().includes(queryLower) ? 1 : 0;
+
+      return (
+        COVERAGE_WEIGHT * coverage +
+        PROXIMITY_WEIGHT * proximity +
+        PHRASE_WEIGHT * phrase +
+        PRIOR_WEIGHT * result.relevanceScore
+      );
+    });
+
+    return applyScores(results, scores);
+  }
+
+  /**
+   * Length (in tokens) of the shortest window containing one position from every list
+   */
+  private smallestWindow(positionLists: number[][]): number {
+    const events = positionLists
+      .flatMap((list, term) => list.map(position => ({ position, term })))
+      .sort((a, b) => a.position - b.position);
+
+    const counts = new Array<number>(positionLists.length).fill(0);
+    let covered = 0;
+    let best = Infinity;
+    let left = 0;
+
+    for (const event of events) {
+      if (counts[event.term]++ === 0) covered++;
+
+      while (covered === positionLists.length) {
+        best = Math.min(best, event.position - events[left].position + 1);
+        if (--counts[events[left].term] === 0) covered--;
+        left++;
+      }
+    }
+
+    return best;
+  }
+}
+
+/**
+ * Helper function to create a reranker from configuration
+ */
+export function createReranker(config: RerankerConfig): Reranker {
+  switch (config.backend) {
+    case 'http':
+      return new HttpReranker(config);
+    case 'heuristic':
+      return new HeuristicReranker();
+    default:
+      throw new Error(`Unknown reranker backend: ${config.backend}`);
+  }
+}
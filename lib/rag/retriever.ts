@@ -1,4 +1,24 @@
-import { Chunk } from './chunker';
+import { Chunk, getIndexedText } from './chunker';
+import { analyzeHebrewToken, isHebrewPrefixedForm } from './hebrew-analyzer';
+import { SearchFilter, matchesFilter } from './metadata';
+
+/**
+ * Contribution of one ranker to a fused result
+ */
+export interface ComponentScore {
+  ranker: string;
+  rank: number; // 1-based position in that ranker's results
+  score: number; // the ranker's own relevance score (0-1)
+}
+
+/**
+ * Why a result ranked where it did (set by hybrid search)
+ */
+export interface ScoreBreakdown {
+  fused: number; // reciprocal rank fusion score
+  components: ComponentScore[];
+  rerank?: number; // reranker score (0-1), if a reranker ran
+}
 
 /**
  * Search result with relevance score
@@ -7,6 +27,34 @@ export interface SearchResult {
   chunk: Chunk;
   relevanceScore: number;
   matchedTerms: string[];
+  scores?: ScoreBreakdown;
+  duplicates?: Chunk[]; // near-duplicate chunks folded into this result (other sources of the passage)
+}
+
+/**
+ * Common interface of rankers (BM25, fuzzy, vector, external)
+ * `limit` overrides the ranker's own topK, e.g. to fetch fusion candidates
+ * `filter` restricts results to chunks with matching document metadata
+ */
+export interface Retriever {
+  readonly name: string;
+  search(query: string, limit?: number, filter?: SearchFilter): SearchResult[] | Promise<SearchResult[]>;
+}
+
+/**
+ * Occurrences of a term in one chunk
+ */
+interface Posting {
+  frequency: number;
+  positions: number[]; // token offsets within the chunk
+}
+
+/**
+ * Serialized posting lists, used by index snapshots
+ * Inverse document frequency and chunk lengths are derived on load
+ */
+export interface SerializedIndex {
+  postings: Array<[string, Array<[string, number, number[]]>]>; // term -> [chunk_id, frequency, positions][]
 }
 
 /**
@@ -18,28 +66,62 @@ export interface RetrieverConfig {
   minChunkLength?: number;
 }
 
+// BM25 parameters
+const K1 = 1.5;
+const B = 0.75;
+
+// Shorter query terms only match exactly (a two-letter stem is contained in too many words)
+const MIN_PARTIAL_MATCH_LENGTH = 3;
+
+// Length of the vocabulary n-grams used to find partial matches
+const TERM_GRAM_LENGTH = 3;
+
+/**
+ * Character trigrams of a term, each once
+ */
+function termGrams(term: string): string[] {
+  const grams = new Set<string>();
+  for (let i = 0; i + TERM_GRAM_LENGTH <= term.length; i++) {
+    grams.add(term.slice(i, i + TERM_GRAM_LENGTH));
+  }
+  return Array.from(grams);
+}
+
 /**
- * DocumentRetriever - Performs semantic search on document chunks
+ * DocumentRetriever - Performs keyword (BM25) search on document chunks
  * 
  * Implementation:
+ * - Inverted index: term -> posting list (chunk id, frequency, token positions)
+ * - Hebrew tokens are analyzed (suffixes, final letters, niqqud) at index and query time;
+ *   query words lose a prefix only when the rest is indexed, and prefixed forms match fully
  * - Uses BM25-like scoring (term frequency + inverse document frequency)
+ * - Partial matches resolved through a trigram index of the vocabulary, not by scanning
+ *   chunks or the whole vocabulary; each matched term is scored with its own IDF
  * - Keyword matching with position weighting
  * - Server-side only, no external embeddings service needed
  * 
- * For production with better semantic understanding:
- * Consider using OpenAI embeddings or Hugging Face transformers
+ * Queries only score candidate chunks found in the posting lists of their terms.
+ * 
+ * Matches words, not meaning: for paraphrases, use vector or hybrid retrieval
+ * with an embedding model behind the http embedder (see embeddings.ts)
  */
-export class DocumentRetriever {
+export class DocumentRetriever implements Retriever {
+  readonly name = 'bm25';
   private chunks: Chunk[] = [];
   private topK: number;
   private relevanceThreshold: number;
   private minChunkLength: number;
-  private termFrequency: Map<string, Map<string, number>> = new Map(); // chunk_id -> {term -> count}
-  private inverseDocumentFrequency: Map<string, number> = new Map(); // term -> count
+  private postings: Map<string, Map<string, Posting>> = new Map(); // term -> {chunk_id -> posting}
+  private chunkTerms: Map<string, string[]> = new Map(); // chunk_id -> indexed terms (for removal)
+  private chunkTokenCounts: Map<string, number> = new Map(); // chunk_id -> number of tokens
+  private chunksById: Map<string, Chunk> = new Map();
+  private inverseDocumentFrequency: Map<string, number> = new Map(); // term -> idf
+  private termsByGram: Map<string, Set<string>> = new Map(); // trigram -> vocabulary terms containing it
+  private averageChunkLength = 1;
 
   constructor(config?: RetrieverConfig) {
     this.topK = config?.topK || 5;
-    this.relevanceThreshold = config?.relevanceThreshold || 0.15;
+    this.relevanceThreshold = config?.relevanceThreshold ?? 0.15;
     this.minChunkLength = config?.minChunkLength || 50;
   }
 
@@ -52,73 +134,229 @@ export class DocumentRetriever {
     this.buildIndex();
   }
 
+  /**
+   * Initialize retriever from a previously exported index
+   * Skips tokenization of every chunk
+   */
+  loadIndex(chunks: Chunk[], index: SerializedIndex): void {
+    this.chunks = chunks.filter(chunk => chunk.content.length >= this.minChunkLength);
+    this.postings.clear();
+    this.chunkTerms.clear();
+    this.chunkTokenCounts.clear();
+    this.termsByGram.clear();
+
+    for (const [term, entries] of index.postings) {
+      const termPostings = new Map<string, Posting>();
+      for (const [chunkId, frequency, positions] of entries) {
+        termPostings.set(chunkId, { frequency, positions });
+
+        const terms = this.chunkTerms.get(chunkId) || [];
+        terms.push(term);
+        this.chunkTerms.set(chunkId, terms);
+        this.chunkTokenCounts.set(chunkId, (this.chunkTokenCounts.get(chunkId) || 0) + frequency);
+      }
+      this.postings.set(term, termPostings);
+      this.addTermGrams(term);
+    }
+
+    this.updateDerivedStats();
+  }
+
+  /**
+   * Export posting lists for persistence
+   */
+  exportIndex(): SerializedIndex {
+    return {
+      postings: Array.from(this.postings.entries()).map(([term, termPostings]) => [
+        term,
+        Array.from(termPostings.entries()).map(
+          ([chunkId, posting]): [string, number, number[]] => [chunkId, posting.frequency, posting.positions]
+        ),
+      ]),
+    };
+  }
+
   /**
    * Build inverted index for BM25-like scoring
    */
   private buildIndex(): void {
-    this.termFrequency.clear();
-    this.inverseDocumentFrequency.clear();
-
-    const documentFrequency = new Map<string, Set<string>>();
+    this.postings.clear();
+    this.chunkTerms.clear();
+    this.chunkTokenCounts.clear();
+    this.termsByGram.clear();
 
     for (const chunk of this.chunks) {
-      const terms = this.tokenize(chunk.content);
-      const chunkTermFreq = new Map<string, number>();
+      this.indexChunk(chunk);
+    }
 
-      // Count term frequencies in chunk
-      for (const term of terms) {
-        const normalized = term.toLowerCase();
-        chunkTermFreq.set(normalized, (chunkTermFreq.get(normalized) || 0) + 1);
+    this.updateDerivedStats();
+  }
 
-        // Track which chunks contain this term
-        if (!documentFrequency.has(normalized)) {
-          documentFrequency.set(normalized, new Set());
-        }
-        documentFrequency.get(normalized)!.add(chunk.id);
+  /**
+   * Add a chunk's tokens to the posting lists
+   */
+  private indexChunk(chunk: Chunk): void {
+    const tokens = this.splitTerms(getIndexedText(chunk)).map(word => analyzeHebrewToken(word)); // in order, with duplicates
+    const chunkPostings = new Map<string, Posting>();
+
+    tokens.forEach((term, position) => {
+      const posting = chunkPostings.get(term);
+      if (posting) {
+        posting.frequency++;
+        posting.positions.push(position);
+      } else {
+        chunkPostings.set(term, { frequency: 1, positions: [position] });
+      }
+    });
+
+    for (const [term, posting] of Array.from(chunkPostings.entries())) {
+      if (!this.postings.has(term)) {
+        this.postings.set(term, new Map());
+        this.addTermGrams(term);
+      }
+      this.postings.get(term)!.set(chunk.id, posting);
+    }
+
+    this.chunkTerms.set(chunk.id, Array.from(chunkPostings.keys()));
+    this.chunkTokenCounts.set(chunk.id, tokens.length);
+  }
+
+  /**
+   * Remove a chunk from the posting lists
+   */
+  private unindexChunk(chunk: Chunk): void {
+    for (const term of this.chunkTerms.get(chunk.id) || []) {
+      const termPostings = this.postings.get(term);
+      if (!termPostings) continue;
+
+      termPostings.delete(chunk.id);
+      if (termPostings.size === 0) {
+        this.postings.delete(term);
+        this.removeTermGrams(term);
       }
+    }
+
+    this.chunkTerms.delete(chunk.id);
+    this.chunkTokenCounts.delete(chunk.id);
+  }
+
+  /**
+   * Add a new vocabulary term to the trigram index
+   */
+  private addTermGrams(term: string): void {
+    for (const gram of termGrams(term)) {
+      const terms = this.termsByGram.get(gram);
+      if (terms) {
+        terms.add(term);
+      } else {
+        this.termsByGram.set(gram, new Set([term]));
+      }
+    }
+  }
 
-      this.termFrequency.set(chunk.id, chunkTermFreq);
+  /**
+   * Remove a term that left the vocabulary from the trigram index
+   */
+  private removeTermGrams(term: string): void {
+    for (const gram of termGrams(term)) {
+      const terms = this.termsByGram.get(gram);
+      terms?.delete(term);
+      if (terms?.size === 0) {
+        this.termsByGram.delete(gram);
+      }
     }
+  }
+
+  /**
+   * Recalculate inverse document frequency, chunk lookup and average length
+   * Called once after every index change instead of per scored chunk
+   */
+  private updateDerivedStats(): void {
+    this.inverseDocumentFrequency.clear();
 
-    // Calculate inverse document frequency
     const totalChunks = this.chunks.length;
-    for (const [term, chunks] of Array.from(documentFrequency.entries())) {
-      this.inverseDocumentFrequency.set(term, Math.log(totalChunks / chunks.size));
+    for (const [term, termPostings] of Array.from(this.postings.entries())) {
+      this.inverseDocumentFrequency.set(term, Math.log(totalChunks / termPostings.size));
     }
+
+    this.chunksById = new Map(this.chunks.map(chunk => [chunk.id, chunk]));
+
+    const totalLength = this.chunks.reduce((sum, chunk) => sum + chunk.content.length, 0);
+    this.averageChunkLength = this.chunks.length > 0 ? totalLength / this.chunks.length : 1;
+  }
+
+  /**
+   * Replace the chunks of the given documents without rebuilding the whole index
+   * Chunks of documentIds are removed, then newChunks are indexed
+   * Runs synchronously, so concurrent searches see either the old or the new index
+   */
+  updateDocuments(documentIds: string[], newChunks: Chunk[]): void {
+    const replaced = new Set(documentIds);
+    const kept: Chunk[] = [];
+
+    for (const chunk of this.chunks) {
+      if (replaced.has(chunk.documentId)) {
+        this.unindexChunk(chunk);
+      } else {
+        kept.push(chunk);
+      }
+    }
+
+    const added = newChunks.filter(chunk => chunk.content.length >= this.minChunkLength);
+    for (const chunk of added) {
+      this.indexChunk(chunk);
+    }
+
+    this.chunks = kept.concat(added);
+    this.updateDerivedStats();
   }
 
   /**
    * Search for relevant chunks
-   * Improved: better scoring and filtering logic
+   * Only chunks present in the posting lists of the query terms, and matching the filter, are scored
    */
-  search(query: string): SearchResult[] {
+  search(query: string, limit: number = this.topK, filter?: SearchFilter): SearchResult[] {
     if (!query || query.trim().length === 0) {
       return [];
     }
 
     const trimmedQuery = query.trim();
     const queryLower = trimmedQuery.toLowerCase();
-    const queryTerms = this.tokenize(trimmedQuery);
+    const surfaceForms = this.tokenize(trimmedQuery); // analyzed term -> query word
+    const queryTerms = Array.from(surfaceForms.keys());
     const scoredChunks: Array<{ chunk: Chunk; score: number; matchedTerms: string[] }> = [];
 
-    for (const chunk of this.chunks) {
-      const chunkLower = chunk.content.toLowerCase();
+    // Vocabulary terms containing each query term (exact term included)
+    const expansions = new Map(queryTerms.map(term => [term, this.expandTerm(term)]));
+    const candidateIds = new Set<string>();
+    expansions.forEach(termExpansions => {
+      termExpansions.forEach(termPostings => termPostings.forEach((_, chunkId) => candidateIds.add(chunkId)));
+    });
+
+    // Queries without indexable terms (e.g. a single letter) fall back to substring matching
+    const candidates = (queryTerms.length > 0
+      ? Array.from(candidateIds).map(id => this.chunksById.get(id)).filter((c): c is Chunk => c !== undefined)
+      : this.chunks
+    ).filter(chunk => matchesFilter(chunk.metadata, filter));
+
+    for (const chunk of candidates) {
       let score = 0;
       const matchedTerms: string[] = [];
+      const foundTerms = queryTerms.filter(term =>
+        Array.from(expansions.get(term)!.values()).some(termPostings => termPostings.has(chunk.id))
+      );
       
-      // 1. Exact substring match - highest priority
-      if (chunkLower.includes(queryLower)) {
+      // 1. Exact substring match - highest priority (only possible if every term occurs)
+      if (foundTerms.length === queryTerms.length && chunk.content.toLowerCase().includes(queryLower)) {
         score = 10.0; // Maximum score for exact match
         matchedTerms.push(trimmedQuery);
       } else {
         // 2. Tokenized search with BM25
-        score = this.scoreChunk(chunk, queryTerms);
+        score = this.scoreChunk(chunk, queryTerms, expansions);
         if (score > 0) {
-          const foundTerms = queryTerms.filter(term => this.containsTerm(chunk.content, term));
-          
           // Only include if at least 50% of terms found (improved precision)
           if (foundTerms.length / Math.max(queryTerms.length, 1) >= 0.5) {
-            matchedTerms.push(...foundTerms);
+            matchedTerms.push(...foundTerms.map(term => surfaceForms.get(term)!));
           } else {
             // Lower score if not enough terms matched
             score *= 0.5;
@@ -140,139 +378,118 @@ export class DocumentRetriever {
     scoredChunks.sort((a, b) => b.score - a.score);
 
     // Return top K results with better filtering
-    return scoredChunks.slice(0, this.topK).map(({ chunk, score, matchedTerms }) => ({
+    return scoredChunks.slice(0, limit).map(({ chunk, score, matchedTerms }) => ({
       chunk,
       relevanceScore: Math.min(1.0, score / 10.0), // Normalize score to 0-1
       matchedTerms,
     }));
   }
 
+  /**
+   * Whether a stem is indexed on its own or behind a prefix in another word
+   * Words that only extend the query word do not count: "ומנהל" is "ו" + "מנהל",
+   * not evidence that "מנהל" is "מ" + "נהל"
+   */
+  private isIndexedStem(stem: string, word: string): boolean {
+    if (this.postings.has(stem)) {
+      return true;
+    }
+    return Array.from(this.expandTerm(stem).keys()).some(
+      term => !term.endsWith(word) && isHebrewPrefixedForm(term, stem)
+    );
+  }
+
+  /**
+   * Find the vocabulary terms that contain the query term, keyed by term
+   * Catches compounds and inflections the analyzer does not reduce. Candidates
+   * share every trigram of the query term, so only they are compared, not the
+   * whole vocabulary.
+   */
+  private expandTerm(term: string): Map<string, Map<string, Posting>> {
+    const matches = new Map<string, Map<string, Posting>>();
+    const exact = this.postings.get(term);
+    if (exact) {
+      matches.set(term, exact);
+    }
+    if (term.length < MIN_PARTIAL_MATCH_LENGTH) {
+      return matches;
+    }
+
+    const gramSets = termGrams(term).map(gram => this.termsByGram.get(gram));
+    if (gramSets.some(terms => !terms)) {
+      return matches;
+    }
+    const [smallest, ...others] = (gramSets as Set<string>[]).sort((a, b) => a.size - b.size);
+
+    smallest.forEach(candidate => {
+      if (candidate !== term && others.every(terms => terms.has(candidate)) && candidate.includes(term)) {
+        matches.set(candidate, this.postings.get(candidate)!);
+      }
+    });
+    return matches;
+  }
+
   /**
    * Calculate BM25-like score for a chunk
-   * Improved: better handling of partial matches and position weighting
+   * Partial matches count half, earlier first occurrences get a position bonus
+   * Hebrew prefixed forms of a term ("לעובד" for "עובד") count as the term itself
+   * The IDF is that of the matched vocabulary terms, weighted by their matches
    */
-  private scoreChunk(chunk: Chunk, queryTerms: string[]): number {
+  private scoreChunk(
+    chunk: Chunk,
+    queryTerms: string[],
+    expansions: Map<string, Map<string, Map<string, Posting>>>
+  ): number {
     let score = 0;
-    const chunkTermFreq = this.termFrequency.get(chunk.id) || new Map();
-    const k1 = 1.5; // BM25 parameter
-    const b = 0.75; // BM25 parameter
-    const avgChunkLength = this.getAverageChunkLength();
     const chunkLength = chunk.content.length;
-    const chunkLower = chunk.content.toLowerCase();
+    const tokenCount = Math.max(this.chunkTokenCounts.get(chunk.id) || 0, 1);
 
     for (const term of queryTerms) {
-      const normalized = term.toLowerCase();
-      const tf = chunkTermFreq.get(normalized) || 0;
-      
-      // Count partial matches (substring occurrences)
-      const partialMatches = this.countSubstringOccurrences(chunkLower, normalized);
-      const totalMatches = tf + (partialMatches * 0.5);
-      
-      const idf = this.inverseDocumentFrequency.get(normalized) || 0;
+      // The exact term (or a prefixed form) counts fully, and again as its own partial match
+      let totalMatches = 0;
+      let weightedIdf = 0;
+      let firstPosition = -1;
+      for (const [vocabularyTerm, termPostings] of Array.from(expansions.get(term)?.entries() ?? [])) {
+        const posting = termPostings.get(chunk.id);
+        if (!posting) continue;
+
+        const exact = vocabularyTerm === term || isHebrewPrefixedForm(vocabularyTerm, term);
+        const matches = posting.frequency * (exact ? 1.5 : 0.5);
+        totalMatches += matches;
+        weightedIdf += matches * (this.inverseDocumentFrequency.get(vocabularyTerm) || 0);
+        if (firstPosition === -1 || posting.positions[0] < firstPosition) {
+          firstPosition = posting.positions[0];
+        }
+      }
+
+      const idf = totalMatches > 0 ? weightedIdf / totalMatches : 0;
 
       // BM25 formula with partial match consideration
       const bm25Score =
         idf *
-        ((totalMatches * (k1 + 1)) / (totalMatches + k1 * (1 - b + b * (chunkLength / avgChunkLength))));
+        ((totalMatches * (K1 + 1)) / (totalMatches + K1 * (1 - B + B * (chunkLength / this.averageChunkLength))));
 
       score += bm25Score;
 
-      // Position-based bonuses
-      const positionBonus = this.calculatePositionBonus(chunkLower, normalized);
-      score += positionBonus * 0.5;
+      // Position-based bonus: start gets 2.0, end gets 0.2
+      if (firstPosition !== -1) {
+        const positionBonus = 2.0 - (firstPosition / tokenCount) * 1.8;
+        score += positionBonus * 0.5;
+      }
     }
 
-    // Penalize very short matches to false positives
     return Math.max(0, score);
   }
 
   /**
-   * Count substring occurrences (improved from simple token matching)
+   * Split text into lowercased words (shared by indexing and querying)
+   * Keeps order and duplicates, so positions are token offsets
+   * Splits on spaces and common punctuation, including RTL punctuation and maqaf
    */
-  private countSubstringOccurrences(text: string, substring: string): number {
-    if (substring.length === 0) return 0;
-    let count = 0;
-    let index = 0;
-    while ((index = text.indexOf(substring, index)) !== -1) {
-      count++;
-      index += substring.length;
-    }
-    return count;
-  }
-
-  /**
-   * Calculate position bonus based on where term appears
-   * Earlier appearances get higher bonus
-   */
-  private calculatePositionBonus(text: string, term: string): number {
-    const index = text.indexOf(term);
-    if (index === -1) return 0;
-    
-    // Normalize position: start gets 2.0, end gets 0.2
-    const positionRatio = index / Math.max(text.length, 1);
-    return 2.0 - (positionRatio * 1.8);
-  }
-
-  /**
-   * Check if all query terms are in chunk (for phrase matching)
-   * Improved for Hebrew: handles partial word matching and inflections
-   */
-  private containsTerm(text: string, term: string): boolean {
-    const normalized = text.toLowerCase();
-    const termLower = term.toLowerCase();
-    
-    // Direct substring match
-    if (normalized.includes(termLower)) {
-      return true;
-    }
-    
-    // For Hebrew words, try partial matching (suffix/prefix matching)
-    // This helps with Hebrew word conjugations and plurals
-    if (termLower.length >= 3) {
-      // Check if term is contained as a whole word boundary match
-      const wordBoundaryRegex = new RegExp(`\\b${this.escapeRegex(termLower)}\\b`, 'u');
-      return wordBoundaryRegex.test(normalized);
-    }
-    
-    return false;
-  }
-
-  /**
-   * Escape special regex characters
-   */
-  private escapeRegex(str: string): string {
-    return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-  }
-
-  /**
-   * Bonus scoring if term appears near chunk start
-   */
-  private isTermInChunkStart(chunk: Chunk, term: string): boolean {
-    const startContent = chunk.content.substring(0, 200).toLowerCase();
-    return startContent.includes(term);
-  }
-
-  /**
-   * Get average chunk length for normalization
-   */
-  private getAverageChunkLength(): number {
-    if (this.chunks.length === 0) return 1;
-    const totalLength = this.chunks.reduce((sum, chunk) => sum + chunk.content.length, 0);
-    return totalLength / this.chunks.length;
-  }
-
-  /**
-   * Tokenize text into terms
-   * Improved tokenization for better accuracy
-   */
-  private tokenize(text: string): string[] {
-    // More sophisticated tokenization:
-    // - Split on spaces and common punctuation
-    // - Preserve Hebrew words properly
-    // - Handle numbers and mixed content
-    const tokens = text
+  private splitTerms(text: string): string[] {
+    return text
       .toLowerCase()
-      .split(/[\s\-.,;:!?()[\]{}'"،、।‌]+/) // Include various punctuation marks including RTL punctuation
+      .split(/[\s\-.,;:!?()[\]{}'"،、।‌־]+/)
       .filter(term => {
         // Keep terms with at least 2 characters or numeric terms
         if (term.length < 2) return false;
@@ -280,10 +497,23 @@ export class DocumentRetriever {
         if (!/[א-תA-Za-z0-9]/.test(term)) return false;
         return true;
       });
-    
-    // Remove duplicates and sort by length (longer terms first for better matching)
-    const uniqueTokens = Array.from(new Set(tokens));
-    return uniqueTokens.sort((a, b) => b.length - a.length);
+  }
+
+  /**
+   * Tokenize query into unique analyzed terms, mapped to the word they came from
+   * Hebrew prefixes are stripped only to an indexed term ("לעובד" → "עובד")
+   * Sorted by length (longer terms first for better matching)
+   */
+  private tokenize(text: string): Map<string, string> {
+    const terms = new Map<string, string>();
+    for (const word of this.splitTerms(text)) {
+      const unprefixed = analyzeHebrewToken(word);
+      const term = analyzeHebrewToken(word, stem => this.isIndexedStem(stem, unprefixed));
+      if (!terms.has(term)) {
+        terms.set(term, word);
+      }
+    }
+    return new Map(Array.from(terms.entries()).sort((a, b) => b[0].length - a[0].length));
   }
 
   /**
@@ -307,7 +537,7 @@ export class DocumentRetriever {
     return {
       totalChunks: this.chunks.length,
       uniqueTerms: this.inverseDocumentFrequency.size,
-      averageChunkLength: this.getAverageChunkLength(),
+      averageChunkLength: this.averageChunkLength,
       documentCount: new Set(this.chunks.map(c => c.documentId)).size,
     };
   }
@@ -322,6 +552,15 @@ export function createRetriever(chunks: Chunk[], config?: RetrieverConfig): Docu
   return retriever;
 }
 
+/**
+ * Helper function to create a retriever from a serialized index
+ */
+export function restoreRetriever(chunks: Chunk[], index: SerializedIndex, config?: RetrieverConfig): DocumentRetriever {
+  const retriever = new DocumentRetriever(config);
+  retriever.loadIndex(chunks, index);
+  return retriever;
+}
+
 /**
  * Format search results for display (e.g., in system prompt)
  */
@@ -334,6 +573,8 @@ export function formatSearchResults(results: SearchResult[]): string {
     .map(
       (result, index) =>
         `[Document ${index + 1}: ${result.chunk.documentName}]\n` +
+        (result.chunk.breadcrumb ? `Section: ${result.chunk.breadcrumb}\n` : '') +
+        (result.duplicates ? `Also in: ${Array.from(new Set(result.duplicates.map(chunk => chunk.documentName))).join(', ')}\n` : '') +
         `Score: ${(result.relevanceScore * 100).toFixed(1)}%\n` +
         `Content:\n${result.chunk.content.substring(0, 500)}...\n`
     )
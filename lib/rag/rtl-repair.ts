@@ -0,0 +1,165 @@
+/**
+ * Per-document summary of visual-order repair
+ */
+export interface RTLRepairReport {
+  totalLines: number;
+  hebrewLines: number;
+  flippedLines: number;
+}
+
+/**
+ * Repaired text together with its report
+ */
+export interface RTLRepairResult {
+  text: string;
+  report: RTLRepairReport;
+}
+
+const HEBREW_LETTER = /[א-ת]/;
+const LATIN_LETTER = /[A-Za-z]/g;
+const HEBREW_LETTERS = /[א-ת]/g;
+const HEBREW_WORD = /[\u0591-\u05C7א-ת]+/g;
+
+// Letters with a distinct final form: kaf, mem, nun, pe, tsadi
+const FINAL_FORMS = 'ךםןףץ';
+const NON_FINAL_FORMS = 'כמנפצ';
+
+// Niqqud and cantillation marks stay attached to the preceding letter when reversing
+const CLUSTER = /[\s\S][\u0591-\u05BD\u05BF\u05C1\u05C2\u05C4\u05C5\u05C7]*/g;
+
+// LTR runs (numbers, Latin words, times, dates) that keep their internal order
+const LTR_TOKEN = "[%$€]?[A-Za-z0-9]+(?:[.,:/\\-_@'+&][A-Za-z0-9]+)*%?";
+const LTR_RUN = new RegExp(`${LTR_TOKEN}(?: +${LTR_TOKEN})*`, 'g');
+
+// Hebrew runs embedded in left-to-right lines
+const HEBREW_RUN = /[\u0591-\u05C7א-ת]+(?:[ \-'"׳״]+[\u0591-\u05C7א-ת]+)*/g;
+
+const MIRRORED: Record<string, string> = {
+  '(': ')', ')': '(', '[': ']', ']': '[', '{': '}', '}': '{', '<': '>', '>': '<',
+};
+
+type LineDirection = 'logical' | 'visual' | 'unknown';
+
+/**
+ * RTLTextRepairer - Restores logical order for Hebrew text stored visually
+ *
+ * Many Hebrew word processors write glyphs to PDF in display (visual) order,
+ * so extracted words come out reversed ("תועש" instead of "שעות").
+ *
+ * Strategy:
+ * 1. Score each line using final letters: logical Hebrew words end with
+ *    ך ם ן ף ץ and never start with them; reversed words do the opposite
+ * 2. Lines without evidence follow the document-wide majority
+ * 3. Flip RTL lines as a whole (restoring word order), then re-reverse
+ *    numbers and Latin words so they stay in logical order
+ * 4. In LTR lines, only the embedded Hebrew runs are reversed
+ */
+export class RTLTextRepairer {
+  /**
+   * Detect and repair visually ordered lines
+   */
+  repair(text: string): RTLRepairResult {
+    const lines = text.split('\n');
+    const directions = lines.map(line => this.detectDirection(line));
+
+    const visualCount = directions.filter(d => d === 'visual').length;
+    const logicalCount = directions.filter(d => d === 'logical').length;
+    const documentIsVisual = visualCount > logicalCount;
+
+    let hebrewLines = 0;
+    let flippedLines = 0;
+
+    const repaired = lines.map((line, i) => {
+      if (!HEBREW_LETTER.test(line)) return line;
+      hebrewLines++;
+
+      const direction = directions[i] === 'unknown' ? (documentIsVisual ? 'visual' : 'logical') : directions[i];
+      if (direction !== 'visual') return line;
+
+      flippedLines++;
+      return this.isLeftToRightLine(line) ? this.flipHebrewRuns(line) : this.flipLine(line);
+    });
+
+    return {
+      text: repaired.join('\n'),
+      report: {
+        totalLines: lines.length,
+        hebrewLines,
+        flippedLines,
+      },
+    };
+  }
+
+  /**
+   * Classify a line by where final-form letters appear in its Hebrew words
+   */
+  private detectDirection(line: string): LineDirection {
+    let logicalEvidence = 0;
+    let visualEvidence = 0;
+
+    for (const word of line.match(HEBREW_WORD) || []) {
+      const letters = word.replace(/[^א-ת]/g, '');
+      if (letters.length < 2) continue;
+
+      const first = letters[0];
+      const last = letters[letters.length - 1];
+
+      if (FINAL_FORMS.includes(last)) logicalEvidence++;
+      if (NON_FINAL_FORMS.includes(first)) logicalEvidence++;
+      if (FINAL_FORMS.includes(first)) visualEvidence++;
+      if (NON_FINAL_FORMS.includes(last)) visualEvidence++;
+    }
+
+    if (visualEvidence > logicalEvidence) return 'visual';
+    if (logicalEvidence > visualEvidence) return 'logical';
+    return 'unknown';
+  }
+
+  /**
+   * Lines dominated by Latin letters have a left-to-right base direction
+   */
+  private isLeftToRightLine(line: string): boolean {
+    const latin = (line.match(LATIN_LETTER) || []).length;
+    const hebrew = (line.match(HEBREW_LETTERS) || []).length;
+    return latin > hebrew;
+  }
+
+  /**
+   * Reverse a whole RTL line, keeping LTR runs in logical order
+   */
+  private flipLine(line: string): string {
+    const reversed = this.reverseClusters(line)
+      .split('')
+      .map(ch => MIRRORED[ch] ?? ch)
+      .join('');
+
+    return reversed.replace(LTR_RUN, run => {
+      // Latin phrases read left to right as a unit; bare numbers keep RTL order between them
+      if (/[A-Za-z]/.test(run)) {
+        return this.reverseClusters(run);
+      }
+      return run
+        .split(' ')
+        .map(token => this.reverseClusters(token))
+        .join(' ');
+    });
+  }
+
+  /**
+   * Reverse only the Hebrew runs of an LTR line
+   */
+  private flipHebrewRuns(line: string): string {
+    return line.replace(HEBREW_RUN, run => this.reverseClusters(run));
+  }
+
+  private reverseClusters(text: string): string {
+    return (text.match(CLUSTER) || []).reverse().join('');
+  }
+}
+
+/**
+ * Helper function to repair visually ordered Hebrew text
+ */
+export function repairVisualOrder(text: string): RTLRepairResult {
+  return new RTLTextRepairer().repair(text);
+}
@@ -0,0 +1,111 @@
+/**
+ * Range of a text, as [start, end) character offsets
+ */
+export interface TextSpan {
+  start: number;
+  end: number;
+}
+
+// Period, exclamation and question marks, ellipsis and Hebrew sof pasuq (׃)
+const TERMINATORS = '.!?…׃';
+
+// Closing quotes and brackets that belong to the sentence before them (incl. geresh ׳ and gershayim ״)
+const CLOSERS = '"\'”’»)]׳״';
+
+// Lowercased abbreviations (without the final period) that do not end a sentence
+const ABBREVIATIONS = new Set([
+  'e.g', 'i.e', 'etc', 'vs', 'cf', 'al', 'approx', 'est',
+  'mr', 'mrs', 'ms', 'dr', 'prof', 'st', 'jr', 'sr',
+  'no', 'nos', 'vol', 'p', 'pp', 'fig', 'art', 'sec', 'para',
+  'inc', 'ltd', 'co', 'corp', 'dept', 'min', 'max', 'tel', 'ext',
+  'jan', 'feb', 'mar', 'apr', 'jun', 'jul', 'aug', 'sep', 'sept', 'oct', 'nov', 'dec',
+]);
+
+// "J." and initials such as "U.S." or "ת.ז." (a lone Hebrew letter is not an initial: "נספח ב.")
+const INITIALS = /^(?:[A-Z]|(?:[A-Za-zא-ת]\.)+[A-Za-zא-ת])$/;
+
+// Hebrew abbreviations end with a geresh: "מס'", "עמ׳"
+const GERESH_ABBREVIATION = /[א-ת]['׳]$/;
+
+const WORD_CHAR = /[A-Za-zא-ת.'׳]/;
+
+/**
+ * Split a text (or a span of it) into sentences with offsets into the text
+ *
+ * A sentence ends at a terminator followed by whitespace, or at a line break
+ * (list items, headings, table rows). Not treated as sentence ends:
+ * - decimals, times and clause numbers ("1.5", "09.00", "6.2.1"), dotted names ("example.com")
+ * - known abbreviations ("e.g.", "Dr.", "No. 5") and initials ("J. Smith", "ת.ז.")
+ * - Hebrew abbreviations with a geresh followed by a period ("מס'. 5")
+ * - a period followed by a lowercase Latin word
+ *
+ * Returned spans are trimmed; empty ones are dropped.
+ */
+export function splitSentences(text: string, span: TextSpan = { start: 0, end: text.length }): TextSpan[] {
+  const sentences: TextSpan[] = [];
+  let sentenceStart = span.start;
+
+  const push = (start: number, end: number) => {
+    const trimmed = trimSpan(text, { start, end });
+    if (trimmed.end > trimmed.start) {
+      sentences.push(trimmed);
+    }
+  };
+
+  for (let i = span.start; i < span.end; i++) {
+    const char = text[i];
+
+    if (char === '\n') {
+      push(sentenceStart, i);
+      sentenceStart = i + 1;
+      continue;
+    }
+    if (!TERMINATORS.includes(char)) {
+      continue;
+    }
+
+    let end = i + 1;
+    while (end < span.end && (TERMINATORS.includes(text[end]) || CLOSERS.includes(text[end]))) {
+      end++;
+    }
+
+    const followedBySpace = end >= span.end || /\s/.test(text[end]);
+    if (followedBySpace && !(char === '.' && isAbbreviation(text, i, end, span))) {
+      push(sentenceStart, end);
+      sentenceStart = end;
+    }
+    i = end - 1;
+  }
+
+  push(sentenceStart, span.end);
+  return sentences;
+}
+
+/**
+ * Check whether the period at `index` belongs to an abbreviation rather than ending a sentence
+ */
+function isAbbreviation(text: string, index: number, end: number, span: TextSpan): boolean {
+  let wordStart = index;
+  while (wordStart > span.start && WORD_CHAR.test(text[wordStart - 1])) {
+    wordStart--;
+  }
+  const word = text.slice(wordStart, index);
+
+  if (ABBREVIATIONS.has(word.toLowerCase()) || INITIALS.test(word) || GERESH_ABBREVIATION.test(word)) {
+    return true;
+  }
+
+  // "... approx. three weeks": the sentence continues in lowercase
+  const next = text.slice(end, span.end).match(/^[ \t]*(\S)/);
+  return next !== null && /[a-z]/.test(next[1]);
+}
+
+/**
+ * Shrink a span to exclude leading and trailing whitespace
+ */
+export function trimSpan(text: string, span: TextSpan): TextSpan {
+  let { start, end } = span;
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  return { start, end };
+}
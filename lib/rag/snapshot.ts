@@ -0,0 +1,87 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Document, DocumentFile, FileIngestionReport } from './pdf-loader';
+import { Chunk, ChunkingConfig } from './chunker';
+import { SerializedIndex } from './retriever';
+import { SerializedVectorStore } from './vector-store';
+import { logger } from '@/utils/logger';
+
+/**
+ * Bump when the shape of documents, chunks or the serialized index changes
+ * Snapshots with a different version are ignored and rebuilt
+ */
+export const SNAPSHOT_VERSION = 11;
+
+/**
+ * Serialized RAG state: documents, chunks, the inverted index and chunk embeddings
+ */
+export interface IndexSnapshot {
+  version: number;
+  createdAt: string;
+  fileHashes: Record<string, string>; // filename -> sha256 of source file
+  chunking?: ChunkingConfig; // chunker settings the chunks were built with
+  documents: Document[];
+  chunks: Chunk[];
+  index: SerializedIndex;
+  vectors?: SerializedVectorStore; // only when built in vector retrieval mode
+  ingestion?: FileIngestionReport[]; // extraction report per source file
+}
+
+/**
+ * Read a snapshot from disk
+ * Returns null if it is missing, unreadable or from another format version
+ */
+export function readSnapshot(snapshotPath: string): IndexSnapshot | null {
+  try {
+    if (!fs.existsSync(snapshotPath)) {
+      return null;
+    }
+
+    const snapshot = JSON.parse(fs.readFileSync(snapshotPath, 'utf-8')) as IndexSnapshot;
+    if (snapshot.version !== SNAPSHOT_VERSION) {
+      logger.warn(`⚠️  [Snapshot] Ignoring snapshot version ${snapshot.version} (expected ${SNAPSHOT_VERSION})`);
+      return null;
+    }
+    if (!Array.isArray(snapshot.documents) || !Array.isArray(snapshot.chunks) || !snapshot.index) {
+      logger.warn('⚠️  [Snapshot] Ignoring malformed snapshot');
+      return null;
+    }
+
+    return snapshot;
+  } catch (error) {
+    logger.warn(`⚠️  [Snapshot] Failed to read ${snapshotPath}:`, error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+/**
+ * Write a snapshot to disk (atomically, via a temporary file)
+ * Returns false on read-only filesystems instead of throwing
+ */
+export function writeSnapshot(snapshotPath: string, snapshot: IndexSnapshot): boolean {
+  try {
+    fs.mkdirSync(path.dirname(snapshotPath), { recursive: true });
+    const tempPath = `${snapshotPath}.${process.pid}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(snapshot));
+    fs.renameSync(tempPath, snapshotPath);
+    return true;
+  } catch (error) {
+    logger.warn(`⚠️  [Snapshot] Failed to write ${snapshotPath}:`, error instanceof Error ? error.message : error);
+    return false;
+  }
+}
+
+/**
+ * Check that a snapshot was built from exactly the given source files
+ * (and, when given, with the same chunker settings)
+ */
+export function snapshotMatchesFiles(snapshot: IndexSnapshot, files: DocumentFile[], chunking?: ChunkingConfig): boolean {
+  const snapshotFiles = Object.keys(snapshot.fileHashes);
+  if (snapshotFiles.length !== files.length || files.length === 0) {
+    return false;
+  }
+  if (chunking && JSON.stringify(snapshot.chunking) !== JSON.stringify(chunking)) {
+    return false;
+  }
+  return files.every(file => snapshot.fileHashes[file.filename] === file.contentHash);
+}
@@ -0,0 +1,201 @@
+/**
+ * Snippet extraction for search results
+ *
+ * Picks the window of a chunk that covers the most matched query terms, so tool
+ * output carries the relevant sentences instead of the whole chunk, and reports
+ * where the terms occur in the snippet so the UI can highlight them.
+ *
+ * No server-only imports, so the types can be used by the client too.
+ */
+
+import { analyzeHebrewToken, hebrewPrefixVariants } from './hebrew-analyzer';
+
+/**
+ * Character range [start, end)
+ */
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * A window of a text with its term occurrences
+ */
+export interface Snippet {
+  text: string; // with "…" where the window cuts the source text
+  highlights: TextRange[]; // term occurrences, offsets into text
+  range: TextRange; // part of the source text shown, offsets into the source
+}
+
+// Term occurrence in the source text, with the analyzed term it matched
+interface TermMatch extends TextRange {
+  term: string;
+}
+
+// Words as the BM25 tokenizer sees them (see splitWords)
+const WORD = /[a-z0-9\u00C0-\u024F\u0591-\u05F4]+/gi;
+
+// Where a snippet may start cleanly: after a line break or sentence end
+const SENTENCE_START = /(?:\n|[.!?:\u05C3]\s)\s*/g;
+
+// Shortest snippet given out when the character budget is nearly spent
+const MIN_SNIPPET_LENGTH = 80;
+
+const ELLIPSIS = '…';
+
+/**
+ * Find the words of a text that match any of the terms
+ * A word matches when its analyzed form equals a term's (up to Hebrew prefixes on either)
+ * or extends it, e.g. "vacations" for "vacation"
+ */
+export function findTermMatches(text: string, terms: string[]): TermMatch[] {
+  const wanted = new Set<string>();
+  terms.forEach(term =>
+    (term.toLowerCase().match(WORD) || [])
+      .filter(word => word.length > 1)
+      .forEach(word => {
+        const analyzed = analyzeHebrewToken(word);
+        [analyzed, ...hebrewPrefixVariants(analyzed)].forEach(form => wanted.add(form));
+      })
+  );
+  if (wanted.size === 0) {
+    return [];
+  }
+
+  const stems = Array.from(wanted);
+  const matchTerm = (word: string): string | undefined => {
+    const analyzed = analyzeHebrewToken(word);
+    const forms = [analyzed, ...hebrewPrefixVariants(analyzed)];
+    return forms.find(form => wanted.has(form)) ??
+      stems.find(stem => stem.length >= 3 && analyzed.startsWith(stem));
+  };
+
+  const matches: TermMatch[] = [];
+  const pattern = new RegExp(WORD.source, 'gi');
+  let found: RegExpExecArray | null;
+  while ((found = pattern.exec(text)) !== null) {
+    if (found[0].length < 2) continue;
+    const term = matchTerm(found[0].toLowerCase());
+    if (term) {
+      matches.push({ start: found.index, end: found.index + found[0].length, term });
+    }
+  }
+  return matches;
+}
+
+/**
+ * Extract the window of at most maxLength characters (0 = whole text) that
+ * covers the most distinct terms, then the most occurrences
+ * The window is widened to the start of its first sentence where it fits,
+ * and never cuts a word
+ */
+export function extractSnippet(text: string, terms: string[], maxLength: number): Snippet {
+  const matches = findTermMatches(text, terms);
+  if (maxLength <= 0 || text.length <= maxLength) {
+    return { text, highlights: matches.map(({ start, end }) => ({ start, end })), range: { start: 0, end: text.length } };
+  }
+
+  const windowLength = Math.max(maxLength - 2 * ELLIPSIS.length, 1);
+
+  // Best run of matches that fits in the window
+  let first = -1;
+  let last = -1;
+  let bestDistinct = 0;
+  let bestHits = 0;
+  matches.forEach((match, i) => {
+    let j = i;
+    while (j + 1 < matches.length && matches[j + 1].end - match.start <= windowLength) j++;
+
+    const inWindow = matches.slice(i, j + 1);
+    const distinct = new Set(inWindow.map(m => m.term)).size;
+    if (distinct > bestDistinct || (distinct === bestDistinct && inWindow.length > bestHits)) {
+      first = i;
+      last = j;
+      bestDistinct = distinct;
+      bestHits = inWindow.length;
+    }
+  });
+
+  let start = 0;
+  if (first >= 0) {
+    const covered = { start: matches[first].start, end: matches[last].end };
+    const slack = windowLength - (covered.end - covered.start);
+    start = Math.max(0, Math.min(covered.start - Math.floor(slack / 2), text.length - windowLength));
+    start = snapToSentence(text, start, covered.start);
+  }
+  start = snapToWord(text, start);
+
+  let end = Math.min(text.length, start + windowLength);
+  if (end < text.length) {
+    const lastSpace = text.lastIndexOf(' ', end);
+    if (lastSpace > start + windowLength * 0.8) end = lastSpace;
+  }
+
+  // Trim whitespace at the cut
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+
+  const prefix = start > 0 ? ELLIPSIS : '';
+  const suffix = end < text.length ? ELLIPSIS : '';
+  const shift = prefix.length - start;
+
+  return {
+    text: `${prefix}${text.slice(start, end)}${suffix}`,
+    highlights: matches
+      .filter(match => match.start >= start && match.end <= end)
+      .map(match => ({ start: match.start + shift, end: match.end + shift })),
+    range: { start, end },
+  };
+}
+
+/**
+ * Move a window start forward to the first sentence start before the first match
+ */
+function snapToSentence(text: string, start: number, firstMatch: number): number {
+  if (start === 0) {
+    return 0;
+  }
+  const pattern = new RegExp(SENTENCE_START.source, 'g');
+  pattern.lastIndex = start;
+  const found = pattern.exec(text);
+  return found && found.index + found[0].length <= firstMatch ? found.index + found[0].length : start;
+}
+
+/**
+ * Move a window start forward past a partial word
+ */
+function snapToWord(text: string, start: number): number {
+  const isWordChar = (char: string) => new RegExp(WORD.source, 'i').test(char);
+  if (start === 0 || !isWordChar(text[start - 1]) || !isWordChar(text[start])) {
+    return start;
+  }
+  while (start < text.length && isWordChar(text[start])) start++;
+  return start;
+}
+
+/**
+ * Split a character budget across snippets
+ * Each snippet gets at most maxLength (0 = no per-snippet limit) and never more than
+ * its text needs; what short snippets leave over goes to the longer ones.
+ * Returns the maxLength to pass to extractSnippet for each text
+ */
+export function allocateSnippetLengths(textLengths: number[], budget: number, maxLength: number): number[] {
+  if (budget <= 0) {
+    return textLengths.map(() => maxLength);
+  }
+
+  const needs = textLengths.map(length => (maxLength > 0 ? Math.min(length, maxLength) : length));
+  const lengths = needs.slice();
+  let remaining = budget;
+
+  needs
+    .map((need, i) => ({ need, i }))
+    .sort((a, b) => a.need - b.need)
+    .forEach(({ need, i }, k, ordered) => {
+      const share = Math.floor(remaining / (ordered.length - k));
+      lengths[i] = Math.max(Math.min(need, share), Math.min(need, MIN_SNIPPET_LENGTH));
+      remaining = Math.max(0, remaining - lengths[i]);
+    });
+
+  return lengths;
+}
@@ -0,0 +1,35 @@
+/**
+ * Counts model tokens in a text
+ * Plug in an exact tokenizer (e.g. tiktoken's encode(text).length) through ChunkingConfig.countTokens
+ */
+export type TokenCounter = (text: string) => number;
+
+const LATIN_WORD = /^[A-Za-z\u00C0-\u024F]/;
+const HEBREW_WORD = /^[\u0590-\u05FF]/;
+const DIGITS = /^\d/;
+
+/**
+ * Estimate the token count of BPE tokenizers (cl100k / o200k family) without a vocabulary
+ * - Latin words: about 1 token per 4 characters
+ * - Hebrew words: about 1 token per 2 characters (the vocabularies hold few Hebrew merges)
+ * - digits: 1 token per 3 digits
+ * - punctuation and other symbols: 1 token each
+ * Errs on the high side, so token-sized chunks stay within model limits
+ */
+export function estimateTokens(text: string): number {
+  const pieces = text.match(/[A-Za-z\u00C0-\u024F]+|[\u0590-\u05FF]+|\d+|[^\sA-Za-z\u00C0-\u024F\u0590-\u05FF\d]/g) || [];
+
+  let tokens = 0;
+  for (const piece of pieces) {
+    if (DIGITS.test(piece)) {
+      tokens += Math.ceil(piece.length / 3);
+    } else if (HEBREW_WORD.test(piece)) {
+      tokens += Math.ceil(piece.length / 2);
+    } else if (LATIN_WORD.test(piece)) {
+      tokens += Math.ceil(piece.length / 4);
+    } else {
+      tokens += 1;
+    }
+  }
+  return tokens;
+}
@@ -0,0 +1,16 @@
+/**
+ * Tool output for the model
+ *
+ * The relay, the MCP server and the browser session all answer a function call
+ * with the same text, so the model sees the same output on every path.
+ *
+ * No server-only imports, so the helper can be used by the client too.
+ */
+
+/**
+ * Tool result as text for the model: its formatted_response, or the result as JSON
+ */
+export function formatToolOutput(result: unknown): string {
+  const formatted = (result as { formatted_response?: unknown } | null)?.formatted_response;
+  return typeof formatted === 'string' ? formatted : JSON.stringify(result, null, 2);
+}
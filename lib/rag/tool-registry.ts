@@ -0,0 +1,254 @@
+/**
+ * Tool Registry
+ *
+ * Every tool the agent can call is declared once here: its JSON schema, an
+ * optional argument check the schema cannot express and its handler. The
+ * realtime session takes its tool definitions from the registry and
+ * /api/tools/call dispatches through it, so adding a tool is one register() call.
+ */
+
+import {
+  GET_DOCUMENT_OUTLINE_TOOL,
+  GET_DOCUMENT_STATS_TOOL,
+  LIST_DOCUMENTS_TOOL,
+  READ_SECTION_TOOL,
+  SEARCH_PDFS_TOOL,
+  handleGetDocumentOutline,
+  handleGetDocumentStats,
+  handleListDocuments,
+  handleReadSection,
+  handleSearchPdfs,
+} from './mcp-tools';
+import { SearchFilter, validateAsOf } from './metadata';
+
+/**
+ * JSON schema subset used by tool parameters
+ */
+export interface JSONSchema {
+  type?: string; // object, array, string, number, integer or boolean
+  description?: string;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  enum?: readonly unknown[];
+  items?: JSONSchema;
+  anyOf?: JSONSchema[];
+  minimum?: number;
+  maximum?: number;
+}
+
+/**
+ * Tool definition in the Realtime API format (name at the top level)
+ */
+export interface ToolDefinition {
+  type: 'function';
+  name: string;
+  description: string;
+  parameters: JSONSchema;
+}
+
+/**
+ * A callable tool
+ */
+export interface RegisteredTool {
+  definition: ToolDefinition;
+  validate?: (args: Record<string, unknown>) => string | null; // checks beyond the schema
+  handler: (args: Record<string, unknown>) => Promise<unknown>;
+}
+
+/**
+ * Check a value against a schema
+ * Returns an error message naming the offending path, or null when valid
+ */
+export function validateAgainstSchema(value: unknown, schema: JSONSchema, path: string): string | null {
+  if (schema.anyOf) {
+    const errors = schema.anyOf.map(option => validateAgainstSchema(value, option, path));
+    if (!errors.includes(null)) {
+      // Prefer the error of the alternative with the right type, e.g. a wrong enum value or list item
+      const matching = schema.anyOf.findIndex(
+        option => option.type !== undefined && validateAgainstSchema(value, { type: option.type }, path) === null
+      );
+      if (matching >= 0) {
+        return errors[matching];
+      }
+      const types = schema.anyOf.map(option => option.type).filter(Boolean);
+      return errors.find(error => !/ must be an? (string|array|object|number|integer|boolean)$/.test(error!)) ??
+        `Parameter ${path} must be ${types.map(type => (type === 'array' ? 'a list' : `a ${type}`)).join(' or ')}`;
+    }
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    return `Parameter ${path} must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`;
+  }
+
+  switch (schema.type) {
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return `Parameter ${path} must be an object`;
+      }
+      const record = value as Record<string, unknown>;
+      const missing = (schema.required ?? []).find(key => record[key] === undefined || record[key] === null);
+      if (missing) {
+        return `Missing required parameter: ${path === 'arguments' ? missing : `${path}.${missing}`}`;
+      }
+      for (const [key, fieldValue] of Object.entries(record)) {
+        const fieldPath = path === 'arguments' ? key : `${path}.${key}`;
+        const fieldSchema = schema.properties?.[key];
+        if (!fieldSchema) {
+          if (schema.additionalProperties === false) {
+            const known = Object.keys(schema.properties ?? {});
+            return `Unknown parameter: ${fieldPath}${known.length > 0 ? ` (expected ${known.join(', ')})` : ''}`;
+          }
+          continue;
+        }
+        // Optional parameters may be sent as null
+        if (fieldValue === null && !(schema.required ?? []).includes(key)) continue;
+
+        const error = validateAgainstSchema(fieldValue, fieldSchema, fieldPath);
+        if (error) return error;
+      }
+      return null;
+    }
+    case 'array': {
+      if (!Array.isArray(value)) {
+        return `Parameter ${path} must be an array`;
+      }
+      for (let i = 0; i < value.length; i++) {
+        const error = schema.items ? validateAgainstSchema(value[i], schema.items, `${path}[${i}]`) : null;
+        if (error) return error;
+      }
+      return null;
+    }
+    case 'string':
+      return typeof value === 'string' ? null : `Parameter ${path} must be a string`;
+    case 'boolean':
+      return typeof value === 'boolean' ? null : `Parameter ${path} must be a boolean`;
+    case 'number':
+    case 'integer': {
+      if (typeof value !== 'number' || Number.isNaN(value) || (schema.type === 'integer' && !Number.isInteger(value))) {
+        return `Parameter ${path} must be ${schema.type === 'integer' ? 'an integer' : 'a number'}`;
+      }
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        return `Parameter ${path} must be >= ${schema.minimum}`;
+      }
+      if (schema.maximum !== undefined && value > schema.maximum) {
+        return `Parameter ${path} must be <= ${schema.maximum}`;
+      }
+      return null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * ToolRegistry - Tools by name, validated and dispatched generically
+ */
+export class ToolRegistry {
+  private tools: Map<string, RegisteredTool> = new Map();
+
+  /**
+   * Add a tool (replaces a tool of the same name)
+   */
+  register(tool: RegisteredTool): void {
+    this.tools.set(tool.definition.name, tool);
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  /**
+   * Definitions of all tools, for the realtime session
+   */
+  getDefinitions(): ToolDefinition[] {
+    return Array.from(this.tools.values()).map(tool => tool.definition);
+  }
+
+  /**
+   * Validate a tool call: known tool, arguments matching its schema, tool-specific checks
+   */
+  validate(name: string, args: unknown): { valid: boolean; error?: string } {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      return { valid: false, error: `Unknown tool: ${name} (available: ${Array.from(this.tools.keys()).join(', ')})` };
+    }
+
+    const error =
+      validateAgainstSchema(args ?? {}, tool.definition.parameters, 'arguments') ||
+      (tool.validate ? tool.validate((args ?? {}) as Record<string, unknown>) : null);
+    return error ? { valid: false, error } : { valid: true };
+  }
+
+  /**
+   * Run a tool with arguments that passed validate()
+   */
+  async call(name: string, args: Record<string, unknown>): Promise<unknown> {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      throw new Error(`Unknown tool: ${name}`);
+    }
+    return tool.handler(args);
+  }
+}
+
+/**
+ * Registry with the knowledge base tools
+ */
+export function createToolRegistry(): ToolRegistry {
+  const registry = new ToolRegistry();
+
+  registry.register({
+    definition: SEARCH_PDFS_TOOL,
+    validate: args =>
+      (args.query as string).trim() === '' ? 'Missing required parameter: query' : validateAsOf(args.as_of),
+    handler: args =>
+      handleSearchPdfs(
+        args.query as string,
+        (args.filter ?? undefined) as SearchFilter | undefined,
+        (args.as_of ?? undefined) as string | undefined
+      ),
+  });
+
+  registry.register({
+    definition: GET_DOCUMENT_STATS_TOOL,
+    handler: () => handleGetDocumentStats(),
+  });
+
+  registry.register({
+    definition: LIST_DOCUMENTS_TOOL,
+    handler: () => handleListDocuments(),
+  });
+
+  registry.register({
+    definition: GET_DOCUMENT_OUTLINE_TOOL,
+    handler: args => handleGetDocumentOutline(args.document_id as string),
+  });
+
+  registry.register({
+    definition: READ_SECTION_TOOL,
+    validate: args =>
+      typeof args.end_chunk === 'number' && args.end_chunk < (args.start_chunk as number)
+        ? 'Parameter end_chunk must be >= start_chunk'
+        : null,
+    handler: args =>
+      handleReadSection(
+        args.document_id as string,
+        args.start_chunk as number,
+        (args.end_chunk ?? undefined) as number | undefined
+      ),
+  });
+
+  return registry;
+}
+
+let defaultRegistry: ToolRegistry | null = null;
+
+/**
+ * Convenient function to access the tool registry singleton
+ */
+export function getToolRegistry(): ToolRegistry {
+  if (!defaultRegistry) {
+    defaultRegistry = createToolRegistry();
+  }
+  return defaultRegistry;
+}
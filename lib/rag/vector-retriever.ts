@@ -0,0 +1,144 @@
+import { Chunk, getIndexedText } from './chunker';
+import { Embedder } from './embeddings';
+import { Retriever, RetrieverConfig, SearchResult } from './retriever';
+import { VectorStore, SerializedVectorStore } from './vector-store';
+import { SearchFilter, matchesFilter } from './metadata';
+
+/**
+ * VectorRetriever - Search by cosine similarity of chunk vectors
+ *
+ * Chunks are embedded once (or restored from a snapshot) and kept in a
+ * VectorStore; each query costs one embedding call plus a brute-force scan.
+ * With an embedding model (http embedder) this is semantic search and catches
+ * paraphrases that share no keywords with the document, e.g.
+ * "כמה זמן מראש להודיע על עזיבה" vs "הודעה מוקדמת"; with the lexical embedder
+ * it only matches shared words and spellings.
+ */
+export class VectorRetriever implements Retriever {
+  readonly name = 'vector';
+  private chunks: Chunk[] = [];
+  private chunksById: Map<string, Chunk> = new Map();
+  private store: VectorStore;
+  private topK: number;
+  private relevanceThreshold: number;
+  private minChunkLength: number;
+
+  constructor(private embedder: Embedder, config?: RetrieverConfig) {
+    this.store = new VectorStore(embedder.id);
+    this.topK = config?.topK || 5;
+    this.relevanceThreshold = config?.relevanceThreshold ?? 0.1;
+    this.minChunkLength = config?.minChunkLength || 50;
+  }
+
+  /**
+   * Initialize with chunks, reusing stored vectors from the same embedder
+   * Returns the number of chunks that had to be embedded
+   */
+  async initialize(chunks: Chunk[], stored?: SerializedVectorStore): Promise<number> {
+    const indexable = chunks.filter(chunk => chunk.content.length >= this.minChunkLength);
+    const restored = stored && stored.embedderId === this.embedder.id ? VectorStore.deserialize(stored) : null;
+    const store = new VectorStore(this.embedder.id);
+
+    // Keep stored vectors of current chunks only
+    const missing: Chunk[] = [];
+    for (const chunk of indexable) {
+      const vector = restored?.get(chunk.id);
+      if (vector) {
+        store.upsert([chunk.id], [vector]);
+      } else {
+        missing.push(chunk);
+      }
+    }
+
+    if (missing.length > 0) {
+      store.upsert(missing.map(chunk => chunk.id), await this.embedChunks(missing));
+    }
+
+    this.store = store;
+    this.chunks = indexable;
+    this.chunksById = new Map(indexable.map(chunk => [chunk.id, chunk]));
+    return missing.length;
+  }
+
+  /**
+   * Embed chunk contents ahead of updateDocuments()
+   */
+  async embedChunks(chunks: Chunk[]): Promise<number[][]> {
+    return this.embedder.embedDocuments(chunks.map(getIndexedText));
+  }
+
+  /**
+   * Replace the chunks of the given documents with pre-embedded new chunks
+   * Synchronous, so it can be swapped in together with the keyword index
+   */
+  updateDocuments(documentIds: string[], newChunks: Chunk[], vectors: number[][]): void {
+    const replaced = new Set(documentIds);
+    this.store.remove(this.chunks.filter(chunk => replaced.has(chunk.documentId)).map(chunk => chunk.id));
+
+    const added: Chunk[] = [];
+    const addedVectors: number[][] = [];
+    newChunks.forEach((chunk, i) => {
+      if (chunk.content.length >= this.minChunkLength) {
+        added.push(chunk);
+        addedVectors.push(vectors[i]);
+      }
+    });
+    this.store.upsert(added.map(chunk => chunk.id), addedVectors);
+
+    this.chunks = this.chunks.filter(chunk => !replaced.has(chunk.documentId)).concat(added);
+    this.chunksById = new Map(this.chunks.map(chunk => [chunk.id, chunk]));
+  }
+
+  /**
+   * Search for chunks whose vectors are closest to the query's
+   */
+  async search(query: string, limit: number = this.topK, filter?: SearchFilter): Promise<SearchResult[]> {
+    if (!query || query.trim().length === 0) {
+      return [];
+    }
+
+    const queryVector = await this.embedder.embedQuery(query.trim());
+
+    return this.store
+      .nearest(queryVector, limit, filter && (chunkId => matchesFilter(this.chunksById.get(chunkId)?.metadata, filter)))
+      .filter(({ similarity }) => similarity > this.relevanceThreshold)
+      .map(({ chunkId, similarity }) => ({
+        chunk: this.chunksById.get(chunkId)!,
+        relevanceScore: Math.min(1.0, similarity),
+        matchedTerms: [],
+      }))
+      .filter(result => result.chunk !== undefined);
+  }
+
+  /**
+   * Export vectors for the index snapshot
+   */
+  exportVectors(): SerializedVectorStore {
+    return this.store.serialize();
+  }
+
+  /**
+   * Get statistics about embedded chunks
+   */
+  getStats() {
+    return {
+      embedder: this.embedder.id,
+      semanticEmbedder: this.embedder.semantic,
+      embeddedChunks: this.store.size,
+    };
+  }
+}
+
+/**
+ * Helper function to create an initialized vector retriever
+ */
+export async function createVectorRetriever(
+  chunks: Chunk[],
+  embedder: Embedder,
+  config?: RetrieverConfig,
+  stored?: SerializedVectorStore
+): Promise<VectorRetriever> {
+  const retriever = new VectorRetriever(embedder, config);
+  await retriever.initialize(chunks, stored);
+  return retriever;
+}
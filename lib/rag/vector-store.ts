@@ -0,0 +1,112 @@
+/**
+ * Serialized vector store, persisted in the index snapshot next to the chunks
+ * Vectors are base64-encoded Float32 arrays
+ */
+export interface SerializedVectorStore {
+  embedderId: string;
+  dimensions: number;
+  vectors: Array<[string, string]>; // chunk_id -> base64 Float32Array
+}
+
+/**
+ * VectorStore - Unit-length chunk embeddings keyed by chunk id
+ *
+ * Brute-force cosine similarity: fast enough for a few thousand chunks
+ * and keeps the store a plain in-memory structure.
+ */
+export class VectorStore {
+  private vectors: Map<string, Float32Array> = new Map();
+  private dimensions = 0;
+
+  constructor(readonly embedderId: string) {}
+
+  /**
+   * Add or replace chunk vectors
+   */
+  upsert(chunkIds: string[], vectors: ArrayLike<number>[]): void {
+    if (chunkIds.length !== vectors.length) {
+      throw new Error(`Got ${vectors.length} vectors for ${chunkIds.length} chunks`);
+    }
+
+    chunkIds.forEach((chunkId, i) => {
+      const vector = Float32Array.from(vectors[i]);
+      if (this.dimensions === 0) {
+        this.dimensions = vector.length;
+      } else if (vector.length !== this.dimensions) {
+        throw new Error(`Vector for ${chunkId} has ${vector.length} dimensions, expected ${this.dimensions}`);
+      }
+      this.vectors.set(chunkId, vector);
+    });
+  }
+
+  /**
+   * Remove vectors of the given chunks
+   */
+  remove(chunkIds: string[]): void {
+    for (const chunkId of chunkIds) {
+      this.vectors.delete(chunkId);
+    }
+  }
+
+  get(chunkId: string): Float32Array | undefined {
+    return this.vectors.get(chunkId);
+  }
+
+  get size(): number {
+    return this.vectors.size;
+  }
+
+  /**
+   * Most similar chunks to a unit-length query vector
+   * Chunks rejected by `accept` are skipped before ranking
+   */
+  nearest(query: number[], limit: number, accept?: (chunkId: string) => boolean): Array<{ chunkId: string; similarity: number }> {
+    if (this.vectors.size === 0) {
+      return [];
+    }
+    if (query.length !== this.dimensions) {
+      throw new Error(`Query vector has ${query.length} dimensions, expected ${this.dimensions}`);
+    }
+
+    const scored: Array<{ chunkId: string; similarity: number }> = [];
+    for (const [chunkId, vector] of Array.from(this.vectors.entries())) {
+      if (accept && !accept(chunkId)) continue;
+      let dot = 0;
+      for (let i = 0; i < vector.length; i++) {
+        dot += vector[i] * query[i];
+      }
+      scored.push({ chunkId, similarity: dot });
+    }
+
+    scored.sort((a, b) => b.similarity - a.similarity);
+    return scored.slice(0, limit);
+  }
+
+  /**
+   * Export vectors for persistence
+   */
+  serialize(): SerializedVectorStore {
+    return {
+      embedderId: this.embedderId,
+      dimensions: this.dimensions,
+      vectors: Array.from(this.vectors.entries()).map(([chunkId, vector]): [string, string] => [
+        chunkId,
+        Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength).toString('base64'),
+      ]),
+    };
+  }
+
+  /**
+   * Restore a store from its serialized form
+   */
+  static deserialize(data: SerializedVectorStore): VectorStore {
+    const store = new VectorStore(data.embedderId);
+    store.dimensions = data.dimensions;
+    for (const [chunkId, encoded] of data.vectors) {
+      const bytes = Buffer.from(encoded, 'base64');
+      const vector = new Float32Array(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength));
+      store.vectors.set(chunkId, vector);
+    }
+    return store;
+  }
+}
@@ -0,0 +1,132 @@
+import { Document } from './pdf-loader';
+import { Chunk } from './chunker';
+import { DocumentMetadata, inferVersionFromFilename } from './metadata';
+
+/**
+ * One version of a policy
+ */
+export interface PolicyVersion {
+  documentId: string;
+  filename: string;
+  effectiveDate?: string;
+  supersededOn?: string; // effective date of the next version
+}
+
+/**
+ * Versions of one policy, oldest first
+ */
+export interface VersionGroup {
+  policy: string;
+  versions: PolicyVersion[];
+}
+
+/**
+ * Infer policy versions from dated file names ("vacation-policy-2024.pdf")
+ *
+ * Only files that share a name with another file, or with a declared policy, become
+ * versions, so a lone "report-2027.pdf" is not hidden until 2027. Inferred fields are
+ * recorded in metadata.inferredVersion and recomputed on every call, so they follow
+ * files being added and removed.
+ */
+function inferFilenameVersions(documents: Document[], chunks: Chunk[]): void {
+  const clear = (metadata: DocumentMetadata | undefined) => {
+    const inferred = metadata?.inferredVersion;
+    if (!metadata || !inferred) return;
+    if (metadata.policy === inferred.policy) delete metadata.policy;
+    if (inferred.effectiveDate && metadata.effectiveDate === inferred.effectiveDate) delete metadata.effectiveDate;
+    delete metadata.inferredVersion;
+  };
+  documents.forEach(doc => clear(doc.metadata));
+  chunks.forEach(chunk => clear(chunk.metadata));
+
+  const declared = new Set(documents.map(doc => doc.metadata?.policy).filter(Boolean));
+  const candidates = new Map<string, Document[]>();
+  for (const doc of documents) {
+    const policy = doc.metadata && !doc.metadata.policy ? inferVersionFromFilename(doc.filename)?.policy : undefined;
+    if (policy) {
+      candidates.set(policy, [...(candidates.get(policy) ?? []), doc]);
+    }
+  }
+
+  const inferred = new Map<string, NonNullable<DocumentMetadata['inferredVersion']>>(); // document id -> version
+  candidates.forEach((docs, policy) => {
+    if (docs.length < 2 && !declared.has(policy)) return;
+    docs.forEach(doc => {
+      const effectiveDate = doc.metadata?.effectiveDate ? undefined : inferVersionFromFilename(doc.filename)?.effectiveDate;
+      inferred.set(doc.id, effectiveDate ? { policy, effectiveDate } : { policy });
+    });
+  });
+
+  const apply = (metadata: DocumentMetadata | undefined, documentId: string) => {
+    const version = inferred.get(documentId);
+    if (!metadata || !version) return;
+    metadata.policy = version.policy;
+    if (version.effectiveDate) metadata.effectiveDate = version.effectiveDate;
+    metadata.inferredVersion = version;
+  };
+  documents.forEach(doc => apply(doc.metadata, doc.id));
+  chunks.forEach(chunk => apply(chunk.metadata, chunk.documentId));
+}
+
+/**
+ * Group documents by policy and mark when each version was superseded
+ *
+ * Sets metadata.supersededOn on every document and its chunks (in place, so the
+ * retrievers see it without re-indexing), after inferring versions from file names.
+ * A version without an effective date counts as the oldest; versions sharing a
+ * date stay in effect together.
+ */
+export function assignPolicyVersions(documents: Document[], chunks: Chunk[]): VersionGroup[] {
+  inferFilenameVersions(documents, chunks);
+
+  const groups = new Map<string, Document[]>();
+  for (const doc of documents) {
+    const policy = doc.metadata?.policy;
+    if (!policy) continue;
+    groups.set(policy, [...(groups.get(policy) ?? []), doc]);
+  }
+
+  const supersededOn = new Map<string, string>();
+  const result: VersionGroup[] = [];
+
+  for (const [policy, docs] of Array.from(groups.entries())) {
+    const sorted = docs
+      .slice()
+      .sort((a, b) => (a.metadata?.effectiveDate ?? '').localeCompare(b.metadata?.effectiveDate ?? ''));
+
+    const versions = sorted.map(doc => {
+      const effectiveDate = doc.metadata?.effectiveDate;
+      const next = sorted.find(other => (other.metadata?.effectiveDate ?? '') > (effectiveDate ?? ''));
+      const nextDate = next?.metadata?.effectiveDate;
+      if (nextDate) {
+        supersededOn.set(doc.id, nextDate);
+      }
+      return { documentId: doc.id, filename: doc.filename, effectiveDate, supersededOn: nextDate };
+    });
+
+    const dates = versions.map(version => version.effectiveDate ?? 'undated');
+    const duplicates = dates.filter((date, i) => dates.indexOf(date) !== i);
+    if (duplicates.length > 0) {
+      console.warn(
+        `⚠️  [Versions] Policy "${policy}" has several versions effective ${Array.from(new Set(duplicates)).join(', ')}; ` +
+        'they are searched together'
+      );
+    }
+
+    result.push({ policy, versions });
+  }
+
+  const apply = (metadata: Document['metadata'], documentId: string) => {
+    if (!metadata) return;
+    const date = supersededOn.get(documentId);
+    if (date) {
+      metadata.supersededOn = date;
+    } else {
+      delete metadata.supersededOn;
+    }
+  };
+  documents.forEach(doc => apply(doc.metadata, doc.id));
+  chunks.forEach(chunk => apply(chunk.metadata, chunk.documentId));
+
+  return result.sort((a, b) => a.policy.localeCompare(b.policy));
+}
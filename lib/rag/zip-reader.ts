@@ -0,0 +1,111 @@
+import * as zlib from 'zlib';
+
+/**
+ * Entry in a ZIP archive's central directory
+ */
+export interface ZipEntry {
+  name: string;
+  compressionMethod: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+/**
+ * ZipReader - Minimal reader for ZIP containers (DOCX, XLSX, ...)
+ *
+ * Supports stored and deflated entries, which covers Office Open XML files.
+ * ZIP64 and encrypted archives are not supported.
+ */
+export class ZipReader {
+  private entries = new Map<string, ZipEntry>();
+
+  constructor(private buffer: Buffer) {
+    this.readCentralDirectory();
+  }
+
+  /**
+   * List entry names in the archive
+   */
+  list(): string[] {
+    return Array.from(this.entries.keys());
+  }
+
+  /**
+   * Read and decompress an entry, null if it does not exist
+   */
+  read(name: string): Buffer | null {
+    const entry = this.entries.get(name);
+    if (!entry) return null;
+
+    const offset = entry.localHeaderOffset;
+    if (this.buffer.readUInt32LE(offset) !== LOCAL_FILE_HEADER) {
+      throw new Error(`Invalid local header for ${name}`);
+    }
+
+    const nameLength = this.buffer.readUInt16LE(offset + 26);
+    const extraLength = this.buffer.readUInt16LE(offset + 28);
+    const start = offset + 30 + nameLength + extraLength;
+    const data = this.buffer.subarray(start, start + entry.compressedSize);
+
+    switch (entry.compressionMethod) {
+      case 0:
+        return Buffer.from(data);
+      case 8:
+        return zlib.inflateRawSync(data);
+      default:
+        throw new Error(`Unsupported compression method ${entry.compressionMethod} for ${name}`);
+    }
+  }
+
+  /**
+   * Read an entry as UTF-8 text
+   */
+  readText(name: string): string | null {
+    const data = this.read(name);
+    return data ? data.toString('utf-8') : null;
+  }
+
+  private readCentralDirectory(): void {
+    // End of central directory record sits in the last 22 bytes plus an optional comment
+    const searchStart = Math.max(0, this.buffer.length - 22 - 0xffff);
+    let eocd = -1;
+    for (let i = this.buffer.length - 22; i >= searchStart; i--) {
+      if (this.buffer.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+        eocd = i;
+        break;
+      }
+    }
+    if (eocd === -1) {
+      throw new Error('Not a ZIP archive (end of central directory not found)');
+    }
+
+    const entryCount = this.buffer.readUInt16LE(eocd + 10);
+    let offset = this.buffer.readUInt32LE(eocd + 16);
+
+    for (let i = 0; i < entryCount; i++) {
+      if (this.buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+        throw new Error('Corrupt ZIP central directory');
+      }
+
+      const nameLength = this.buffer.readUInt16LE(offset + 28);
+      const extraLength = this.buffer.readUInt16LE(offset + 30);
+      const commentLength = this.buffer.readUInt16LE(offset + 32);
+      const name = this.buffer.toString('utf-8', offset + 46, offset + 46 + nameLength);
+
+      this.entries.set(name, {
+        name,
+        compressionMethod: this.buffer.readUInt16LE(offset + 10),
+        compressedSize: this.buffer.readUInt32LE(offset + 20),
+        uncompressedSize: this.buffer.readUInt32LE(offset + 24),
+        localHeaderOffset: this.buffer.readUInt32LE(offset + 42),
+      });
+
+      offset += 46 + nameLength + extraLength + commentLength;
+    }
+  }
+}
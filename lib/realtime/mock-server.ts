@@ -0,0 +1,451 @@
+/**
+ * Mock Realtime API Server
+ *
+ * A scriptable local stand-in for the OpenAI Realtime API, so the app, the relay
+ * and end-to-end checks run offline and deterministically. Point the app at it with
+ * OPENAI_REALTIME_BASE_URL=http://localhost:<port>/v1 (see scripts/mock-realtime.ts).
+ *
+ * HTTP: POST /v1/realtime/sessions creates a session and returns a client secret;
+ * connections with that secret start with the session's configuration.
+ *
+ * WebSocket /v1/realtime, a deterministic subset of the event protocol:
+ * - session.update → session.updated
+ * - input_audio_buffer.append / commit → input_audio_buffer.committed, the user item and
+ *   conversation.item.input_audio_transcription.completed with the next scripted transcript
+ * - conversation.item.create / truncate / delete, input_audio_buffer.clear
+ * - response.create, answering the last conversation item:
+ *   - a user message whose text the instructions already quote (pre-search) is answered
+ *     from the instructions
+ *   - any other user message calls search_pdfs (when the session has it) with the text as query
+ *   - a function_call_output is answered from the output
+ *   Answers quote the first citation id and passage of their source, and stream as
+ *   audio deltas with a transcript (or text deltas for text-only sessions).
+ * Every client event is recorded for assertions.
+ */
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import WebSocket, { WebSocketServer } from 'ws';
+import type { RealtimeEvent } from './relay';
+
+/**
+ * Scripted behaviour of the mock
+ */
+export interface MockRealtimeScript {
+  transcripts?: string[]; // transcripts of committed audio, in order (then defaultTranscript)
+  defaultTranscript?: string;
+  toolCall?: (userText: string) => { name: string; arguments: Record<string, unknown> } | null;
+  answer?: (source: string) => string; // answer text from a tool output or pre-search instructions
+}
+
+/**
+ * Session configuration held by the mock
+ */
+interface MockSession {
+  id: string;
+  model: string;
+  modalities: string[];
+  instructions: string;
+  voice: string;
+  tools: Array<{ name?: string }>;
+  [key: string]: unknown;
+}
+
+type ConversationItem = Record<string, unknown> & { id: string; type?: string };
+
+const SAMPLE_RATE = 24000;
+const AUDIO_MS_PER_WORD = 80; // audio streamed per transcript word
+const MIN_COMMIT_MS = 100; // the real API rejects shorter commits
+const ANSWER_EXCERPT_LENGTH = 120;
+const CITATION_ID = /\[(S[0-9a-z]{5})\]/;
+
+/**
+ * Default answer: the first cited passage of the source
+ */
+function defaultAnswer(source: string): string {
+  const match = CITATION_ID.exec(source);
+  const passage = match ? source.slice(match.index + match[0].length) : source;
+  const excerpt = passage.replace(/\s+/g, ' ').trim().slice(0, ANSWER_EXCERPT_LENGTH);
+  return match ? `According to the documents [${match[1]}]: ${excerpt}` : `According to the documents: ${excerpt}`;
+}
+
+/**
+ * MockRealtimeServer - Realtime sessions endpoint and WebSocket on one local port
+ */
+export class MockRealtimeServer {
+  private server: Server | null = null;
+  private baseUrl = '';
+  private sockets: WebSocketServer = new WebSocketServer({ noServer: true, handleProtocols: selectProtocol });
+  private script: Required<MockRealtimeScript>;
+  private sessionsBySecret: Map<string, MockSession> = new Map();
+  private nextId = 1;
+  received: RealtimeEvent[] = [];
+  requests: Array<{ url: string; authorization?: string }> = []; // one per WebSocket connection
+
+  constructor(script?: MockRealtimeScript) {
+    this.script = {
+      transcripts: [...(script?.transcripts || [])],
+      defaultTranscript: script?.defaultTranscript || 'כמה ימי חופשה יש לי?',
+      toolCall: script?.toolCall || (userText => ({ name: 'search_pdfs', arguments: { query: userText } })),
+      answer: script?.answer || defaultAnswer,
+    };
+  }
+
+  /**
+   * Listen on a port (0 picks a free one) and return the base URL, e.g. http://127.0.0.1:8787/v1
+   */
+  async start(port: number = 0, host: string = '127.0.0.1'): Promise<string> {
+    const server = createServer((request, response) => this.handleHttp(request, response));
+    server.on('upgrade', (request, socket, head) => {
+      if (new URL(request.url || '/', 'http://localhost').pathname !== '/v1/realtime') {
+        socket.destroy();
+        return;
+      }
+      this.sockets.handleUpgrade(request, socket, head, client => this.handleConnection(client, request));
+    });
+
+    this.server = server;
+    await new Promise<void>(resolve => server.listen(port, host, () => resolve()));
+    this.baseUrl = `http://${host}:${(server.address() as AddressInfo).port}/v1`;
+    return this.baseUrl;
+  }
+
+  /**
+   * WebSocket URL of the realtime endpoint (after start)
+   */
+  getWebSocketUrl(): string {
+    return this.baseUrl ? `${this.baseUrl.replace(/^http/, 'ws')}/realtime` : '';
+  }
+
+  async close(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    if (!server) return;
+    this.sockets.clients.forEach(client => client.terminate());
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+
+  /**
+   * POST /v1/realtime/sessions
+   */
+  private handleHttp(request: IncomingMessage, response: ServerResponse) {
+    const sendJson = (status: number, body: unknown) => {
+      response.writeHead(status, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify(body));
+    };
+
+    const pathname = new URL(request.url || '/', 'http://localhost').pathname;
+    if (request.method !== 'POST' || pathname !== '/v1/realtime/sessions') {
+      sendJson(404, { error: { type: 'invalid_request_error', message: `Unknown endpoint: ${request.method} ${pathname}` } });
+      return;
+    }
+    if (!/^Bearer \S+/.test(request.headers.authorization || '')) {
+      sendJson(401, { error: { type: 'invalid_request_error', message: 'Missing bearer token' } });
+      return;
+    }
+
+    let body = '';
+    request.on('data', chunk => (body += chunk));
+    request.on('end', () => {
+      let params: Record<string, unknown>;
+      try {
+        params = body ? JSON.parse(body) : {};
+      } catch {
+        sendJson(400, { error: { type: 'invalid_request_error', message: 'Invalid JSON body' } });
+        return;
+      }
+
+      const session = this.createSession(params);
+      const secret = this.createId('ek_mock');
+      this.sessionsBySecret.set(secret, session);
+      sendJson(200, {
+        ...session,
+        object: 'realtime.session',
+        client_secret: { value: secret, expires_at: Math.floor(Date.now() / 1000) + 60 },
+      });
+    });
+  }
+
+  private createSession(params: Record<string, unknown>): MockSession {
+    return {
+      modalities: ['text', 'audio'],
+      instructions: '',
+      voice: 'alloy',
+      input_audio_format: 'pcm16',
+      output_audio_format: 'pcm16',
+      turn_detection: null,
+      tool_choice: 'auto',
+      ...params,
+      tools: Array.isArray(params.tools) ? params.tools : [],
+      id: this.createId('sess'),
+      model: typeof params.model === 'string' ? params.model : 'gpt-4o-realtime-preview',
+    };
+  }
+
+  private handleConnection(socket: WebSocket, request: IncomingMessage) {
+    const authorization = request.headers.authorization;
+    this.requests.push({ url: request.url || '/', authorization });
+
+    // Browser clients send the key (or client secret) as a subprotocol
+    const protocols = String(request.headers['sec-websocket-protocol'] || '').split(',').map(p => p.trim());
+    const secret =
+      protocols.find(p => p.startsWith('openai-insecure-api-key.'))?.slice('openai-insecure-api-key.'.length) ||
+      authorization?.replace(/^Bearer /, '');
+    if (!secret || secret === 'undefined') {
+      socket.close(4001, 'Missing API key');
+      return;
+    }
+
+    const model = new URL(request.url || '/', 'http://localhost').searchParams.get('model') || undefined;
+    const session = this.sessionsBySecret.get(secret) ?? this.createSession(model ? { model } : {});
+    new MockConnection(socket, session, this.script, prefix => this.createId(prefix), event => this.received.push(event));
+  }
+
+  private createId(prefix: string): string {
+    return `${prefix}_${String(this.nextId++).padStart(4, '0')}`;
+  }
+}
+
+/**
+ * One WebSocket session of the mock
+ */
+class MockConnection {
+  private items: ConversationItem[] = [];
+  private audioBytes = 0; // uncommitted input audio
+
+  constructor(
+    private socket: WebSocket,
+    private session: MockSession,
+    private script: Required<MockRealtimeScript>,
+    private createId: (prefix: string) => string,
+    private record: (event: RealtimeEvent) => void
+  ) {
+    this.send({ type: 'session.created', session: { ...this.session, object: 'realtime.session' } });
+    socket.on('message', data => this.handleMessage(data.toString()));
+  }
+
+  private send(event: Record<string, unknown>) {
+    if (this.socket.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify({ event_id: this.createId('event'), ...event }));
+    }
+  }
+
+  private sendError(code: string, message: string, eventId?: string) {
+    this.send({ type: 'error', error: { type: 'invalid_request_error', code, message, event_id: eventId ?? null } });
+  }
+
+  private handleMessage(data: string) {
+    let event: RealtimeEvent;
+    try {
+      event = JSON.parse(data);
+    } catch {
+      this.sendError('invalid_json', 'Invalid JSON');
+      return;
+    }
+    this.record(event);
+
+    switch (event.type) {
+      case 'session.update':
+        this.session = { ...this.session, ...(event.session as Partial<MockSession>) };
+        this.send({ type: 'session.updated', session: { ...this.session, object: 'realtime.session' } });
+        break;
+      case 'input_audio_buffer.append':
+        this.audioBytes += Buffer.from(String(event.audio ?? ''), 'base64').length;
+        break;
+      case 'input_audio_buffer.clear':
+        this.audioBytes = 0;
+        this.send({ type: 'input_audio_buffer.cleared' });
+        break;
+      case 'input_audio_buffer.commit':
+        this.commitAudio(event);
+        break;
+      case 'conversation.item.create': {
+        const item = { ...(event.item as Record<string, unknown>), id: this.createId('item') } as ConversationItem;
+        this.addItem(item);
+        break;
+      }
+      case 'conversation.item.truncate':
+        this.send({
+          type: 'conversation.item.truncated',
+          item_id: event.item_id,
+          content_index: event.content_index,
+          audio_end_ms: event.audio_end_ms,
+        });
+        break;
+      case 'conversation.item.delete':
+        this.items = this.items.filter(item => item.id !== event.item_id);
+        this.send({ type: 'conversation.item.deleted', item_id: event.item_id });
+        break;
+      case 'response.create':
+        this.respond();
+        break;
+      case 'response.cancel':
+        break;
+      default:
+        this.sendError('invalid_event', `Unknown event type: ${event.type}`, event.event_id);
+    }
+  }
+
+  private addItem(item: ConversationItem) {
+    const previous = this.items[this.items.length - 1];
+    this.items.push(item);
+    this.send({ type: 'conversation.item.created', previous_item_id: previous?.id ?? null, item });
+  }
+
+  /**
+   * Turn the input audio into a user item with the next scripted transcript
+   */
+  private commitAudio(event: RealtimeEvent) {
+    const durationMs = (this.audioBytes / 2 / SAMPLE_RATE) * 1000;
+    if (durationMs < MIN_COMMIT_MS) {
+      this.sendError(
+        'input_audio_buffer_commit_empty',
+        `Buffer too small. Expected at least ${MIN_COMMIT_MS}ms of audio, but buffer only has ${durationMs.toFixed(2)}ms of audio.`,
+        event.event_id
+      );
+      return;
+    }
+    this.audioBytes = 0;
+
+    const itemId = this.createId('item');
+    const previous = this.items[this.items.length - 1];
+    this.send({ type: 'input_audio_buffer.committed', previous_item_id: previous?.id ?? null, item_id: itemId });
+
+    const item: ConversationItem = {
+      id: itemId,
+      type: 'message',
+      role: 'user',
+      status: 'completed',
+      content: [{ type: 'input_audio', transcript: null }],
+    };
+    this.addItem(item);
+
+    const transcript = this.script.transcripts.shift() ?? this.script.defaultTranscript;
+    item.content = [{ type: 'input_audio', transcript }];
+    this.send({ type: 'conversation.item.input_audio_transcription.completed', item_id: itemId, content_index: 0, transcript });
+  }
+
+  private respond() {
+    const last = this.items[this.items.length - 1];
+    const responseId = this.createId('resp');
+    this.send({ type: 'response.created', response: { id: responseId, object: 'realtime.response', status: 'in_progress', output: [] } });
+
+    let item: ConversationItem;
+    if (last?.type === 'function_call_output') {
+      item = this.streamMessage(responseId, this.script.answer(String(last.output ?? '')));
+    } else {
+      const userText = last?.role === 'user' ? getItemText(last) : '';
+      const quoted = userText !== '' && this.session.instructions.includes(userText);
+      const call = userText && !quoted ? this.script.toolCall(userText) : null;
+      const hasTool = call !== null && this.session.tools.some(tool => tool.name === call.name);
+
+      if (call && hasTool) {
+        item = this.streamFunctionCall(responseId, call.name, JSON.stringify(call.arguments));
+      } else if (quoted) {
+        // Pre-search: the answer's source follows the quoted question in the instructions
+        const instructions = this.session.instructions;
+        item = this.streamMessage(responseId, this.script.answer(instructions.slice(instructions.indexOf(userText) + userText.length)));
+      } else {
+        item = this.streamMessage(responseId, userText ? 'I could not find this in the documents.' : 'How can I help?');
+      }
+    }
+
+    this.items.push(item);
+    this.send({ type: 'response.output_item.done', response_id: responseId, output_index: 0, item });
+    this.send({
+      type: 'response.done',
+      response: { id: responseId, object: 'realtime.response', status: 'completed', output: [item] },
+    });
+  }
+
+  private streamFunctionCall(responseId: string, name: string, args: string): ConversationItem {
+    const item: ConversationItem = {
+      id: this.createId('item'),
+      type: 'function_call',
+      status: 'completed',
+      name,
+      call_id: this.createId('call'),
+      arguments: args,
+    };
+    const position = { response_id: responseId, item_id: item.id, output_index: 0, call_id: item.call_id };
+
+    this.send({ type: 'response.output_item.added', response_id: responseId, output_index: 0, item: { ...item, status: 'in_progress', arguments: '' } });
+    this.send({ type: 'response.function_call_arguments.delta', ...position, delta: args });
+    this.send({ type: 'response.function_call_arguments.done', ...position, arguments: args });
+    return item;
+  }
+
+  /**
+   * Assistant message as audio with transcript deltas, or text deltas for text-only sessions
+   */
+  private streamMessage(responseId: string, text: string): ConversationItem {
+    const isAudio = this.session.modalities.includes('audio');
+    const part = isAudio ? { type: 'audio', transcript: text } : { type: 'text', text };
+    const item: ConversationItem = {
+      id: this.createId('item'),
+      type: 'message',
+      role: 'assistant',
+      status: 'completed',
+      content: [part],
+    };
+    const position = { response_id: responseId, item_id: item.id, output_index: 0, content_index: 0 };
+
+    this.send({ type: 'response.output_item.added', response_id: responseId, output_index: 0, item: { ...item, status: 'in_progress', content: [] } });
+    this.send({ type: 'conversation.item.created', previous_item_id: this.items[this.items.length - 1]?.id ?? null, item: { ...item, status: 'in_progress', content: [] } });
+    this.send({ type: 'response.content_part.added', ...position, part: isAudio ? { type: 'audio', transcript: '' } : { type: 'text', text: '' } });
+
+    const words = text.match(/\S+\s*/g) ?? [text];
+    for (const word of words) {
+      if (isAudio) {
+        this.send({ type: 'response.audio_transcript.delta', ...position, delta: word });
+        this.send({ type: 'response.audio.delta', ...position, delta: createToneChunk(AUDIO_MS_PER_WORD) });
+      } else {
+        this.send({ type: 'response.text.delta', ...position, delta: word });
+      }
+    }
+
+    if (isAudio) {
+      this.send({ type: 'response.audio.done', ...position });
+      this.send({ type: 'response.audio_transcript.done', ...position, transcript: text });
+    } else {
+      this.send({ type: 'response.text.done', ...position, text });
+    }
+    this.send({ type: 'response.content_part.done', ...position, part });
+    return item;
+  }
+}
+
+/**
+ * Text of a user message: its text parts and audio transcripts
+ */
+function getItemText(item: ConversationItem): string {
+  const content = (item.content as Array<{ text?: string; transcript?: string | null }> | undefined) ?? [];
+  return content.map(part => part.text ?? part.transcript ?? '').join(' ').trim();
+}
+
+/**
+ * Base64 PCM16 of a quiet 440 Hz tone
+ */
+function createToneChunk(durationMs: number): string {
+  const samples = Math.round((SAMPLE_RATE * durationMs) / 1000);
+  const buffer = Buffer.alloc(samples * 2);
+  for (let i = 0; i < samples; i++) {
+    buffer.writeInt16LE(Math.round(Math.sin((2 * Math.PI * 440 * i) / SAMPLE_RATE) * 2000), i * 2);
+  }
+  return buffer.toString('base64');
+}
+
+/**
+ * Accept the "realtime" subprotocol the browser client offers
+ */
+function selectProtocol(protocols: Set<string>): string | false {
+  if (protocols.has('realtime')) return 'realtime';
+  return protocols.size > 0 ? Array.from(protocols)[0] : false;
+}
+
+/**
+ * Helper function to create a mock Realtime API server
+ */
+export function createMockRealtimeServer(script?: MockRealtimeScript): MockRealtimeServer {
+  return new MockRealtimeServer(script);
+}
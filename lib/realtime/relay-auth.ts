@@ -0,0 +1,113 @@
+/**
+ * Relay Authentication
+ *
+ * Browsers do not apply CORS to WebSockets, so the relay checks two things before
+ * it opens an upstream session billed to OPENAI_API_KEY:
+ * - the Origin of the upgrade request: the app's own host, or REALTIME_RELAY_ORIGINS
+ * - a short-lived, single-use token minted by /api/realtime, which the browser sends
+ *   as its API key (the "openai-insecure-api-key.<token>" subprotocol)
+ *
+ * Tokens are signed, not stored, so the route and the relay only share the signing
+ * secret: REALTIME_RELAY_SECRET, or one derived from OPENAI_API_KEY.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import type { IncomingMessage } from 'http';
+
+export const RELAY_TOKEN_TTL_SECONDS = 60;
+
+const API_KEY_PROTOCOL_PREFIX = 'openai-insecure-api-key.';
+
+/**
+ * Secret that signs relay tokens ('' when neither variable is set)
+ */
+export function getRelayTokenSecret(): string {
+  if (process.env.REALTIME_RELAY_SECRET) {
+    return process.env.REALTIME_RELAY_SECRET;
+  }
+  const apiKey = process.env.OPENAI_API_KEY;
+  return apiKey ? createHmac('sha256', apiKey).update('realtime-relay-token').digest('hex') : '';
+}
+
+function sign(payload: string, secret: string): string {
+  return createHmac('sha256', secret).update(payload).digest('base64url');
+}
+
+/**
+ * Mint a relay token: "<expires_at>.<nonce>.<signature>"
+ */
+export function createRelayToken(secret: string = getRelayTokenSecret()): { value: string; expires_at: number } {
+  if (!secret) {
+    throw new Error('Relay tokens need REALTIME_RELAY_SECRET or OPENAI_API_KEY');
+  }
+  const expiresAt = Math.floor(Date.now() / 1000) + RELAY_TOKEN_TTL_SECONDS;
+  const payload = `${expiresAt}.${randomBytes(12).toString('base64url')}`;
+  return { value: `${payload}.${sign(payload, secret)}`, expires_at: expiresAt };
+}
+
+/**
+ * Check a relay token's signature and expiry
+ * Returns its nonce (for single use) and expiry, or an error
+ */
+export function verifyRelayToken(
+  token: string,
+  secret: string = getRelayTokenSecret()
+): { valid: boolean; nonce?: string; expiresAt?: number; error?: string } {
+  const [expires, nonce, signature, ...rest] = token.split('.');
+  if (!secret || !expires || !nonce || !signature || rest.length > 0) {
+    return { valid: false, error: 'Invalid relay token' };
+  }
+
+  const given = Buffer.from(signature);
+  const wanted = Buffer.from(sign(`${expires}.${nonce}`, secret));
+  if (given.length !== wanted.length || !timingSafeEqual(given, wanted)) {
+    return { valid: false, error: 'Invalid relay token' };
+  }
+
+  const expiresAt = parseInt(expires, 10);
+  if (!(expiresAt > Date.now() / 1000)) {
+    return { valid: false, error: 'Relay token expired' };
+  }
+  return { valid: true, nonce, expiresAt };
+}
+
+/**
+ * Relay token of an upgrade request, from the API key subprotocol
+ */
+export function getRequestRelayToken(request: IncomingMessage): string {
+  const protocols = String(request.headers['sec-websocket-protocol'] || '')
+    .split(',')
+    .map(protocol => protocol.trim());
+  const keyProtocol = protocols.find(protocol => protocol.startsWith(API_KEY_PROTOCOL_PREFIX));
+  return keyProtocol ? keyProtocol.slice(API_KEY_PROTOCOL_PREFIX.length) : '';
+}
+
+/**
+ * Origins allowed besides the app's own (REALTIME_RELAY_ORIGINS, comma-separated)
+ */
+export function getAllowedRelayOrigins(): string[] {
+  return (process.env.REALTIME_RELAY_ORIGINS || '')
+    .split(',')
+    .map(origin => origin.trim().replace(/\/+$/, ''))
+    .filter(Boolean);
+}
+
+/**
+ * Check the Origin of an upgrade request
+ * Requests without one (not from a browser) pass; they still need a token
+ */
+export function isOriginAllowed(request: IncomingMessage, allowedOrigins: string[]): boolean {
+  const origin = request.headers.origin;
+  if (!origin) {
+    return true;
+  }
+  if (allowedOrigins.includes(origin)) {
+    return true;
+  }
+
+  try {
+    return new URL(origin).host === request.headers.host;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,512 @@
+/**
+ * Realtime Relay
+ *
+ * In relay mode the browser's realtime WebSocket ends at this server (server.ts)
+ * instead of at OpenAI:
+ * - the upstream connection is authenticated with OPENAI_API_KEY and configured with
+ *   buildSessionConfig(), so the browser never holds a key or a client secret
+ * - function calls are executed here through the tool registry and answered upstream
+ *   without a browser round trip; the browser is told with a relay.tool_result event
+ * - client events are filtered (allowed types; tool definitions and tool outputs belong
+ *   to the relay), rate-limited per connection, and can be logged in both directions
+ * - connections need an allowed Origin and a relay token from /api/realtime (relay-auth.ts)
+ */
+
+import type { IncomingMessage } from 'http';
+import type { Duplex } from 'stream';
+import WebSocket, { RawData, WebSocketServer } from 'ws';
+import { formatToolOutput } from '@/lib/rag/tool-output';
+import { ToolRegistry, getToolRegistry } from '@/lib/rag/tool-registry';
+import { REALTIME_MODEL, RealtimeSessionConfig, buildSessionConfig, getRealtimeWebSocketUrl } from './session';
+import {
+  getAllowedRelayOrigins,
+  getRelayTokenSecret,
+  getRequestRelayToken,
+  isOriginAllowed,
+  verifyRelayToken,
+} from './relay-auth';
+
+/**
+ * Realtime API event (client or server)
+ */
+export interface RealtimeEvent {
+  type: string;
+  event_id?: string;
+  [key: string]: unknown;
+}
+
+export type RelayDirection = 'client' | 'upstream'; // where the event came from
+
+/**
+ * Relay configuration
+ */
+export interface RelayConfig {
+  upstreamUrl?: string;
+  apiKey?: string;
+  model?: string;
+  logEvents?: boolean; // every event type with its direction, except audio and text deltas
+  allowedClientEvents?: string[];
+  maxConnections?: number;
+  eventsPerSecond?: number; // sustained client event rate per connection
+  eventBurst?: number; // client events allowed at once before the rate applies
+  responsesPerMinute?: number; // response.create events per connection
+  allowedOrigins?: string[]; // besides the app's own origin
+  tokenSecret?: string; // signs relay tokens (see relay-auth.ts)
+  maxPendingEvents?: number; // client events queued while the upstream connects
+  upstreamTimeoutMs?: number; // time for the upstream to open
+  filterEvent?: (event: RealtimeEvent, direction: RelayDirection) => RealtimeEvent | null; // null drops it
+  registry?: ToolRegistry;
+  sessionConfig?: () => Promise<RealtimeSessionConfig>;
+}
+
+type ResolvedRelayConfig = Required<Omit<RelayConfig, 'filterEvent'>> & Pick<RelayConfig, 'filterEvent'>;
+
+// Client events of the Realtime API the browser needs
+const DEFAULT_ALLOWED_CLIENT_EVENTS = [
+  'session.update',
+  'input_audio_buffer.append',
+  'input_audio_buffer.commit',
+  'input_audio_buffer.clear',
+  'conversation.item.create',
+  'conversation.item.truncate',
+  'conversation.item.delete',
+  'response.create',
+  'response.cancel',
+];
+
+// High-volume events left out of the event log
+const UNLOGGED_EVENTS = new Set([
+  'input_audio_buffer.append',
+  'response.audio.delta',
+  'response.audio_transcript.delta',
+  'response.text.delta',
+  'response.function_call_arguments.delta',
+]);
+
+/**
+ * RealtimeRelay - Accepts browser connections and relays each to its own upstream session
+ */
+export class RealtimeRelay {
+  private config: ResolvedRelayConfig;
+  private server = new WebSocketServer({ noServer: true, handleProtocols: selectProtocol });
+  private sessions: Set<RelaySession> = new Set();
+  private nextSessionId = 1;
+  private usedTokens: Map<string, number> = new Map(); // nonce -> expiry (seconds) of used relay tokens
+
+  constructor(config?: RelayConfig) {
+    this.config = {
+      upstreamUrl: config?.upstreamUrl || getRealtimeWebSocketUrl(),
+      apiKey: config?.apiKey || process.env.OPENAI_API_KEY || '',
+      model: config?.model || REALTIME_MODEL,
+      logEvents: config?.logEvents ?? false,
+      allowedClientEvents: config?.allowedClientEvents || DEFAULT_ALLOWED_CLIENT_EVENTS,
+      maxConnections: config?.maxConnections || 20,
+      eventsPerSecond: config?.eventsPerSecond || 50,
+      eventBurst: config?.eventBurst || 200,
+      responsesPerMinute: config?.responsesPerMinute || 30,
+      allowedOrigins: config?.allowedOrigins || getAllowedRelayOrigins(),
+      tokenSecret: config?.tokenSecret || getRelayTokenSecret(),
+      maxPendingEvents: config?.maxPendingEvents || 100,
+      upstreamTimeoutMs: config?.upstreamTimeoutMs || 15000,
+      filterEvent: config?.filterEvent,
+      registry: config?.registry || getToolRegistry(),
+      sessionConfig: config?.sessionConfig || (() => buildSessionConfig()),
+    };
+  }
+
+  /**
+   * Take over an HTTP upgrade request for the relay path
+   * Requests from other origins or without a valid, unused relay token are refused
+   */
+  handleUpgrade(request: IncomingMessage, socket: Duplex, head: Buffer): void {
+    if (!isOriginAllowed(request, this.config.allowedOrigins)) {
+      console.warn(`⚠️ [Relay] Connection refused: origin ${request.headers.origin} is not allowed`);
+      rejectUpgrade(socket, 403, 'Forbidden');
+      return;
+    }
+
+    const error = this.checkToken(getRequestRelayToken(request));
+    if (error) {
+      console.warn(`⚠️ [Relay] Connection refused: ${error}`);
+      rejectUpgrade(socket, 401, 'Unauthorized');
+      return;
+    }
+
+    this.server.handleUpgrade(request, socket, head, client => this.handleConnection(client));
+  }
+
+  /**
+   * Check a relay token and use it up
+   * Returns an error message, or null when the token is valid and unused
+   */
+  private checkToken(token: string): string | null {
+    const verified = verifyRelayToken(token, this.config.tokenSecret);
+    if (!verified.valid) {
+      return verified.error!;
+    }
+
+    const now = Date.now() / 1000;
+    this.usedTokens.forEach((expiresAt, nonce) => {
+      if (expiresAt <= now) this.usedTokens.delete(nonce);
+    });
+    if (this.usedTokens.has(verified.nonce!)) {
+      return 'Relay token was already used';
+    }
+    this.usedTokens.set(verified.nonce!, verified.expiresAt!);
+    return null;
+  }
+
+  /**
+   * Relay an accepted browser connection (already checked by handleUpgrade)
+   */
+  handleConnection(client: WebSocket): void {
+    if (!this.config.apiKey) {
+      console.error('❌ [Relay] OPENAI_API_KEY is not configured');
+      client.close(1011, 'Relay is not configured');
+      return;
+    }
+    if (this.sessions.size >= this.config.maxConnections) {
+      console.warn(`⚠️ [Relay] Connection refused: ${this.sessions.size} sessions open`);
+      client.close(1013, 'Too many relay connections');
+      return;
+    }
+
+    const session = new RelaySession(this.nextSessionId++, client, this.config, () => this.sessions.delete(session));
+    this.sessions.add(session);
+  }
+
+  /**
+   * Number of open sessions
+   */
+  getConnectionCount(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Close all sessions
+   */
+  close(): void {
+    this.sessions.forEach(session => session.close());
+    this.server.close();
+  }
+}
+
+/**
+ * One browser connection and its upstream connection
+ */
+class RelaySession {
+  private upstream: WebSocket;
+  private pending: string[] = []; // events to send once the upstream session is configured
+  private ready = false;
+  private tokens: number;
+  private lastRefill = Date.now();
+  private throttled = false; // over the event rate; reported once until it recovers
+  private responseTimes: number[] = []; // response.create times in the last minute
+  private toolCalls: Promise<void>[] = []; // executing for the current response
+  private awaitingToolResponse = false; // the relay sends the response.create after tool outputs
+  private droppedOutputs = 0; // browser tool outputs dropped, each followed by the browser's response.create
+  private upstreamTimer: NodeJS.Timeout;
+  private closed = false;
+
+  constructor(
+    private id: number,
+    private client: WebSocket,
+    private config: ResolvedRelayConfig,
+    private onClose: () => void
+  ) {
+    this.tokens = config.eventBurst;
+
+    // The relay picks the model; the browser's ?model= is ignored
+    this.upstream = new WebSocket(`${config.upstreamUrl}?model=${encodeURIComponent(config.model)}`, {
+      headers: { Authorization: `Bearer ${config.apiKey}`, 'OpenAI-Beta': 'realtime=v1' },
+    });
+    console.log(`🔌 [Relay #${id}] Client connected, opening upstream ${config.upstreamUrl}`);
+    this.upstreamTimer = setTimeout(() => {
+      console.error(`❌ [Relay #${id}] Upstream did not open within ${config.upstreamTimeoutMs}ms`);
+      this.close(1011, 'Realtime API unavailable');
+    }, config.upstreamTimeoutMs);
+
+    this.upstream.on('open', () => this.handleUpstreamOpen());
+    this.upstream.on('message', data => this.handleUpstreamMessage(data));
+    this.upstream.on('error', error => console.error(`❌ [Relay #${id}] Upstream error:`, error.message));
+    this.upstream.on('close', (code, reason) => {
+      console.log(`🔌 [Relay #${id}] Upstream closed (${code}${reason.length ? `: ${reason}` : ''})`);
+      this.close();
+    });
+
+    client.on('message', data => this.handleClientMessage(data));
+    client.on('error', error => console.error(`❌ [Relay #${id}] Client error:`, error.message));
+    client.on('close', () => {
+      console.log(`🔌 [Relay #${id}] Client disconnected`);
+      this.close();
+    });
+  }
+
+  close(code?: number, reason?: string): void {
+    if (this.closed) return;
+    this.closed = true;
+    clearTimeout(this.upstreamTimer);
+    this.upstream.close();
+    this.client.close(code, reason);
+    this.onClose();
+  }
+
+  /**
+   * Configure the upstream session first, so the browser's own session.update
+   * (sent right after connecting) is applied on top of it
+   */
+  private async handleUpstreamOpen() {
+    clearTimeout(this.upstreamTimer);
+    try {
+      const { model: _model, ...session } = await this.config.sessionConfig();
+      this.upstream.send(JSON.stringify({ type: 'session.update', session }));
+    } catch (error) {
+      console.error(`❌ [Relay #${this.id}] Building the session configuration failed:`, error);
+    }
+
+    this.ready = true;
+    const queued = this.pending;
+    this.pending = [];
+    queued.forEach(message => this.upstream.send(message));
+  }
+
+  private handleClientMessage(data: RawData) {
+    let event: RealtimeEvent;
+    try {
+      event = JSON.parse(data.toString());
+    } catch {
+      this.sendClientError('invalid_event', 'Events must be JSON');
+      return;
+    }
+    if (typeof event?.type !== 'string') {
+      this.sendClientError('invalid_event', 'Events must have a type');
+      return;
+    }
+
+    if (!this.takeToken()) {
+      if (!this.throttled) {
+        this.throttled = true;
+        this.sendClientError('rate_limit_exceeded', `More than ${this.config.eventsPerSecond} events per second`, event);
+      }
+      return;
+    }
+    this.throttled = false;
+    if (!this.config.allowedClientEvents.includes(event.type)) {
+      this.sendClientError('event_not_allowed', `Event type not allowed through the relay: ${event.type}`, event);
+      return;
+    }
+
+    const checked = this.checkClientEvent(event);
+    const filtered = checked && this.config.filterEvent ? this.config.filterEvent(checked, 'client') : checked;
+    if (!filtered) return;
+
+    this.logEvent('client', filtered);
+    this.sendUpstream(filtered);
+  }
+
+  /**
+   * Apply the relay's ownership of tools to a client event
+   * Returns the event to forward, or null to drop it
+   */
+  private checkClientEvent(event: RealtimeEvent): RealtimeEvent | null {
+    switch (event.type) {
+      case 'session.update': {
+        // Tool definitions come from the server registry, whatever the browser sends
+        const session = (event.session ?? {}) as Record<string, unknown>;
+        return { ...event, session: { ...session, tools: this.config.registry.getDefinitions() } };
+      }
+      case 'conversation.item.create': {
+        // The relay answers function calls itself; outputs from the browser would duplicate them
+        const item = event.item as { type?: string } | undefined;
+        if (item?.type === 'function_call_output') {
+          this.droppedOutputs++;
+          this.logEvent('client', event, 'dropped, tool outputs come from the relay');
+          return null;
+        }
+        return event;
+      }
+      case 'response.create': {
+        if (this.awaitingToolResponse || this.droppedOutputs > 0) {
+          this.droppedOutputs = Math.max(0, this.droppedOutputs - 1);
+          this.logEvent('client', event, 'dropped, the relay responds after tool outputs');
+          return null;
+        }
+        const now = Date.now();
+        this.responseTimes = this.responseTimes.filter(time => now - time < 60 * 1000);
+        if (this.responseTimes.length >= this.config.responsesPerMinute) {
+          this.sendClientError(
+            'rate_limit_exceeded',
+            `More than ${this.config.responsesPerMinute} responses per minute`,
+            event
+          );
+          return null;
+        }
+        this.responseTimes.push(now);
+        return event;
+      }
+      default:
+        return event;
+    }
+  }
+
+  private handleUpstreamMessage(data: RawData) {
+    let event: RealtimeEvent;
+    try {
+      event = JSON.parse(data.toString());
+    } catch {
+      console.error(`❌ [Relay #${this.id}] Upstream sent invalid JSON`);
+      return;
+    }
+
+    const filtered = this.config.filterEvent ? this.config.filterEvent(event, 'upstream') : event;
+    if (!filtered) return;
+    this.logEvent('upstream', filtered);
+
+    if (filtered.type === 'response.output_item.done') {
+      const item = filtered.item as FunctionCallItem | undefined;
+      if (item?.type === 'function_call') {
+        this.awaitingToolResponse = true;
+        this.toolCalls.push(this.runTool(item));
+      }
+    }
+
+    this.sendClient(filtered);
+
+    if (filtered.type === 'response.done' && this.toolCalls.length > 0) {
+      this.respondAfterTools();
+    }
+  }
+
+  /**
+   * Execute a function call and send its output upstream
+   */
+  private async runTool(item: FunctionCallItem): Promise<void> {
+    const started = Date.now();
+    const name = item.name ?? '';
+    let result: unknown = null;
+    let error: string | undefined;
+
+    try {
+      const args = item.arguments ? JSON.parse(item.arguments) : {};
+      const validation = this.config.registry.validate(name, args);
+      if (!validation.valid) {
+        error = validation.error;
+      } else {
+        result = await this.config.registry.call(name, args);
+      }
+    } catch (e) {
+      error = e instanceof SyntaxError ? 'Tool arguments are not valid JSON' : e instanceof Error ? e.message : 'Unknown error';
+    }
+
+    console.log(`🔧 [Relay #${this.id}] ${name} ${error ? `failed: ${error}` : 'done'} (${Date.now() - started}ms)`);
+
+    this.sendUpstream({
+      type: 'conversation.item.create',
+      item: {
+        type: 'function_call_output',
+        call_id: item.call_id,
+        output: error ? `ERROR: ${error}` : formatToolOutput(result),
+      },
+    });
+    this.sendClient({ type: 'relay.tool_result', call_id: item.call_id, name, result, error });
+  }
+
+  /**
+   * Once all function calls of a response are answered, let the model continue
+   */
+  private async respondAfterTools() {
+    const calls = this.toolCalls;
+    this.toolCalls = [];
+    await Promise.all(calls);
+
+    if (this.toolCalls.length === 0) {
+      this.awaitingToolResponse = false;
+      this.sendUpstream({ type: 'response.create' });
+    }
+  }
+
+  /**
+   * Token bucket over all client events
+   */
+  private takeToken(): boolean {
+    const now = Date.now();
+    this.tokens = Math.min(
+      this.config.eventBurst,
+      this.tokens + ((now - this.lastRefill) / 1000) * this.config.eventsPerSecond
+    );
+    this.lastRefill = now;
+
+    if (this.tokens < 1) return false;
+    this.tokens -= 1;
+    return true;
+  }
+
+  private sendUpstream(event: RealtimeEvent) {
+    const message = JSON.stringify(event);
+    if (!this.ready) {
+      if (this.pending.length >= this.config.maxPendingEvents) {
+        console.warn(`⚠️ [Relay #${this.id}] ${this.pending.length} events queued before the upstream opened`);
+        this.close(1013, 'Realtime API is not ready');
+        return;
+      }
+      this.pending.push(message);
+    } else if (this.upstream.readyState === WebSocket.OPEN) {
+      this.upstream.send(message);
+    }
+  }
+
+  private sendClient(event: RealtimeEvent) {
+    if (this.client.readyState === WebSocket.OPEN) {
+      this.client.send(JSON.stringify(event));
+    }
+  }
+
+  /**
+   * Error event in the Realtime API format, so the browser client reports it like upstream errors
+   */
+  private sendClientError(code: string, message: string, event?: RealtimeEvent) {
+    console.warn(`⚠️ [Relay #${this.id}] ${message}`);
+    this.sendClient({
+      type: 'error',
+      error: { type: 'relay_error', code, message, event_id: event?.event_id ?? null },
+    });
+  }
+
+  private logEvent(direction: RelayDirection, event: RealtimeEvent, note?: string) {
+    if (!this.config.logEvents || UNLOGGED_EVENTS.has(event.type)) return;
+    const arrow = direction === 'client' ? 'client → upstream' : 'upstream → client';
+    console.log(`🔁 [Relay #${this.id}] ${arrow}: ${event.type}${note ? ` (${note})` : ''}`);
+  }
+}
+
+/**
+ * Function call item of response.output_item.done
+ */
+interface FunctionCallItem {
+  type: 'function_call';
+  call_id: string;
+  name?: string;
+  arguments?: string;
+}
+
+/**
+ * Accept the "realtime" subprotocol the browser client offers
+ */
+function selectProtocol(protocols: Set<string>): string | false {
+  if (protocols.has('realtime')) return 'realtime';
+  return protocols.size > 0 ? Array.from(protocols)[0] : false;
+}
+
+/**
+ * Answer an upgrade request with an HTTP error and drop the connection
+ */
+function rejectUpgrade(socket: Duplex, status: number, message: string) {
+  socket.end(`HTTP/1.1 ${status} ${message}\r\nConnection: close\r\nContent-Length: 0\r\n\r\n`);
+}
+
+/**
+ * Helper function to create a relay
+ */
+export function createRealtimeRelay(config?: RelayConfig): RealtimeRelay {
+  return new RealtimeRelay(config);
+}
@@ -0,0 +1,127 @@
+/**
+ * Realtime session configuration
+ *
+ * Instructions, tools and audio settings of a voice session, shared by
+ * /api/realtime (direct mode, minting a client secret) and the relay server,
+ * which applies them to the upstream connection itself
+ */
+
+import { getRagManager } from '@/lib/rag';
+import { CITATION_INSTRUCTIONS } from '@/lib/rag/citations';
+import { ToolDefinition, getToolRegistry } from '@/lib/rag/tool-registry';
+
+export const REALTIME_MODEL = 'gpt-4o-realtime-preview-2024-12-17';
+
+// WebSocket path of the relay server (server.ts)
+export const RELAY_PATH = '/api/realtime/relay';
+
+/**
+ * Relay mode is on when REALTIME_RELAY=true (the app must then run under server.ts)
+ */
+export function isRelayEnabled(): boolean {
+  return process.env.REALTIME_RELAY === 'true';
+}
+
+/**
+ * Base URL of the Realtime API (OPENAI_REALTIME_BASE_URL, e.g. the mock server at
+ * http://localhost:8787/v1); sessions are created at <base>/realtime/sessions
+ */
+export function getRealtimeBaseUrl(): string {
+  return (process.env.OPENAI_REALTIME_BASE_URL || 'https://api.openai.com/v1').replace(/\/+$/, '');
+}
+
+/**
+ * WebSocket URL of the Realtime API, derived from the base URL
+ */
+export function getRealtimeWebSocketUrl(): string {
+  return `${getRealtimeBaseUrl().replace(/^http/, 'ws')}/realtime`;
+}
+
+const SYSTEM_PROMPT = `You are an HR assistant that answers questions ONLY using information retrieved from company documents via the search_pdfs tool.
+
+CRITICAL RULES:
+1. If the user asks ANY question about work, company policies, hours, vacation, benefits, compensation, or procedures - you MUST call the search_pdfs tool.
+2. You are NOT allowed to answer from general knowledge or your training data.
+3. If you do not call the tool for a company question, you must respond: "I need to search the documents first."
+4. After receiving tool results, report ONLY what the labelled results say - do NOT modify, add, or interpret.
+
+Tool usage policy:
+- Always call "search_pdfs" with a short, clear query based on the user's question.
+- Wait for the tool response before answering.
+- Use the exact information from the results, and cite them as described below.
+- To answer about a whole chapter, call "get_document_outline" for the document and then "read_section" for its chunks.
+
+${CITATION_INSTRUCTIONS}
+
+Language:
+- Answer the user in the same language they used.
+- Hebrew questions get Hebrew answers.
+- English questions get English answers.
+
+Failure policy:
+- If tool results show "NO RESULTS FOUND", say: "The documents do not contain this information."
+- NEVER guess or use your training data when the tool returns no results.
+
+For casual, non-work questions (greetings, jokes, etc.), you can respond naturally without using the tool.`;
+
+/**
+ * Session settings sent to the Realtime API
+ */
+export interface RealtimeSessionConfig {
+  model: string;
+  modalities: string[];
+  voice: string;
+  instructions: string;
+  input_audio_format: string;
+  input_audio_transcription: { model: string };
+  tools: ToolDefinition[];
+  tool_choice: string;
+  turn_detection: null;
+}
+
+/**
+ * Build the session configuration
+ * With a search query, the instructions carry the matching documents; without,
+ * a summary of the knowledge base
+ */
+export async function buildSessionConfig(searchQuery?: string): Promise<RealtimeSessionConfig> {
+  const ragManager = getRagManager();
+  await ragManager.ensureInitialized();
+
+  // Build instructions with RAG context and tool availability
+  let enhancedInstructions = SYSTEM_PROMPT;
+
+  if (searchQuery) {
+    // If user provided a query, get specific context
+    const ragContext = await ragManager.search(searchQuery);
+    enhancedInstructions += `\n\nRELEVANT DOCUMENTS FOR QUERY "${searchQuery}":\n${ragContext}`;
+  } else {
+    // Otherwise, provide general knowledge base info
+    const stats = await ragManager.getStats();
+    enhancedInstructions += `\n\nKNOWLEDGE BASE AVAILABLE:
+- Total indexed sections: ${stats.totalChunks}
+- Documents: ${'documentCount' in stats ? stats.documentCount : 'N/A'}
+- Unique topics: ${'uniqueTerms' in stats ? stats.uniqueTerms : 'N/A'}
+
+Feel free to ask me about any topic from the knowledge base. I can search for specific information when needed.`;
+  }
+
+  // Tools format for Realtime API - name must be at top level
+  const tools = getToolRegistry().getDefinitions();
+
+  return {
+    model: REALTIME_MODEL,
+    modalities: ['text', 'audio'],
+    voice: 'alloy',
+    instructions: enhancedInstructions,
+    input_audio_format: 'pcm16',
+    input_audio_transcription: { 
+      model: 'whisper-1'
+      // Removed language hint - let Whisper auto-detect
+      // Hebrew hint doesn't work reliably on first utterance
+    },
+    tools,
+    tool_choice: 'auto',
+    turn_detection: null,
+  };
+}
@@ -3,6 +3,10 @@ const nextConfig = {
     env: {
       OPENAI_API_KEY: process.env.OPENAI_API_KEY,
     },
+    experimental: {
+      // pdf.js loads its worker module at runtime; keep it out of the server bundle
+      serverComponentsExternalPackages: ['pdfjs-dist'],
+    },
   };
   
   export default nextConfig;
@@ -0,0 +1,90 @@
+/**
+ * Check the Hebrew analyzer and how BM25 search uses it
+ *
+ * Usage: npm run rag:analyzer-check
+ * Words whose first letters are root letters keep them, the same word always
+ * analyzes to the same term, and prefixes are stripped only to indexed terms
+ */
+
+import { HebrewAnalyzer, analyzeHebrewToken, isHebrewPrefixedForm } from '@/lib/rag/hebrew-analyzer';
+import { DocumentRetriever } from '@/lib/rag/retriever';
+import type { Chunk } from '@/lib/rag/chunker';
+
+let failures = 0;
+
+function check(condition: boolean, description: string) {
+  console.log(`${condition ? '✅' : '❌'} ${description}`);
+  if (!condition) failures++;
+}
+
+function createChunk(id: string, content: string): Chunk {
+  return { id, content, documentId: `doc_${id}`, documentName: `${id}.txt`, chunkIndex: 0, startChar: 0, endChar: content.length };
+}
+
+// Analyzed without a vocabulary: no root letter is lost
+const ROOT_WORDS: Array<[string, string]> = [
+  ['שבוע', 'שבוע'],
+  ['שבועיים', 'שבועי'],
+  ['הודעה', 'הודע'],
+  ['מוקדמת', 'מוקדמת'],
+  ['מדיניות', 'מדיני'],
+  ['משכורת', 'משכורת'],
+  ['ימים', 'ימימ'],
+  ['מנהל', 'מנהל'],
+  ['עובדים', 'עובד'],
+  ['ביטוח', 'ביטוח'],
+];
+
+function main() {
+  for (const [word, expected] of ROOT_WORDS) {
+    const analyzed = analyzeHebrewToken(word);
+    check(analyzed === expected, `${word} → ${analyzed} (expected ${expected})`);
+  }
+
+  check(analyzeHebrewToken('עוֹבֵד') === 'עובד', 'Niqqud is removed');
+  check(analyzeHebrewToken('vacation') === 'vacation', 'Non-Hebrew words are unchanged');
+
+  // With a vocabulary, prefixes go only when the rest is a known term
+  const known = new Set(['מנהל', 'עובד', 'שבוע']);
+  const isKnown = (term: string) => known.has(term);
+  check(analyzeHebrewToken('למנהל', isKnown) === 'מנהל', 'למנהל → מנהל when מנהל is known');
+  check(analyzeHebrewToken('ולמנהל', isKnown) === 'מנהל', 'ולמנהל → מנהל when מנהל is known');
+  check(analyzeHebrewToken('מנהל', isKnown) === 'מנהל', 'מנהל keeps its מ (נהל is not known)');
+  check(analyzeHebrewToken('והעובד', isKnown) === 'עובד', 'והעובד → עובד when עובד is known');
+  check(analyzeHebrewToken('בשבוע', isKnown) === 'שבוע', 'בשבוע → שבוע when שבוע is known');
+  check(analyzeHebrewToken('שבוע', isKnown) === 'שבוע', 'שבוע keeps its ש (בוע is not known)');
+  check(analyzeHebrewToken('למנהל') === 'למנהל', 'Without a vocabulary no prefix is stripped');
+  check(
+    new HebrewAnalyzer({ minStemLength: 4 }).analyze('בשבוע', term => term === 'בוע') === 'בשבוע',
+    'Prefixes are not stripped below minStemLength letters'
+  );
+
+  check(isHebrewPrefixedForm('והעובד', 'עובד') && isHebrewPrefixedForm('לעובד', 'עובד'), 'והעובד and לעובד are prefixed forms of עובד');
+  check(!isHebrewPrefixedForm('עובדת', 'עובד') && !isHebrewPrefixedForm('אעובד', 'עובד'), 'Other letters are not prefixes');
+
+  // A query and a document using the same word, with or without a prefix, match
+  const retriever = new DocumentRetriever({ relevanceThreshold: 0, minChunkLength: 1 });
+  retriever.initialize([
+    createChunk('notice', 'יש לתת הודעה מוקדמת של שבועיים למנהל הישיר'),
+    createChunk('manager', 'המנהל מאשר את ימי החופשה של העובדים'),
+    createChunk('salary', 'המשכורת משולמת בתחילת כל חודש'),
+  ]);
+  const topId = (query: string) => retriever.search(query, 1)[0]?.chunk.id;
+  const foundIds = (query: string) => retriever.search(query, 3).map(result => result.chunk.id).sort().join(', ');
+
+  check(foundIds('מנהל') === 'manager, notice', `מנהל finds המנהל and למנהל (${foundIds('מנהל')})`);
+  check(foundIds('למנהל') === 'manager, notice', `למנהל finds the same chunks (${foundIds('למנהל')})`);
+  check(topId('למנהל') === 'notice', 'למנהל ranks the exact phrase first');
+  check(topId('הודעה מוקדמת') === 'notice', 'הודעה מוקדמת finds the notice period');
+  check(topId('משכורת') === 'salary', 'משכורת finds המשכורת');
+  check(retriever.search('שבוע', 3).every(result => result.chunk.id === 'notice'), 'שבוע only finds שבועיים');
+
+  if (failures > 0) {
+    console.error(`\n❌ ${failures} analyzer check(s) failed`);
+    process.exit(1);
+  }
+  console.log('\n✅ Analyzer checks passed');
+  process.exit(0);
+}
+
+main();
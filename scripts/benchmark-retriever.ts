@@ -0,0 +1,127 @@
+/**
+ * Benchmark DocumentRetriever over a synthetic corpus
+ *
+ * Usage: npm run rag:benchmark [-- <chunkCount> <queryCount>]
+ * Defaults to 10,000 chunks and 200 queries; the corpus is generated from a
+ * fixed seed so runs are comparable across changes
+ */
+
+import { Chunk } from '@/lib/rag/chunker';
+import { createRetriever } from '@/lib/rag/retriever';
+
+const HEBREW_WORDS = [
+  'עובד', 'עובדים', 'חופשה', 'מחלה', 'שכר', 'נהלים', 'מדיניות', 'הטבות', 'ביטוח', 'פנסיה',
+  'משמרת', 'שעות', 'נוספות', 'אישור', 'מנהל', 'מחלקה', 'הדרכה', 'בטיחות', 'ציוד', 'רכב',
+  'החזר', 'הוצאות', 'נסיעות', 'הודעה', 'מוקדמת', 'פיטורים', 'התפטרות', 'ימי', 'חג', 'לידה',
+  'הורות', 'עבודה', 'מהבית', 'משרד', 'כניסה', 'יציאה', 'דיווח', 'נוכחות', 'סודיות', 'מידע',
+];
+
+const ENGLISH_WORDS = [
+  'policy', 'employee', 'leave', 'vacation', 'salary', 'benefits', 'insurance', 'pension',
+  'overtime', 'approval', 'manager', 'department', 'training', 'safety', 'equipment', 'expense',
+  'travel', 'notice', 'remote', 'office', 'attendance', 'security', 'privacy', 'procedure',
+];
+
+/**
+ * Deterministic PRNG (mulberry32)
+ */
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function pick<T>(items: T[], random: () => number): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+function randomSentence(random: () => number): string {
+  const length = 6 + Math.floor(random() * 10);
+  const words: string[] = [];
+  for (let i = 0; i < length; i++) {
+    const roll = random();
+    if (roll < 0.75) words.push(pick(HEBREW_WORDS, random));
+    else if (roll < 0.95) words.push(pick(ENGLISH_WORDS, random));
+    else words.push(String(Math.floor(random() * 1000)));
+  }
+  return words.join(' ') + '.';
+}
+
+function buildCorpus(chunkCount: number, random: () => number): Chunk[] {
+  const chunks: Chunk[] = [];
+  const chunksPerDocument = 50;
+
+  for (let i = 0; i < chunkCount; i++) {
+    const documentIndex = Math.floor(i / chunksPerDocument);
+    const sentences = 4 + Math.floor(random() * 6);
+    const content = Array.from({ length: sentences }, () => randomSentence(random)).join(' ');
+
+    chunks.push({
+      id: `doc-${documentIndex}-chunk-${i % chunksPerDocument}`,
+      documentId: `doc-${documentIndex}`,
+      documentName: `synthetic-${documentIndex}.pdf`,
+      content,
+      chunkIndex: i % chunksPerDocument,
+      startChar: 0,
+      endChar: content.length,
+    });
+  }
+
+  return chunks;
+}
+
+function buildQueries(queryCount: number, random: () => number): string[] {
+  return Array.from({ length: queryCount }, () => {
+    const terms = 1 + Math.floor(random() * 3);
+    return Array.from({ length: terms }, () =>
+      random() < 0.8 ? pick(HEBREW_WORDS, random) : pick(ENGLISH_WORDS, random)
+    ).join(' ');
+  });
+}
+
+function percentile(sorted: number[], p: number): number {
+  const index = Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1);
+  return sorted[Math.max(0, index)];
+}
+
+function main() {
+  const chunkCount = parseInt(process.argv[2] || '10000', 10);
+  const queryCount = parseInt(process.argv[3] || '200', 10);
+  const random = createRandom(42);
+
+  const chunks = buildCorpus(chunkCount, random);
+  const queries = buildQueries(queryCount, random);
+
+  const buildStart = performance.now();
+  const retriever = createRetriever(chunks, { topK: 5, relevanceThreshold: 0.1 });
+  const buildMs = performance.now() - buildStart;
+  const stats = retriever.getStats();
+
+  // Warm up before measuring
+  for (const query of queries.slice(0, 10)) {
+    retriever.search(query);
+  }
+
+  const latencies: number[] = [];
+  let totalResults = 0;
+  for (const query of queries) {
+    const start = performance.now();
+    totalResults += retriever.search(query).length;
+    latencies.push(performance.now() - start);
+  }
+  latencies.sort((a, b) => a - b);
+
+  const average = latencies.reduce((sum, ms) => sum + ms, 0) / latencies.length;
+
+  console.log(`📚 Corpus: ${stats.totalChunks} chunks, ${stats.documentCount} documents, ${stats.uniqueTerms} unique terms`);
+  console.log(`🏗️  Index build: ${buildMs.toFixed(1)}ms`);
+  console.log(`🔍 ${queries.length} queries (${(totalResults / queries.length).toFixed(1)} results/query)`);
+  console.log(`   avg ${average.toFixed(2)}ms | p50 ${percentile(latencies, 50).toFixed(2)}ms | ` +
+    `p95 ${percentile(latencies, 95).toFixed(2)}ms | max ${latencies[latencies.length - 1].toFixed(2)}ms`);
+}
+
+main();
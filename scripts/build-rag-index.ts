@@ -0,0 +1,33 @@
+/**
+ * Prebuild the RAG index snapshot at deploy time
+ *
+ * Usage: npm run rag:build-index
+ * Writes to .rag-cache/index-snapshot.json (snapshot.path in the RAG config), which
+ * RAGManager.initialize() restores on cold start while source files are unchanged
+ */
+
+import { getRagManager } from '@/lib/rag';
+
+async function main() {
+  const started = Date.now();
+  const rag = getRagManager();
+  const snapshotPath = rag.getConfig().config.snapshot.path;
+
+  const written = await rag.rebuildSnapshot();
+  const stats = await rag.getStats();
+
+  if (!written) {
+    console.error(`❌ Snapshot was not written to ${snapshotPath} (no source documents or write failed)`);
+    process.exit(1);
+  }
+
+  console.log(
+    `✅ Snapshot written to ${snapshotPath} in ${Date.now() - started}ms ` +
+    `(${'documentCount' in stats ? stats.documentCount : 0} documents, ${stats.totalChunks} chunks)`
+  );
+}
+
+main().catch(error => {
+  console.error('❌ Failed to build RAG index snapshot:', error);
+  process.exit(1);
+});
@@ -0,0 +1,129 @@
+/**
+ * Check sentence splitting and chunking
+ *
+ * Usage: npm run rag:chunker-check
+ * Sentences end at real sentence boundaries only, chunks are exact spans of the
+ * document within chunkSize, overlaps repeat whole sentences and the structure
+ * strategy follows headings and numbered clauses
+ */
+
+import { SemanticChunker, Chunk } from '@/lib/rag/chunker';
+import { splitSentences } from '@/lib/rag/sentence-splitter';
+
+let failures = 0;
+
+function check(condition: boolean, description: string) {
+  console.log(`${condition ? '✅' : '❌'} ${description}`);
+  if (!condition) failures++;
+}
+
+function sentencesOf(text: string): string[] {
+  return splitSentences(text).map(span => text.slice(span.start, span.end));
+}
+
+function isExactSpan(text: string, chunks: Chunk[]): boolean {
+  return chunks.every(chunk => chunk.content === text.slice(chunk.startChar, chunk.endChar));
+}
+
+const POLICY_EN =
+  'Employees accrue 1.5 vacation days per month. Requests go to the manager, e.g. by email to hr@example.com. ' +
+  'Approval takes approx. three working days! Questions about clause 6.2.1 go to Dr. Cohen at ext. 5. ' +
+  'Unused days carry over to the next year. Carried days expire after twelve months. ' +
+  'Sick leave requires a doctor\'s note from the second day. Employees report sick leave to their manager.';
+
+const POLICY_HE =
+  'סעיף 6: חופשות\n' +
+  'כל עובד זכאי לחופשה שנתית בתשלום. מספר הימים נקבע לפי הוותק בחברה ומתעדכן בכל שנה.\n\n' +
+  '6.1 חופשה שנתית\n' +
+  'בקשה לחופשה מוגשת למנהל הישיר לפחות שבועיים מראש. המנהל מאשר את הבקשה בתוך שלושה ימי עבודה.\n\n' +
+  '6.2 ימי מחלה\n' +
+  'עובד זכאי לימי מחלה בתשלום לפי החוק. מהיום השני נדרש אישור רפואי, שיועבר למשאבי אנוש.\n';
+
+function main() {
+  // Sentence splitting
+  check(
+    JSON.stringify(sentencesOf('Leave is 1.5 days per month. Ask Dr. Cohen, e.g. via ext. 5. Done!')) ===
+      JSON.stringify(['Leave is 1.5 days per month.', 'Ask Dr. Cohen, e.g. via ext. 5.', 'Done!']),
+    'Decimals and abbreviations do not end a sentence'
+  );
+  check(
+    sentencesOf('See clause 6.2.1 of the policy. Opens at 09.00 on Sundays.').length === 2,
+    'Clause numbers and times do not end a sentence'
+  );
+  check(
+    JSON.stringify(sentencesOf('יש להגיש בקשה מראש׃ המנהל מאשר. ראה סעיף 6.2.1 בנוהל.')) ===
+      JSON.stringify(['יש להגיש בקשה מראש׃', 'המנהל מאשר.', 'ראה סעיף 6.2.1 בנוהל.']),
+    'Hebrew sentences end at sof pasuq and periods'
+  );
+  check(
+    sentencesOf("יש למלא את טופס מס'. 5 במערכת.").length === 1,
+    'Hebrew abbreviations with a geresh do not end a sentence'
+  );
+  check(
+    sentencesOf('הפרטים מופיעים בנספח ב. המסמך מעודכן.').length === 2,
+    'A lone Hebrew letter before a period is not an initial'
+  );
+  check(sentencesOf('First item\nSecond item').length === 2, 'Line breaks end a sentence');
+
+  const text = '  Spaced sentence.   Another one.  ';
+  const spans = splitSentences(text);
+  check(
+    spans.length === 2 && text.slice(spans[0].start, spans[0].end) === 'Spaced sentence.',
+    'Sentence spans are trimmed offsets into the text'
+  );
+
+  // Paragraph strategy: exact spans within chunkSize, overlapping by whole sentences
+  const chunks = new SemanticChunker({ chunkSize: 200, overlapSize: 60, strategy: 'paragraph' })
+    .chunkDocument('doc_policy', 'policy.txt', POLICY_EN);
+  const sentenceStarts = new Set(splitSentences(POLICY_EN).map(span => span.start));
+  check(chunks.length > 1, `A long paragraph is split (${chunks.length} chunks)`);
+  check(isExactSpan(POLICY_EN, chunks), 'Chunk content is exactly the text between startChar and endChar');
+  check(chunks.every(chunk => chunk.content.length <= 200), 'Chunks fit in chunkSize');
+  check(chunks.every(chunk => sentenceStarts.has(chunk.startChar)), 'Chunks start at a sentence');
+  check(chunks.slice(1).every((chunk, i) => chunk.startChar < chunks[i].endChar), 'Consecutive chunks overlap');
+  check(
+    chunks.every((chunk, i) => chunk.chunkIndex === i && chunk.id === `doc_policy_chunk_${i}`),
+    'Chunks are numbered in reading order'
+  );
+
+  const noOverlap = new SemanticChunker({ chunkSize: 200, overlapSize: 0, strategy: 'paragraph' })
+    .chunkDocument('doc_policy', 'policy.txt', POLICY_EN);
+  check(
+    noOverlap.slice(1).every((chunk, i) => chunk.startChar >= noOverlap[i].endChar),
+    'Without overlap, chunks do not share text'
+  );
+
+  const countWords = (value: string) => value.split(/\s+/).filter(Boolean).length;
+  const tokenChunks = new SemanticChunker({
+    chunkSize: 40,
+    overlapSize: 0,
+    strategy: 'paragraph',
+    sizeUnit: 'tokens',
+    countTokens: countWords,
+  }).chunkDocument('doc_policy', 'policy.txt', POLICY_EN);
+  check(
+    tokenChunks.length > 1 && tokenChunks.every(chunk => countWords(chunk.content) <= 40),
+    'With sizeUnit tokens, chunks fit in chunkSize tokens'
+  );
+
+  // Structure strategy: one chunk per clause, with its section path and breadcrumb
+  const sections = new SemanticChunker({ chunkSize: 200, overlapSize: 0, strategy: 'structure' })
+    .chunkDocument('doc_he', 'policy-he.txt', POLICY_HE);
+  const sickLeave = sections.find(chunk => chunk.content.includes('אישור רפואי'));
+  check(isExactSpan(POLICY_HE, sections), 'Structure chunks are exact spans of the text');
+  check(sickLeave?.sectionPath === '6 > 6.2', `Clause 6.2 has section path "6 > 6.2" (${sickLeave?.sectionPath})`);
+  check(
+    sickLeave?.breadcrumb === 'סעיף 6: חופשות > 6.2 ימי מחלה',
+    `Clause 6.2 has the heading breadcrumb (${sickLeave?.breadcrumb})`
+  );
+  check(!sickLeave?.content.includes('שבועיים מראש'), 'Clause 6.2 does not share a chunk with clause 6.1');
+
+  if (failures > 0) {
+    console.error(`\n❌ ${failures} chunker check(s) failed`);
+    process.exit(1);
+  }
+  console.log('\n✅ Chunker checks passed');
+  process.exit(0);
+}
+
+main();
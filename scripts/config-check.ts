@@ -0,0 +1,139 @@
+/**
+ * Check loading and validation of the RAG configuration
+ *
+ * Usage: npm run rag:config-check
+ * The config file is merged over the defaults and the environment over both,
+ * every problem is reported in one error, and the redacted config served over
+ * HTTP has no secrets or server paths
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { getDefaultRAGConfig, loadRAGConfig, redactRAGConfig, validateRAGConfig } from '@/lib/rag/config';
+
+let failures = 0;
+
+function check(condition: boolean, description: string) {
+  console.log(`${condition ? '✅' : '❌'} ${description}`);
+  if (!condition) failures++;
+}
+
+/**
+ * Message of the error thrown by fn, or null if it does not throw
+ */
+function errorOf(fn: () => unknown): string | null {
+  try {
+    fn();
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+/**
+ * Load the config from the given environment variables only
+ */
+function loadWith(variables: Record<string, string>) {
+  return loadRAGConfig({ NODE_ENV: 'test', ...variables });
+}
+
+function main() {
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rag-config-check-'));
+  const configPath = path.join(workDir, 'rag.config.json');
+  const writeConfig = (config: unknown) => fs.writeFileSync(configPath, JSON.stringify(config));
+
+  try {
+    check(validateRAGConfig(getDefaultRAGConfig()).length === 0, 'The default config is valid');
+    check(validateRAGConfig([]).join() === 'RAG config must be an object', 'A config that is not an object is refused');
+
+    const defaults = getDefaultRAGConfig();
+    const problems = validateRAGConfig({
+      ...defaults,
+      chunker: { ...defaults.chunker, chunkSzie: 500, overlapSize: 2000 },
+      retriever: { ...defaults.retriever, mode: 'semantic', topK: 0 },
+    });
+    const has = (text: string) => problems.some(problem => problem.includes(text));
+    check(has('Unknown option chunker.chunkSzie'), 'Misspelled options are reported');
+    check(
+      has('chunker.overlapSize (2000) must be smaller than chunker.chunkSize (1000)'),
+      'An overlap larger than the chunk is reported'
+    );
+    check(has('retriever.mode must be one of bm25, vector, hybrid'), 'Unknown retrieval modes are reported');
+    check(has('retriever.topK must be >= 1'), 'Out-of-range numbers are reported');
+    check(problems.length === 4, `All problems are reported together (${problems.length})`);
+
+    // File and environment
+    writeConfig({ retriever: { topK: 3 }, chunker: { strategy: 'paragraph' } });
+    const loaded = loadWith({ RAG_CONFIG_PATH: configPath, RAG_CHUNK_SIZE: '600' });
+    check(loaded.configFile === configPath, 'The config file is reported');
+    check(
+      loaded.config.retriever.topK === 3 &&
+        loaded.config.retriever.relevanceThreshold.bm25 === defaults.retriever.relevanceThreshold.bm25,
+      'The config file is merged over the defaults'
+    );
+    check(loaded.config.chunker.chunkSize === 600, 'Environment variables override the config file');
+    check(
+      loaded.envOverrides.join() === 'RAG_CHUNK_SIZE',
+      `Applied variables are listed (${loaded.envOverrides.join()})`
+    );
+    check(
+      path.isAbsolute(loaded.config.loader.documentsDir),
+      'The documents directory is resolved to an absolute path'
+    );
+
+    const invalidEnv = errorOf(() =>
+      loadWith({ RAG_CONFIG_PATH: configPath, RAG_TOP_K: 'five', RAG_RETRIEVAL: 'semantic' })
+    );
+    check(
+      !!invalidEnv &&
+        invalidEnv.includes('RAG_TOP_K must be a number') &&
+        invalidEnv.includes('retriever.mode must be one of'),
+      'Invalid environment values are reported in one error'
+    );
+
+    fs.writeFileSync(configPath, '{ "retriever": ');
+    check(
+      (errorOf(() => loadWith({ RAG_CONFIG_PATH: configPath })) || '').includes('Could not parse'),
+      'A config file that is not JSON is reported'
+    );
+    const missingPath = path.join(workDir, 'missing.json');
+    check(
+      (errorOf(() => loadWith({ RAG_CONFIG_PATH: missingPath })) || '').includes('points to a missing file'),
+      'A missing RAG_CONFIG_PATH file is reported'
+    );
+
+    // Embeddings key
+    writeConfig({});
+    const withoutKey = errorOf(() =>
+      loadWith({ RAG_CONFIG_PATH: configPath, RAG_RETRIEVAL: 'vector', RAG_EMBEDDER: 'http' })
+    );
+    check(
+      (withoutKey || '').includes('embedder.apiKey is required'),
+      'The OpenAI embeddings endpoint needs an API key'
+    );
+    const withKey = loadWith({
+      RAG_CONFIG_PATH: configPath,
+      RAG_RETRIEVAL: 'vector',
+      RAG_EMBEDDER: 'http',
+      OPENAI_API_KEY: 'sk-test',
+    });
+    check(withKey.config.embedder.apiKey === 'sk-test', 'OPENAI_API_KEY doubles as the embeddings key');
+
+    // Served config
+    const redacted = redactRAGConfig(withKey.config);
+    check(redacted.embedder.apiKey === '********', 'API keys are masked');
+    check(!('documentsDir' in redacted.loader) && !('snapshot' in redacted), 'Server paths are left out');
+  } finally {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  }
+
+  if (failures > 0) {
+    console.error(`\n❌ ${failures} config check(s) failed`);
+    process.exit(1);
+  }
+  console.log('\n✅ Config checks passed');
+  process.exit(0);
+}
+
+main();
@@ -0,0 +1,221 @@
+/**
+ * End-to-end check of the voice flows against the mock Realtime API
+ *
+ * Usage: npm run e2e:check
+ * Points the app at MockRealtimeServer (OPENAI_REALTIME_BASE_URL) and plays the
+ * browser's part over the WebSocket, calling the app's route handlers for the
+ * session token and searches:
+ * - tool-call flow: spoken question → search_pdfs function call → tool output → cited answer
+ * - pre-search flow: spoken question → search before the response → cited answer, no function call
+ */
+
+import { NextRequest } from 'next/server';
+import WebSocket from 'ws';
+import { createMockRealtimeServer } from '@/lib/realtime/mock-server';
+import type { RealtimeEvent } from '@/lib/realtime/relay';
+import { formatCitedSnippets } from '@/lib/rag/citations';
+import type { SearchResultItem } from '@/lib/rag/mcp-tools';
+
+const TIMEOUT_MS = 30000;
+const TOOL_CALL_QUESTION = 'How many vacation days do employees get?';
+const PRE_SEARCH_QUESTION = 'What are the working hours?';
+
+let failures = 0;
+
+function check(condition: boolean, description: string) {
+  console.log(`${condition ? '✅' : '❌'} ${description}`);
+  if (!condition) failures++;
+}
+
+/**
+ * Browser side of a realtime session: sends events and records everything received
+ */
+class TestClient {
+  events: RealtimeEvent[] = [];
+  private waiters: Array<{ match: (event: RealtimeEvent) => boolean; resolve: (event: RealtimeEvent) => void }> = [];
+
+  constructor(private socket: WebSocket) {
+    socket.on('message', data => {
+      const event = JSON.parse(data.toString()) as RealtimeEvent;
+      this.events.push(event);
+      this.waiters = this.waiters.filter(waiter => {
+        if (!waiter.match(event)) return true;
+        waiter.resolve(event);
+        return false;
+      });
+    });
+  }
+
+  send(event: Record<string, unknown>) {
+    this.socket.send(JSON.stringify(event));
+  }
+
+  /**
+   * Wait for the next event matching a predicate
+   */
+  next(match: (event: RealtimeEvent) => boolean): Promise<RealtimeEvent> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => reject(new Error('Timed out waiting for a realtime event')), TIMEOUT_MS);
+      this.waiters.push({
+        match,
+        resolve: event => {
+          clearTimeout(timer);
+          resolve(event);
+        },
+      });
+    });
+  }
+
+  /**
+   * Send half a second of silence and commit it; resolves with the transcription
+   */
+  async speak(): Promise<string> {
+    const transcription = this.next(event => event.type === 'conversation.item.input_audio_transcription.completed');
+    this.send({ type: 'input_audio_buffer.append', audio: Buffer.alloc(24000).toString('base64') });
+    this.send({ type: 'input_audio_buffer.commit' });
+    return String((await transcription).transcript);
+  }
+
+  /**
+   * Request a response; resolves with its output and the events streamed for it
+   */
+  async respond(): Promise<{ output: Array<Record<string, unknown>>; events: RealtimeEvent[] }> {
+    const start = this.events.length;
+    const done = this.next(event => event.type === 'response.done');
+    this.send({ type: 'response.create' });
+    const response = (await done).response as { output: Array<Record<string, unknown>> };
+    return { output: response.output, events: this.events.slice(start) };
+  }
+
+  close() {
+    this.socket.close();
+  }
+}
+
+/**
+ * Search through the tools route, like performSearch in the page
+ */
+async function search(query: string): Promise<SearchResultItem[]> {
+  const { POST } = await import('@/app/api/tools/call/route');
+  const response = await POST(
+    new NextRequest('http://localhost/api/tools/call', {
+      method: 'POST',
+      body: JSON.stringify({ tool_name: 'search_pdfs', tool_arguments: { query } }),
+    })
+  );
+  const data = await response.json();
+  return ((data.tool_result?.results ?? []) as SearchResultItem[]).filter(result => result.text_snippet);
+}
+
+function getAnswerText(output: Array<Record<string, unknown>>): string {
+  const message = output.find(item => item.type === 'message');
+  const part = (message?.content as Array<{ text?: string; transcript?: string }> | undefined)?.[0];
+  return part?.transcript ?? part?.text ?? '';
+}
+
+function citesResult(answer: string, results: SearchResultItem[]): boolean {
+  return results.some(result => answer.includes(`[${result.citation_id}]`));
+}
+
+async function main() {
+  const mock = createMockRealtimeServer({ transcripts: [TOOL_CALL_QUESTION, PRE_SEARCH_QUESTION] });
+  process.env.OPENAI_REALTIME_BASE_URL = await mock.start();
+  process.env.OPENAI_API_KEY = 'sk-e2e-check';
+  delete process.env.REALTIME_RELAY;
+
+  // Session token from the app, as the page requests it
+  const { POST: createSession } = await import('@/app/api/realtime/route');
+  const sessionResponse = await createSession(new NextRequest('http://localhost/api/realtime', { method: 'POST' }));
+  const session = await sessionResponse.json();
+  check(sessionResponse.status === 200 && typeof session.client_secret?.value === 'string', 'Session route minted a client secret');
+  check(session.realtime_url === mock.getWebSocketUrl(), `Session route points the browser at the mock (${session.realtime_url})`);
+
+  // Connect like the browser client library
+  const socket = new WebSocket(`${session.realtime_url}?model=gpt-4o-realtime-preview`, [
+    'realtime',
+    `openai-insecure-api-key.${session.client_secret.value}`,
+    'openai-beta.realtime-v1',
+  ]);
+  const client = new TestClient(socket);
+  const created = client.next(event => event.type === 'session.created');
+  await new Promise<void>((resolve, reject) => {
+    socket.once('open', () => resolve());
+    socket.once('error', reject);
+  });
+  const createdSession = (await created).session as { tools: Array<{ name: string }> };
+  check(
+    createdSession.tools.some(tool => tool.name === 'search_pdfs'),
+    'WebSocket session starts with the configuration from the session route'
+  );
+
+  const updated = client.next(event => event.type === 'session.updated');
+  client.send({ type: 'session.update', session: { tools: session.tools, input_audio_transcription: { model: 'whisper-1' } } });
+  await updated;
+
+  // Tool-call flow
+  const firstTranscript = await client.speak();
+  check(firstTranscript === TOOL_CALL_QUESTION, `Committed audio was transcribed: "${firstTranscript}"`);
+
+  const toolTurn = await client.respond();
+  const call = toolTurn.output.find(item => item.type === 'function_call') as
+    | { name: string; call_id: string; arguments: string }
+    | undefined;
+  check(call?.name === 'search_pdfs', 'Model called search_pdfs');
+
+  const query = call ? (JSON.parse(call.arguments) as { query: string }).query : TOOL_CALL_QUESTION;
+  const toolResults = await search(query);
+  check(toolResults.length > 0, `Tools route found ${toolResults.length} result(s) for "${query}"`);
+
+  client.send({
+    type: 'conversation.item.create',
+    item: { type: 'function_call_output', call_id: call?.call_id, output: formatCitedSnippets(toolResults) },
+  });
+  const answerTurn = await client.respond();
+  const toolAnswer = getAnswerText(answerTurn.output);
+  check(citesResult(toolAnswer, toolResults), `Answer cites a search result: "${toolAnswer.slice(0, 80)}..."`);
+  check(
+    answerTurn.events.some(event => event.type === 'response.audio.delta') &&
+      answerTurn.events.some(event => event.type === 'response.audio_transcript.done'),
+    'Answer was streamed as audio with a transcript'
+  );
+
+  // Pre-search flow: search on the transcript, put the results in the instructions, then respond
+  const secondTranscript = await client.speak();
+  const preSearchResults = await search(secondTranscript);
+  check(preSearchResults.length > 0, `Pre-search found ${preSearchResults.length} result(s) for "${secondTranscript}"`);
+
+  const contextUpdated = client.next(event => event.type === 'session.updated');
+  client.send({
+    type: 'session.update',
+    session: {
+      instructions: `The user asked: "${secondTranscript}"\n\n${formatCitedSnippets(preSearchResults)}`,
+    },
+  });
+  await contextUpdated;
+
+  const preSearchTurn = await client.respond();
+  const preSearchAnswer = getAnswerText(preSearchTurn.output);
+  check(!preSearchTurn.output.some(item => item.type === 'function_call'), 'Pre-searched question was answered without a function call');
+  check(citesResult(preSearchAnswer, preSearchResults), `Answer cites a pre-search result: "${preSearchAnswer.slice(0, 80)}..."`);
+
+  // Committing without audio fails like the real API
+  const emptyCommit = client.next(event => event.type === 'error');
+  client.send({ type: 'input_audio_buffer.commit' });
+  const commitError = (await emptyCommit).error as { code?: string };
+  check(commitError?.code === 'input_audio_buffer_commit_empty', 'Empty audio commits are rejected');
+
+  client.close();
+  await mock.close();
+
+  if (failures > 0) {
+    console.error(`\n❌ ${failures} end-to-end check(s) failed`);
+    process.exit(1);
+  }
+  console.log('\n✅ End-to-end checks passed');
+  process.exit(0);
+}
+
+main().catch(error => {
+  console.error('❌ End-to-end check failed:', error);
+  process.exit(1);
+});
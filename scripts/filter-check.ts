@@ -0,0 +1,150 @@
+/**
+ * Check metadata, search filters and policy versions
+ *
+ * Usage: npm run rag:filter-check
+ * Front matter and sidecar fields are normalized, filters match case-insensitively
+ * and only documents that have the field, and dated policy versions are searched
+ * only on the dates they are in effect (asOf)
+ */
+
+import { Chunk } from '@/lib/rag/chunker';
+import {
+  DocumentMetadata,
+  inferVersionFromFilename,
+  isEffectiveOn,
+  matchesFilter,
+  normalizeMetadata,
+  parseFrontMatter,
+  validateAsOf,
+} from '@/lib/rag/metadata';
+import { Document } from '@/lib/rag/pdf-loader';
+import { DocumentRetriever } from '@/lib/rag/retriever';
+import { assignPolicyVersions } from '@/lib/rag/versions';
+
+let failures = 0;
+
+function check(condition: boolean, description: string) {
+  console.log(`${condition ? '✅' : '❌'} ${description}`);
+  if (!condition) failures++;
+}
+
+function createDocument(filename: string, text: string, metadata: DocumentMetadata = {}): Document {
+  return { id: `doc_${filename}`, filename, text, metadata };
+}
+
+function createChunk(document: Document): Chunk {
+  return {
+    id: `${document.id}_chunk_0`,
+    content: document.text,
+    documentId: document.id,
+    documentName: document.filename,
+    chunkIndex: 0,
+    startChar: 0,
+    endChar: document.text.length,
+    metadata: document.metadata,
+  };
+}
+
+function main() {
+  // Metadata
+  const { fields, body } = parseFrontMatter(
+    '---\nDepartment: HR\nlang: he\naudience:\n  - Managers\n  - employees\ntags: [Leave, "Vacation"]\n' +
+      'effective_date: 2024-01-01\nclassification: Internal\n---\nPolicy text'
+  );
+  check(body === 'Policy text', 'Front matter is removed from the text');
+  const metadata = normalizeMetadata(fields, 'policy.md');
+  check(
+    JSON.stringify(metadata) ===
+      JSON.stringify({
+        department: 'hr',
+        language: 'he',
+        audience: ['managers', 'employees'],
+        tags: ['leave', 'vacation'],
+        effectiveDate: '2024-01-01',
+        confidentiality: 'internal',
+      }),
+    `Front matter fields and aliases are normalized (${JSON.stringify(metadata)})`
+  );
+  const dropped = normalizeMetadata({ effectiveDate: '01/02/2024', confidentiality: 'secret', owner: 'x' }, 'a.pdf');
+  check(JSON.stringify(dropped) === '{}', 'Invalid dates, unknown levels and unknown fields are dropped');
+
+  // Filters
+  check(matchesFilter(metadata, { department: 'HR' }), 'Filters compare case-insensitively');
+  check(matchesFilter(metadata, { audience: ['contractors', 'managers'] }), 'A list filter matches any of its values');
+  check(!matchesFilter(metadata, { department: 'hr', language: 'en' }), 'Every filter field must match');
+  check(!matchesFilter({ language: 'he' }, { department: 'hr' }), 'A document without the field does not match');
+  check(matchesFilter(metadata, { tags: [] }) && matchesFilter(undefined), 'Empty filters match everything');
+
+  // Versions
+  check(
+    JSON.stringify(inferVersionFromFilename('vacation-policy-2024.pdf')) ===
+      JSON.stringify({ policy: 'vacation-policy', effectiveDate: '2024-01-01' }),
+    'The policy and effective date are inferred from a dated file name'
+  );
+  check(
+    inferVersionFromFilename('Vacation Policy 2024-03-15.docx')?.effectiveDate === '2024-03-15',
+    'Full dates in file names are read'
+  );
+  check(inferVersionFromFilename('handbook.pdf') === null, 'Undated file names are not versions');
+  check(
+    validateAsOf('2024-02-30') !== null && validateAsOf('2024-02-29') === null,
+    'as_of must be a real YYYY-MM-DD date'
+  );
+
+  const documents = [
+    createDocument('vacation-policy-2023.txt', 'Employees receive 12 vacation days per year.'),
+    createDocument('vacation-policy-2024.txt', 'Employees receive 14 vacation days per year.'),
+    createDocument('report-2027.txt', 'Vacation usage report with projections.'),
+    createDocument('sick-leave.txt', 'Sick leave policy: a doctor note is needed.', {
+      policy: 'sick-leave',
+      effectiveDate: '2024-06-01',
+    }),
+  ];
+  const chunks = documents.map(createChunk);
+  const groups = assignPolicyVersions(documents, chunks);
+  const vacation = groups.find(group => group.policy === 'vacation-policy');
+  check(
+    vacation?.versions.map(version => `${version.filename}:${version.supersededOn ?? '-'}`).join(', ') ===
+      'vacation-policy-2023.txt:2024-01-01, vacation-policy-2024.txt:-',
+    'Dated files of one policy become versions, superseded by the next one'
+  );
+  check(!groups.some(group => group.policy === 'report'), 'A lone dated file is not treated as a version');
+  check(chunks[0].metadata?.supersededOn === '2024-01-01', 'Chunks share the version metadata of their document');
+
+  check(isEffectiveOn(documents[0].metadata, '2023-06-01'), 'The 2023 version is in effect in 2023');
+  check(!isEffectiveOn(documents[0].metadata, '2024-01-01'), 'The 2023 version ends when the 2024 version starts');
+  check(!isEffectiveOn(documents[1].metadata, '2023-12-31'), 'The 2024 version is not in effect before 2024');
+  check(isEffectiveOn(documents[2].metadata, '2020-01-01'), 'Documents that are not versions are always in effect');
+  check(!isEffectiveOn(documents[3].metadata, '2024-01-01'), 'A declared policy is in effect from its effective date');
+
+  // Search
+  const retriever = new DocumentRetriever({ relevanceThreshold: 0, minChunkLength: 1 });
+  retriever.initialize(chunks);
+  const found = (asOf: string) =>
+    retriever
+      .search('vacation days', 5, { asOf })
+      .map(result => result.chunk.documentName)
+      .sort()
+      .join(', ');
+  check(
+    found('2023-06-01') === 'report-2027.txt, vacation-policy-2023.txt',
+    `Searching as of 2023 finds the 2023 version (${found('2023-06-01')})`
+  );
+  check(
+    found('2024-06-01') === 'report-2027.txt, vacation-policy-2024.txt',
+    `Searching as of 2024 finds the 2024 version (${found('2024-06-01')})`
+  );
+  check(
+    retriever.search('vacation', 5, { asOf: '2024-06-01', language: 'he' }).length === 0,
+    'Filters on fields the documents do not have exclude them'
+  );
+
+  if (failures > 0) {
+    console.error(`\n❌ ${failures} filter check(s) failed`);
+    process.exit(1);
+  }
+  console.log('\n✅ Filter checks passed');
+  process.exit(0);
+}
+
+main();
@@ -0,0 +1,56 @@
+/**
+ * MCP server over stdio
+ *
+ * Usage: npm run mcp:stdio
+ * Reads newline-delimited JSON-RPC messages from stdin and writes responses to
+ * stdout, one per line. Logs go to stderr so they never corrupt the protocol stream.
+ */
+
+import { createInterface } from 'readline';
+import { PARSE_ERROR, createMCPServer, errorResponse } from '@/lib/rag/mcp-server';
+
+// stdout carries protocol messages only
+console.log = console.error;
+console.info = console.error;
+
+async function main() {
+  const server = createMCPServer();
+  const lines = createInterface({ input: process.stdin, crlfDelay: Infinity });
+  const pending: Promise<void>[] = [];
+
+  const send = (message: unknown) => {
+    process.stdout.write(`${JSON.stringify(message)}\n`);
+  };
+
+  const handleLine = async (line: string) => {
+    let message: unknown;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      send(errorResponse(null, PARSE_ERROR, 'Parse error'));
+      return;
+    }
+
+    if (Array.isArray(message)) {
+      const responses = (await Promise.all(message.map(item => server.handleMessage(item)))).filter(Boolean);
+      if (responses.length > 0) send(responses);
+      return;
+    }
+
+    const response = await server.handleMessage(message);
+    if (response) send(response);
+  };
+
+  lines.on('line', line => {
+    if (line.trim() === '') return;
+    pending.push(handleLine(line));
+  });
+
+  await new Promise<void>(resolve => lines.once('close', () => resolve()));
+  await Promise.all(pending);
+}
+
+main().catch(error => {
+  console.error('❌ MCP server failed:', error);
+  process.exit(1);
+});
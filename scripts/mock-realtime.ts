@@ -0,0 +1,35 @@
+/**
+ * Mock Realtime API server
+ *
+ * Usage: npm run mock:realtime, then start the app with
+ * OPENAI_REALTIME_BASE_URL=http://localhost:8787/v1 (any OPENAI_API_KEY works)
+ * Serves /v1/realtime/sessions and the realtime WebSocket offline, with scripted
+ * transcripts (MOCK_REALTIME_TRANSCRIPTS, separated by "|") for committed audio
+ */
+
+import { createMockRealtimeServer } from '@/lib/realtime/mock-server';
+
+async function main() {
+  const port = parseInt(process.env.MOCK_REALTIME_PORT || '8787', 10);
+  const transcripts = (process.env.MOCK_REALTIME_TRANSCRIPTS || '')
+    .split('|')
+    .map(transcript => transcript.trim())
+    .filter(Boolean);
+
+  const server = createMockRealtimeServer({ transcripts });
+  const baseUrl = await server.start(port, process.env.MOCK_REALTIME_HOST || '127.0.0.1');
+
+  console.log(`✅ Mock Realtime API on ${baseUrl} (WebSocket: ${server.getWebSocketUrl()})`);
+  console.log(`   Start the app with OPENAI_REALTIME_BASE_URL=${baseUrl}`);
+
+  const shutdown = () => {
+    server.close().then(() => process.exit(0));
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch(error => {
+  console.error('❌ Failed to start mock Realtime API:', error);
+  process.exit(1);
+});
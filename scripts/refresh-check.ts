@@ -0,0 +1,154 @@
+/**
+ * Check incremental re-indexing of the knowledge base
+ *
+ * Usage: npm run rag:refresh-check
+ * Indexes a temporary documents directory with two files that share a stem
+ * (policy.txt, policy.md), edits one of them and checks that refresh() re-indexes
+ * only that file and the other stays searchable. Also checks that a file whose
+ * indexing failed is retried, that reset() waits for a refresh in flight and
+ * restarts the watcher, and that concurrent initialize() calls build once
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+let failures = 0;
+
+// Internals replaced or observed by the checks below
+interface ManagerInternals {
+  retriever: { updateDocuments: (...args: unknown[]) => void } | null;
+  loader: { loadAll: (...args: unknown[]) => Promise<unknown> };
+  watcher: fs.FSWatcher | null;
+}
+
+function check(condition: boolean, description: string) {
+  console.log(`${condition ? '✅' : '❌'} ${description}`);
+  if (!condition) failures++;
+}
+
+const POLICY_TXT =
+  'Parking policy\n\nEmployees may park in the outdoor lot next to the main building. ' +
+  'Parking permits are issued by the facilities team every year and must be displayed.\n';
+
+const POLICY_MD =
+  '# Parking\n\nVisitors park in the underground garage below the north tower. ' +
+  'The underground garage opens at seven in the morning and closes at nine in the evening.\n\n' +
+  '## Bicycles\n\nBicycle racks are located at the east entrance, next to the shower rooms. ' +
+  'Bicycles left overnight in the racks are removed by the facilities team on Fridays.\n';
+
+async function main() {
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rag-refresh-check-'));
+  const documentsDir = path.join(workDir, 'documents');
+  fs.mkdirSync(documentsDir);
+  fs.writeFileSync(path.join(documentsDir, 'policy.txt'), POLICY_TXT);
+  fs.writeFileSync(path.join(documentsDir, 'policy.md'), POLICY_MD);
+
+  // The RAG config is read when the manager is created
+  process.env.RAG_DOCUMENTS_DIR = documentsDir;
+  process.env.RAG_SNAPSHOT_PATH = path.join(workDir, 'index-snapshot.json');
+  process.env.RAG_CHUNK_SIZE = '200';
+  process.env.RAG_CHUNK_OVERLAP = '0';
+  const { getRagManager } = await import('@/lib/rag');
+
+  try {
+    const rag = getRagManager();
+    await rag.ensureInitialized();
+
+    const before = await rag.listDocuments();
+    const ids = before.map(doc => doc.id);
+    check(before.length === 2 && new Set(ids).size === 2, `Files with the same stem get distinct ids (${ids.join(', ')})`);
+
+    const topFilename = async (query: string) => (await rag.searchRaw(query, 1))[0]?.chunk.documentName;
+    check((await topFilename('underground garage')) === 'policy.md', 'Text only in policy.md is found in policy.md');
+
+    const mdChunks = before.find(doc => doc.filename === 'policy.md')?.chunkCount ?? 0;
+    fs.writeFileSync(path.join(documentsDir, 'policy.txt'), POLICY_TXT.replace('outdoor lot', 'west parking lot'));
+    const summary = await rag.refresh();
+    check(
+      summary.changed.length === 1 && summary.changed[0] === 'policy.txt' && summary.unchanged === 1,
+      'Refresh re-indexed only the edited file'
+    );
+
+    const after = await rag.listDocuments();
+    check(
+      after.find(doc => doc.filename === 'policy.md')?.chunkCount === mdChunks,
+      `policy.md kept its ${mdChunks} chunks after policy.txt changed`
+    );
+    check((await topFilename('underground garage')) === 'policy.md', 'policy.md is still searchable after the refresh');
+    check((await topFilename('west parking lot')) === 'policy.txt', 'The edit to policy.txt is searchable');
+
+    // A file whose indexing fails keeps its old hash, so the next refresh retries it
+    const internals = rag as unknown as ManagerInternals;
+    const retriever = internals.retriever!;
+    const updateDocuments = retriever.updateDocuments;
+    retriever.updateDocuments = () => {
+      throw new Error('injected indexing failure');
+    };
+    fs.writeFileSync(path.join(documentsDir, 'policy.txt'), POLICY_TXT.replace('outdoor lot', 'carpool lot'));
+    const failedRefresh = await rag.refresh().then(
+      () => false,
+      () => true
+    );
+    retriever.updateDocuments = updateDocuments;
+    check(failedRefresh, 'A refresh whose indexing fails rejects');
+    const retried = await rag.refresh();
+    check(retried.changed.length === 1 && retried.changed[0] === 'policy.txt', 'The next refresh retries the failed file');
+    check((await topFilename('carpool lot')) === 'policy.txt', 'The retried edit is searchable');
+
+    // reset() and a refresh run one after the other and rebuild from a clean state
+    fs.writeFileSync(path.join(documentsDir, 'policy.md'), POLICY_MD.replace('east entrance', 'south entrance'));
+    const [refreshed] = await Promise.all([rag.refresh(), rag.reset()]);
+    check(refreshed.failed.length === 0 && refreshed.removed.length === 0, 'A refresh concurrent with reset() completes');
+    const report = await rag.getIngestionReport();
+    check(
+      (await rag.listDocuments()).length === 2 && report.files.length === 2,
+      `reset() leaves 2 documents and 2 ingestion reports (${report.files.length})`
+    );
+    check((await topFilename('south entrance')) === 'policy.md', 'The refreshed edit is searchable after reset()');
+
+    // A fresh manager: concurrent initialize() calls share one build, and in
+    // development reset() closes the watcher before starting a new one
+    Object.assign(process.env, { NODE_ENV: 'development' });
+    fs.rmSync(process.env.RAG_SNAPSHOT_PATH, { force: true });
+    (global as { ragManager?: unknown }).ragManager = undefined;
+    const fresh = getRagManager();
+    const freshInternals = fresh as unknown as ManagerInternals;
+    const loadAll = freshInternals.loader.loadAll.bind(freshInternals.loader);
+    let builds = 0;
+    freshInternals.loader.loadAll = (...args: unknown[]) => {
+      builds++;
+      return loadAll(...args);
+    };
+    await Promise.all([fresh.initialize(), fresh.initialize(), fresh.ensureInitialized()]);
+    check(builds === 1, `Concurrent initialize() calls build the index once (${builds})`);
+
+    const watcher = freshInternals.watcher;
+    let watcherClosed = false;
+    if (watcher) {
+      const close = watcher.close.bind(watcher);
+      watcher.close = () => {
+        watcherClosed = true;
+        close();
+      };
+    }
+    await fresh.reset();
+    check(watcher !== null && watcherClosed, 'reset() closes the documents watcher');
+    check(freshInternals.watcher !== null && freshInternals.watcher !== watcher, 'reset() starts a new watcher');
+    freshInternals.watcher?.close();
+  } finally {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  }
+
+  if (failures > 0) {
+    console.error(`\n❌ ${failures} refresh check(s) failed`);
+    process.exit(1);
+  }
+  console.log('\n✅ Refresh checks passed');
+  process.exit(0);
+}
+
+main().catch(error => {
+  console.error('❌ Refresh check failed:', error);
+  process.exit(1);
+});
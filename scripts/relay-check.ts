@@ -0,0 +1,209 @@
+/**
+ * Check the realtime relay against the mock Realtime API server
+ *
+ * Usage: npm run relay:check
+ * Connects a client through a relay on a local port to MockRealtimeServer and
+ * checks that tools are set by the relay, function calls run server-side, the
+ * model answers from the tool output and excess client events are rate-limited
+ */
+
+import { createServer } from 'http';
+import { createServer as createTcpServer } from 'net';
+import type { AddressInfo } from 'net';
+import WebSocket from 'ws';
+import { RELAY_PATH } from '@/lib/realtime/session';
+import { RealtimeEvent, createRealtimeRelay } from '@/lib/realtime/relay';
+import { createRelayToken } from '@/lib/realtime/relay-auth';
+import { createMockRealtimeServer } from '@/lib/realtime/mock-server';
+import { CITATION_INSTRUCTIONS } from '@/lib/rag/citations';
+
+const TIMEOUT_MS = 30000;
+
+let failures = 0;
+
+function check(condition: boolean, description: string) {
+  console.log(`${condition ? '✅' : '❌'} ${description}`);
+  if (!condition) failures++;
+}
+
+/**
+ * Wait for the first client event matching a predicate
+ */
+function waitForEvent(socket: WebSocket, match: (event: RealtimeEvent) => boolean): Promise<RealtimeEvent> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error('Timed out waiting for relay event')), TIMEOUT_MS);
+    const listener = (data: WebSocket.RawData) => {
+      const event = JSON.parse(data.toString()) as RealtimeEvent;
+      if (match(event)) {
+        clearTimeout(timer);
+        socket.off('message', listener);
+        resolve(event);
+      }
+    };
+    socket.on('message', listener);
+  });
+}
+
+async function main() {
+  const upstream = createMockRealtimeServer();
+  await upstream.start();
+  const upstreamUrl = upstream.getWebSocketUrl();
+
+  const tokenSecret = 'relay-check-secret';
+  const relay = createRealtimeRelay({ upstreamUrl, apiKey: 'sk-relay-check', tokenSecret, eventBurst: 20, eventsPerSecond: 5 });
+  const server = createServer((_req, res) => res.writeHead(404).end());
+  server.on('upgrade', (request, socket, head) => relay.handleUpgrade(request, socket, head));
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+  const port = (server.address() as AddressInfo).port;
+
+  const relayUrl = `ws://127.0.0.1:${port}${RELAY_PATH}`;
+  const token = createRelayToken(tokenSecret).value;
+  const connect = (protocols: string[], origin?: string) =>
+    new Promise<WebSocket>((resolve, reject) => {
+      const socket = new WebSocket(relayUrl, protocols, origin ? { origin } : {});
+      socket.once('open', () => resolve(socket));
+      socket.once('unexpected-response', (_request, response) => reject(new Error(`HTTP ${response.statusCode}`)));
+      socket.once('error', reject);
+    });
+  const refusal = (protocols: string[], origin?: string) =>
+    connect(protocols, origin).then(
+      socket => {
+        socket.close();
+        return 'accepted';
+      },
+      (error: Error) => error.message
+    );
+
+  // Upgrades need an allowed origin and a valid, unused relay token
+  check((await refusal(['realtime'])) === 'HTTP 401', 'Connections without a relay token are refused');
+  check(
+    (await refusal(['realtime', `openai-insecure-api-key.${token.slice(0, -2)}xx`])) === 'HTTP 401',
+    'Connections with a forged relay token are refused'
+  );
+  check(
+    (await refusal(['realtime', `openai-insecure-api-key.${token}`], 'https://evil.example')) === 'HTTP 403',
+    'Connections from other origins are refused'
+  );
+
+  const client = await connect(
+    ['realtime', `openai-insecure-api-key.${token}`, 'openai-beta.realtime-v1'],
+    `http://127.0.0.1:${port}`
+  );
+  check(client.protocol === 'realtime', 'Relay accepts the "realtime" subprotocol');
+  check((await refusal(['realtime', `openai-insecure-api-key.${token}`])) === 'HTTP 401', 'Relay tokens are single-use');
+
+  const send = (event: Record<string, unknown>) => client.send(JSON.stringify(event));
+
+  // The browser sends its own session settings, with tools it should not control
+  send({ type: 'session.update', session: { instructions: 'Answer briefly.', tools: [] } });
+  send({
+    type: 'conversation.item.create',
+    item: { type: 'message', role: 'user', content: [{ type: 'input_text', text: 'How many vacation days do I get?' }] },
+  });
+
+  // Like the browser client library, answer the function call too; the relay drops both events
+  waitForEvent(
+    client,
+    event => event.type === 'response.output_item.done' && (event.item as { type?: string }).type === 'function_call'
+  ).then(event => {
+    const callId = (event.item as { call_id: string }).call_id;
+    send({ type: 'conversation.item.create', item: { type: 'function_call_output', call_id: callId, output: '{}' } });
+    send({ type: 'response.create' });
+  });
+
+  const toolResult = waitForEvent(client, event => event.type === 'relay.tool_result');
+  const answer = waitForEvent(
+    client,
+    event => event.type === 'response.output_item.done' && (event.item as { type?: string }).type === 'message'
+  );
+  send({ type: 'response.create' });
+
+  const result = await toolResult;
+  check(result.name === 'search_pdfs' && !result.error, 'search_pdfs ran on the server');
+
+  const message = await answer;
+  const part = (message.item as { content: Array<{ text?: string; transcript?: string }> }).content[0];
+  const text = part?.transcript ?? part?.text ?? '';
+  check(text.startsWith('According to the documents'), `Model answered from the tool output: "${text.slice(0, 80)}..."`);
+
+  const request = upstream.requests[0];
+  check(request?.authorization === 'Bearer sk-relay-check', 'Upstream is authenticated with the server key');
+  check(/[?&]model=/.test(request?.url ?? ''), 'Upstream model is chosen by the relay');
+
+  const sessionUpdates = upstream.received.filter(event => event.type === 'session.update');
+  const browserUpdate = sessionUpdates[sessionUpdates.length - 1]?.session as { instructions?: string; tools?: unknown[] };
+  check(sessionUpdates.length === 2, 'Relay configures the session before the browser update');
+  const relayInstructions = (sessionUpdates[0]?.session as { instructions?: string } | undefined)?.instructions ?? '';
+  check(
+    relayInstructions.includes(CITATION_INSTRUCTIONS) && !relayInstructions.includes('EXACT DOCUMENT QUOTES'),
+    'Relay session instructions carry the citation rules'
+  );
+  check(
+    browserUpdate?.instructions === 'Answer briefly.' && (browserUpdate?.tools?.length ?? 0) > 0,
+    'Browser instructions pass, tools are replaced with the registry definitions'
+  );
+
+  const outputs = upstream.received.filter(
+    event => event.type === 'conversation.item.create' && (event.item as { type?: string }).type === 'function_call_output'
+  );
+  check(outputs.length === 1, 'Exactly one function_call_output reached upstream');
+  check(
+    upstream.received.filter(event => event.type === 'response.create').length === 2,
+    'Browser response.create during the tool call was dropped'
+  );
+
+  // Disallowed events and floods are answered with relay errors
+  const blocked = waitForEvent(client, event => event.type === 'error');
+  send({ type: 'transcription_session.update', session: {} });
+  const blockedError = (await blocked).error as { code?: string };
+  check(blockedError?.code === 'event_not_allowed', 'Events outside the allow-list are rejected');
+
+  const limited = waitForEvent(client, event => (event.error as { code?: string } | undefined)?.code === 'rate_limit_exceeded');
+  for (let i = 0; i < 40; i++) {
+    send({ type: 'input_audio_buffer.clear' });
+  }
+  await limited;
+  check(true, 'Client event floods are rate-limited');
+
+  client.close();
+  relay.close();
+  server.close();
+  await upstream.close();
+
+  // An upstream that never opens: queued events are capped and the session is closed
+  const stalled = createTcpServer(() => undefined);
+  await new Promise<void>(resolve => stalled.listen(0, '127.0.0.1', () => resolve()));
+  const stalledRelay = createRealtimeRelay({
+    upstreamUrl: `ws://127.0.0.1:${(stalled.address() as AddressInfo).port}/v1/realtime`,
+    apiKey: 'sk-relay-check',
+    tokenSecret,
+    maxPendingEvents: 5,
+  });
+  server.removeAllListeners('upgrade');
+  server.on('upgrade', (request, socket, head) => stalledRelay.handleUpgrade(request, socket, head));
+  server.listen(port, '127.0.0.1');
+  await new Promise(resolve => server.once('listening', resolve));
+
+  const waiting = await connect(['realtime', `openai-insecure-api-key.${createRelayToken(tokenSecret).value}`]);
+  const closed = new Promise<number>(resolve => waiting.once('close', code => resolve(code)));
+  for (let i = 0; i < 10; i++) {
+    waiting.send(JSON.stringify({ type: 'input_audio_buffer.clear' }));
+  }
+  check((await closed) === 1013, 'Sessions whose upstream is not open stop queueing client events');
+
+  stalledRelay.close();
+  server.close();
+  stalled.close();
+
+  if (failures > 0) {
+    console.error(`\n❌ ${failures} relay check(s) failed`);
+    process.exit(1);
+  }
+  console.log('\n✅ Relay checks passed');
+  process.exit(0);
+}
+
+main().catch(error => {
+  console.error('❌ Relay check failed:', error);
+  process.exit(1);
+});
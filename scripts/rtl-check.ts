@@ -0,0 +1,69 @@
+/**
+ * Check the repair of Hebrew text extracted in visual order
+ *
+ * Usage: npm run rag:rtl-check
+ * Visually ordered lines are flipped back with numbers, Latin words and
+ * brackets kept readable, and logically ordered text is left alone
+ */
+
+import { repairVisualOrder } from '@/lib/rag/rtl-repair';
+
+let failures = 0;
+
+function check(condition: boolean, description: string) {
+  console.log(`${condition ? '✅' : '❌'} ${description}`);
+  if (!condition) failures++;
+}
+
+function main() {
+  // Logical text, as written: final letters end words
+  const logical = 'כל עובד זכאי לחופשה שנתית של 12 ימים\nשעות העבודה הן 09:00 עד 17:00';
+  const unchanged = repairVisualOrder(logical);
+  check(unchanged.text === logical, 'Logically ordered Hebrew is left alone');
+  check(
+    unchanged.report.hebrewLines === 2 && unchanged.report.flippedLines === 0,
+    `The report counts 2 Hebrew lines and no flipped line (${JSON.stringify(unchanged.report)})`
+  );
+
+  // The same lines as a visual-order PDF stores them: letters reversed, numbers left to right
+  const visual = 'םימי 12 לש תיתנש השפוחל יאכז דבוע לכ\n17:00 דע 09:00 ןה הדובעה תועש';
+  const repaired = repairVisualOrder(visual);
+  check(repaired.text === logical, `Visual-order lines are flipped back (${repaired.text.split('\n')[0]})`);
+  check(repaired.report.flippedLines === 2, `Both lines are reported as flipped (${repaired.report.flippedLines})`);
+
+  check(
+    repairVisualOrder('(הלחמ) םימי 3 דע').text === 'עד 3 ימים (מחלה)',
+    'Brackets are mirrored when a line is flipped'
+  );
+  check(
+    repairVisualOrder('HR ידי לע םירשואמ ןוחטיב יאנת').text === 'תנאי ביטחון מאושרים על ידי HR',
+    'Latin words in a flipped line stay left to right'
+  );
+  check(
+    repairVisualOrder('Contact the ןוחטיב office at extension 3500').text ===
+      'Contact the ביטחון office at extension 3500',
+    'In English lines only the Hebrew runs are flipped'
+  );
+
+  // Lines without final letters follow the majority of the document
+  const mixed = repairVisualOrder('םימי 12 לש השפוח\nהדובע\nםיבושח םיללכ');
+  check(
+    mixed.text.split('\n')[1] === 'עבודה',
+    `A line without evidence follows the visual majority (${mixed.text.split('\n')[1]})`
+  );
+  check(repairVisualOrder('עבודה').text === 'עבודה', 'A lone line without evidence is left alone');
+
+  check(
+    repairVisualOrder('Vacation policy\nAll employees').report.hebrewLines === 0,
+    'English text has no Hebrew lines'
+  );
+
+  if (failures > 0) {
+    console.error(`\n❌ ${failures} RTL repair check(s) failed`);
+    process.exit(1);
+  }
+  console.log('\n✅ RTL repair checks passed');
+  process.exit(0);
+}
+
+main();
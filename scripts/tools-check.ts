@@ -0,0 +1,120 @@
+/**
+ * Check tool-call validation against the tool schemas
+ *
+ * Usage: npm run rag:tools-check
+ * Every registered tool validates its arguments before running: unknown tools,
+ * missing or mistyped parameters and bad values get an error message for the
+ * model naming the parameter
+ */
+
+import { JSONSchema, createToolRegistry, validateAgainstSchema } from '@/lib/rag/tool-registry';
+import { formatToolOutput } from '@/lib/rag/tool-output';
+
+let failures = 0;
+
+function check(condition: boolean, description: string) {
+  console.log(`${condition ? '✅' : '❌'} ${description}`);
+  if (!condition) failures++;
+}
+
+const SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    count: { type: 'integer', minimum: 1, maximum: 10 },
+    mode: { type: 'string', enum: ['fast', 'exact'] },
+    labels: { anyOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }] },
+    options: { type: 'object', properties: { strict: { type: 'boolean' } }, additionalProperties: false },
+  },
+  required: ['name'],
+  additionalProperties: false,
+};
+
+function main() {
+  // Schema validator
+  const validate = (value: unknown) => validateAgainstSchema(value, SCHEMA, 'arguments');
+  check(
+    validate({ name: 'a', count: 3, mode: 'fast', labels: ['x'], options: { strict: true } }) === null,
+    'Valid arguments pass'
+  );
+  check(validate({ name: 'a', count: null }) === null, 'Optional parameters may be null');
+  check(validate({}) === 'Missing required parameter: name', 'Missing required parameters are named');
+  check(validate({ name: 5 }) === 'Parameter name must be a string', 'Wrong types are named');
+  check(validate({ name: 'a', count: 2.5 }) === 'Parameter count must be an integer', 'Integers are checked');
+  check(validate({ name: 'a', count: 11 }) === 'Parameter count must be <= 10', 'Maximums are checked');
+  check(
+    validate({ name: 'a', mode: 'slow' }) === 'Parameter mode must be one of "fast", "exact"',
+    'Enums list their values'
+  );
+  check(
+    validate({ name: 'a', labels: 'x' }) === null && validate({ name: 'a', labels: ['x', 'y'] }) === null,
+    'anyOf accepts each option'
+  );
+  check(
+    validate({ name: 'a', labels: 3 }) === 'Parameter labels must be a string or a list',
+    'anyOf names its options'
+  );
+  check(
+    validate({ name: 'a', labels: ['x', 3] }) === 'Parameter labels[1] must be a string',
+    'Array items are checked by index'
+  );
+  check(
+    validate({ name: 'a', options: { strict: 'yes' } }) === 'Parameter options.strict must be a boolean',
+    'Nested parameters are named by path'
+  );
+  check(
+    validate({ name: 'a', colour: 'red' }) ===
+      'Unknown parameter: colour (expected name, count, mode, labels, options)',
+    'Unknown parameters are refused with the expected ones'
+  );
+  check(validate([]) === 'Parameter arguments must be an object', 'Arguments must be an object');
+
+  // Registry
+  const registry = createToolRegistry();
+  check(
+    registry.getDefinitions().map(tool => tool.name).join(', ') ===
+      'search_pdfs, get_document_stats, list_documents, get_document_outline, read_section',
+    'The registry offers the knowledge base tools'
+  );
+  check(registry.validate('search_pdfs', { query: 'vacation days' }).valid, 'A search with a query is valid');
+  check(
+    registry.validate('search_pdfs', { query: '   ' }).error === 'Missing required parameter: query',
+    'A blank query is refused'
+  );
+  check(
+    registry.validate('search_pdfs', { query: 'vacation', as_of: '2024-13-01' }).error ===
+      'Parameter as_of must be a date in YYYY-MM-DD format',
+    'as_of must be a date'
+  );
+  const badFilter = { language: 'he', confidentiality: 'secret' };
+  check(
+    registry.validate('search_pdfs', { query: 'vacation', filter: badFilter }).error ===
+      'Parameter filter.confidentiality must be one of "public", "internal", "confidential", "restricted"',
+    'Filters are checked against the filter schema'
+  );
+  check(
+    registry.validate('read_section', { document_id: 'doc_a.txt', start_chunk: 4, end_chunk: 2 }).error ===
+      'Parameter end_chunk must be >= start_chunk',
+    'read_section refuses an end before the start'
+  );
+  check(
+    (registry.validate('delete_everything', {}).error || '').startsWith('Unknown tool: delete_everything'),
+    'Unknown tools are refused'
+  );
+
+  // Tool output
+  check(
+    formatToolOutput({ formatted_response: 'Found 2 results', results: [] }) === 'Found 2 results',
+    'Formatted responses are passed as is'
+  );
+  check(formatToolOutput({ total: 2 }) === JSON.stringify({ total: 2 }, null, 2), 'Other results are passed as JSON');
+
+  if (failures > 0) {
+    console.error(`\n❌ ${failures} tools check(s) failed`);
+    process.exit(1);
+  }
+  console.log('\n✅ Tools checks passed');
+  process.exit(0);
+}
+
+main();
@@ -0,0 +1,51 @@
+/**
+ * Next.js server with the realtime relay
+ *
+ * Usage: npm run dev:relay, or npm run build && npm run start:relay
+ * Serves the app like `next dev` / `next start` and relays WebSocket connections on
+ * /api/realtime/relay to the Realtime API. With REALTIME_RELAY=true, /api/realtime
+ * sends the browser here with a relay token instead of minting a client secret.
+ */
+
+import { createServer } from 'http';
+import { parse } from 'url';
+import next from 'next';
+import { RELAY_PATH, isRelayEnabled } from '@/lib/realtime/session';
+import { createRealtimeRelay } from '@/lib/realtime/relay';
+
+const dev = process.env.NODE_ENV !== 'production';
+const port = parseInt(process.env.PORT || '3000', 10);
+
+async function main() {
+  const app = next({ dev });
+  const handle = app.getRequestHandler();
+  await app.prepare();
+  const handleNextUpgrade = app.getUpgradeHandler(); // hot reloading in development
+
+  const relay = createRealtimeRelay({
+    upstreamUrl: process.env.REALTIME_UPSTREAM_URL,
+    logEvents: process.env.REALTIME_RELAY_LOG === 'true',
+  });
+
+  const server = createServer((request, response) => handle(request, response, parse(request.url || '/', true)));
+
+  server.on('upgrade', (request, socket, head) => {
+    if (parse(request.url || '/').pathname === RELAY_PATH) {
+      relay.handleUpgrade(request, socket, head);
+    } else {
+      handleNextUpgrade(request, socket, head);
+    }
+  });
+
+  server.listen(port, () => {
+    console.log(`✅ Ready on http://localhost:${port} (relay: ws://localhost:${port}${RELAY_PATH})`);
+    if (!isRelayEnabled()) {
+      console.warn('⚠️ REALTIME_RELAY is not "true"; the browser will still connect to OpenAI directly');
+    }
+  });
+}
+
+main().catch(error => {
+  console.error('❌ Failed to start server:', error);
+  process.exit(1);
+});